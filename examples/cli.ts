@@ -4,7 +4,7 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import boxen from 'boxen';
-import { BoltDriverAPI, DeviceInfo, AuthConfig, GpsInfo } from '../src';
+import { BoltDriverAPI, DeviceInfo, AuthConfig, GpsInfo, HarReplayTransport } from '../src';
 
 interface CLIState {
   api: BoltDriverAPI;
@@ -124,8 +124,15 @@ async function initializeAPI(): Promise<CLIState | null> {
     };
 
     const spinner = ora('Initializing Bolt Driver API...').start();
-    const api = new BoltDriverAPI(deviceInfo, authConfig);
-    spinner.succeed(chalk.green('API initialized successfully'));
+    // BOLT_REPLAY_HAR=./session.har serves recorded responses instead of calling Bolt.
+    // The device id is random per run, so requests are matched on method and path only.
+    const replayHar = process.env['BOLT_REPLAY_HAR'];
+    const api = replayHar
+      ? new BoltDriverAPI(deviceInfo, authConfig, {
+          transport: HarReplayTransport.fromFile(replayHar, { matchQuery: [] })
+        })
+      : new BoltDriverAPI(deviceInfo, authConfig);
+    spinner.succeed(chalk.green(replayHar ? `API initialized in replay mode (${replayHar})` : 'API initialized successfully'));
 
     // Attempt authentication if user wants
     const { attemptAuth } = await inquirer.prompt([
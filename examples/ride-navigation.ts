@@ -11,10 +11,13 @@
  * npm run example:navigation
  * # or
  * npx ts-node examples/ride-navigation.ts
+ *
+ * # Offline, against a recorded HAR file
+ * BOLT_REPLAY_HAR=./session.har npx ts-node examples/ride-navigation.ts
  * ```
  */
 
-import { BoltDriverAPI } from "../src";
+import { BoltDriverAPI, HarReplayTransport } from "../src";
 import { GpsInfo, OrderHandle, OrderHistoryItem } from "../src/types";
 import chalk from "chalk";
 import ora from "ora";
@@ -487,7 +490,12 @@ class RideNavigationExample {
       brand: "bolt",
       authMethod: "phone", // Added missing property
       theme: "dark" // Added missing property
-    }
+    },
+    // Serve recorded responses instead of the network when a HAR file is given;
+    // coordinates are entered interactively, so requests are matched on method and path
+    process.env["BOLT_REPLAY_HAR"]
+      ? { transport: HarReplayTransport.fromFile(process.env["BOLT_REPLAY_HAR"], { matchQuery: [] }) }
+      : {}
   );
 
   const example = new RideNavigationExample(api);
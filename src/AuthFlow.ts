@@ -0,0 +1,488 @@
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { BoltDriverAPI } from "./BoltDriverAPI";
+import { assertResendAllowed, resendDeadline } from "./VerificationCode";
+import {
+  AuthConfig,
+  AuthFlowAction,
+  AuthFlowEvents,
+  AuthFlowOptions,
+  AuthFlowState,
+  AuthFlowStateError,
+  AuthFlowStatus,
+  AuthFlowStore,
+  BoltApiError,
+  DeviceInfo,
+  InvalidPhoneError,
+  InvalidSmsCodeError,
+  SmsLimitError,
+  StartAuthResponse,
+} from "./types";
+
+/**
+ * The client requires a driver and session id in credentials, but neither is known nor
+ * sent before the login completes.
+ */
+const PENDING_LOGIN = { driver_id: "pending", session_id: "pending" };
+
+/**
+ * Phone login as a state machine: `idle` → `code_sent` → `verifying` → `authenticated`,
+ * with `locked_out` when Bolt stops sending or checking codes.
+ *
+ * The flow keeps the verification token and the resend and lockout deadlines, maps
+ * `SmsLimitError` and `InvalidSmsCodeError` to transitions and persists every transition,
+ * so a restarted CLI can resume waiting for the code it already requested. Actions that
+ * are not allowed in the current state throw {@link AuthFlowStateError}; failed actions
+ * rethrow the API error after moving to the state the failure leads to.
+ *
+ * @example
+ * ```typescript
+ * const flow = new AuthFlow(api, authConfig, deviceInfo, {
+ *   store: new FileAuthFlowStore('.bolt-auth-flow.json')
+ * });
+ *
+ * const { status } = await flow.restore();
+ * if (status === 'idle') {
+ *   await flow.sendCode('+48500123456');
+ * }
+ * while (flow.getStatus() === 'code_sent') {
+ *   try {
+ *     await flow.submitCode(await prompt('SMS code: '));
+ *   } catch (error) {
+ *     if (!(error instanceof InvalidSmsCodeError)) throw error;
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class AuthFlow {
+  private readonly events = new EventEmitter();
+  private readonly store: AuthFlowStore;
+  private readonly verificationTtlMs: number;
+  private readonly lockoutMs: number;
+  private state: AuthFlowState = idleState();
+  private restoration: Promise<AuthFlowState> | undefined;
+
+  /**
+   * Creates a new AuthFlow. The persisted state is loaded by {@link restore}, or by the
+   * first action.
+   *
+   * @param api - Client used to send and confirm codes; it stores the tokens on success
+   * @param authConfig - Authentication configuration passed to the client
+   * @param deviceInfo - Device information passed to the client
+   * @param options - Store and timing settings
+   */
+  constructor(
+    private readonly api: Pick<BoltDriverAPI, "startAuthentication" | "confirmAuthentication">,
+    private readonly authConfig: AuthConfig,
+    private readonly deviceInfo: DeviceInfo,
+    options: AuthFlowOptions = {}
+  ) {
+    this.store = options.store ?? new MemoryAuthFlowStore();
+    this.verificationTtlMs = options.verificationTtlMs ?? 600000;
+    this.lockoutMs = options.lockoutMs ?? 60000;
+  }
+
+  /**
+   * Load the persisted state. A flow interrupted while verifying resumes in `code_sent`;
+   * codes older than `verificationTtlMs` are discarded. Only loads once.
+   *
+   * @returns The current state
+   */
+  restore(): Promise<AuthFlowState> {
+    this.restoration ??= this.loadState();
+    return this.restoration;
+  }
+
+  /**
+   * Current state. Call {@link restore} first to include the persisted one.
+   *
+   * @returns A copy of the state
+   */
+  getState(): AuthFlowState {
+    return { ...this.state };
+  }
+
+  /**
+   * Current status
+   *
+   * @returns The status
+   */
+  getStatus(): AuthFlowStatus {
+    return this.state.status;
+  }
+
+  /**
+   * Actions allowed right now. `resendCode` becomes available once the resend wait
+   * requested by Bolt has passed, `sendCode` after a lockout once it has ended.
+   *
+   * @returns Allowed actions
+   */
+  getAllowedActions(): AuthFlowAction[] {
+    const now = Date.now();
+    switch (this.state.status) {
+      case "idle":
+        return ["sendCode", "reset"];
+      case "code_sent":
+        return now >= (this.state.resendAvailableAt ?? 0)
+          ? ["submitCode", "resendCode", "reset"]
+          : ["submitCode", "reset"];
+      case "verifying":
+        return [];
+      case "authenticated":
+        return ["reset"];
+      case "locked_out":
+        return now >= (this.state.lockedUntil ?? 0) ? ["sendCode", "reset"] : ["reset"];
+    }
+  }
+
+  /**
+   * Whether an action is allowed right now
+   *
+   * @param action - Action to check
+   * @returns True if the action is allowed
+   */
+  can(action: AuthFlowAction): boolean {
+    return this.getAllowedActions().includes(action);
+  }
+
+  /**
+   * Request a code for a phone number.
+   *
+   * @param phone - Phone number in international format; defaults to the number of the previous code
+   * @returns The state after the code was sent
+   * @throws {AuthFlowStateError} When no code can be requested right now or no phone number is known
+   * @throws {SmsLimitError} When Bolt refused to send more codes; the flow is `locked_out`
+   * @throws {InvalidPhoneError} When the phone number was rejected
+   */
+  async sendCode(phone?: string): Promise<AuthFlowState> {
+    await this.restore();
+    this.assertAllowed("sendCode");
+    const target = phone ?? this.state.phone;
+    if (!target) {
+      throw new AuthFlowStateError("sendCode", this.state.status);
+    }
+    return this.requestCode(target);
+  }
+
+  /**
+   * Request another code for the same phone number, optionally through another channel.
+   *
+   * @param channel - Channel to send the code through, one of `availableChannels`; defaults to Bolt's choice
+   * @returns The state after the code was sent
+   * @throws {VerificationCooldownError} When the resend wait requested by Bolt has not passed
+   * @throws {ValidationError} When the channel is not available
+   * @throws {AuthFlowStateError} When no code was sent
+   * @throws {SmsLimitError} When Bolt refused to send more codes; the flow is `locked_out`
+   */
+  async resendCode(channel?: string): Promise<AuthFlowState> {
+    await this.restore();
+    // The same checks as the client, applied to the persisted state so they survive restarts
+    if (this.state.status === "code_sent") {
+      assertResendAllowed(this.state, channel);
+    }
+    this.assertAllowed("resendCode");
+    return this.requestCode(this.state.phone ?? "", channel);
+  }
+
+  /**
+   * Confirm the received code. On success the client stores the tokens and the persisted
+   * flow is cleared.
+   *
+   * @param code - Code received by the driver
+   * @returns The `authenticated` state
+   * @throws {AuthFlowStateError} When no code was sent
+   * @throws {InvalidSmsCodeError} When the code was rejected; the flow stays in `code_sent`
+   * @throws {SmsLimitError} When too many codes were rejected; the flow is `locked_out`
+   */
+  async submitCode(code: string): Promise<AuthFlowState> {
+    await this.restore();
+    this.assertAllowed("submitCode");
+    const { phone = "", verificationToken } = this.state;
+    await this.transition({ ...this.state, status: "verifying" });
+
+    try {
+      await this.api.confirmAuthentication(
+        this.authConfig,
+        this.deviceInfo,
+        { ...PENDING_LOGIN, phone, ...(verificationToken && { verification_token: verificationToken }) },
+        code
+      );
+    } catch (error) {
+      if (error instanceof SmsLimitError) {
+        await this.lockOut(phone, error);
+      } else {
+        await this.transition({
+          ...this.state,
+          status: "code_sent",
+          failedAttempts: this.state.failedAttempts + (error instanceof InvalidSmsCodeError ? 1 : 0),
+          lastError: errorMessage(error),
+        });
+      }
+      throw error;
+    }
+
+    await this.transition({ status: "authenticated", phone, failedAttempts: 0, updatedAt: Date.now() }, false);
+    await this.store.clear();
+    return this.getState();
+  }
+
+  /**
+   * Forget the requested code and return to `idle`. Not allowed while a code is being
+   * verified.
+   *
+   * @throws {AuthFlowStateError} While verifying
+   */
+  async reset(): Promise<void> {
+    await this.restore();
+    this.assertAllowed("reset");
+    await this.transition(idleState(), false);
+    await this.store.clear();
+  }
+
+  /**
+   * Register a listener for a flow event
+   * @param event - Event name (e.g. 'stateChange')
+   * @param listener - Listener invoked with the event payload
+   * @returns This instance, for chaining
+   */
+  on<K extends keyof AuthFlowEvents>(event: K, listener: AuthFlowEvents[K]): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener previously registered with {@link on}
+   * @param event - Event name
+   * @param listener - Listener to remove
+   * @returns This instance, for chaining
+   */
+  off<K extends keyof AuthFlowEvents>(event: K, listener: AuthFlowEvents[K]): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  private async loadState(): Promise<AuthFlowState> {
+    const stored = await this.store.load();
+    if (!stored) {
+      return this.getState();
+    }
+
+    if (stored.status === "code_sent" || stored.status === "verifying") {
+      if (!stored.verificationToken || Date.now() - stored.updatedAt > this.verificationTtlMs) {
+        await this.store.clear();
+        return this.getState();
+      }
+      // The outcome of an interrupted confirmation is unknown; the code can be submitted again
+      await this.transition({ ...stored, status: "code_sent" });
+    } else {
+      await this.transition(stored, false);
+    }
+    return this.getState();
+  }
+
+  private async requestCode(phone: string, channel?: string): Promise<AuthFlowState> {
+    try {
+      const response = await this.api.startAuthentication(this.authConfig, this.deviceInfo, {
+        ...PENDING_LOGIN,
+        phone,
+        ...(channel && { verification_code_channel: channel }),
+      });
+      assertCodeSent(response);
+
+      const { data } = response;
+      await this.transition({
+        status: "code_sent",
+        phone,
+        verificationToken: data.verification_token,
+        codeChannel: data.verification_code_channel,
+        codeTarget: data.verification_code_target,
+        codeLength: data.verification_code_length,
+        availableChannels: data.available_verification_code_channels,
+        resendAvailableAt: resendDeadline(data.resend_wait_time_seconds),
+        failedAttempts: 0,
+        updatedAt: Date.now(),
+      });
+      return this.getState();
+    } catch (error) {
+      if (error instanceof SmsLimitError) {
+        await this.lockOut(phone, error);
+      } else {
+        await this.transition({ ...this.state, lastError: errorMessage(error) });
+      }
+      throw error;
+    }
+  }
+
+  private async lockOut(phone: string, error: SmsLimitError): Promise<void> {
+    await this.transition({
+      status: "locked_out",
+      phone,
+      lockedUntil: Date.now() + (lockoutFromResponse(error.response) ?? this.lockoutMs),
+      failedAttempts: this.state.failedAttempts,
+      lastError: error.message,
+      updatedAt: Date.now(),
+    });
+  }
+
+  private assertAllowed(action: AuthFlowAction): void {
+    if (!this.can(action)) {
+      throw new AuthFlowStateError(action, this.state.status);
+    }
+  }
+
+  /**
+   * Move to a new state and persist it
+   * @param state - New state
+   * @param persist - Whether to save the state; final states are cleared from the store instead
+   * @private
+   */
+  private async transition(state: AuthFlowState, persist = true): Promise<void> {
+    const previous = this.state.status;
+    this.state = { ...state, updatedAt: Date.now() };
+    if (persist) {
+      await this.store.save(this.state);
+    }
+    this.events.emit("stateChange", this.getState(), previous);
+  }
+}
+
+/**
+ * File-based {@link AuthFlowStore}, so a CLI can be restarted while waiting for a code.
+ *
+ * The file holds the verification token of a pending login; it is removed once the
+ * login completes or the flow is reset.
+ *
+ * @example
+ * ```typescript
+ * const flow = new AuthFlow(api, authConfig, deviceInfo, {
+ *   store: new FileAuthFlowStore()
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class FileAuthFlowStore implements AuthFlowStore {
+  public readonly filePath: string;
+
+  /**
+   * Creates a new FileAuthFlowStore.
+   *
+   * @param filePath - Optional path of the state file. Defaults to '.bolt-auth-flow.json' in the current working directory.
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath || join(process.cwd(), ".bolt-auth-flow.json");
+  }
+
+  /**
+   * Save the flow state to file
+   * @param state - State to save
+   */
+  async save(state: AuthFlowState): Promise<void> {
+    try {
+      await fs.writeFile(this.filePath, JSON.stringify(state, null, 2), "utf8");
+    } catch (error) {
+      throw new Error(`Failed to save authentication flow: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Load the flow state from file
+   * @returns The saved state, or null when there is none or it cannot be read
+   */
+  async load(): Promise<AuthFlowState | null> {
+    try {
+      const state = JSON.parse(await fs.readFile(this.filePath, "utf8")) as Partial<AuthFlowState>;
+      if (typeof state.status !== "string" || typeof state.updatedAt !== "number") {
+        return null;
+      }
+      return { ...state, status: state.status, updatedAt: state.updatedAt, failedAttempts: state.failedAttempts ?? 0 };
+    } catch (error) {
+      // File doesn't exist or is invalid
+      return null;
+    }
+  }
+
+  /**
+   * Remove the state file
+   */
+  async clear(): Promise<void> {
+    try {
+      await fs.unlink(this.filePath);
+    } catch (error) {
+      // File doesn't exist, which is fine
+    }
+  }
+}
+
+/**
+ * In-memory {@link AuthFlowStore}, the default. The state is lost when the process exits.
+ *
+ * @since 1.1.0
+ */
+export class MemoryAuthFlowStore implements AuthFlowStore {
+  private state: AuthFlowState | null = null;
+
+  /**
+   * Keep the flow state in memory
+   * @param state - State to save
+   */
+  async save(state: AuthFlowState): Promise<void> {
+    this.state = { ...state };
+  }
+
+  /**
+   * Get the saved flow state
+   * @returns The saved state, or null when there is none
+   */
+  async load(): Promise<AuthFlowState | null> {
+    return this.state && { ...this.state };
+  }
+
+  /**
+   * Forget the saved flow state
+   */
+  async clear(): Promise<void> {
+    this.state = null;
+  }
+}
+
+function idleState(): AuthFlowState {
+  return { status: "idle", failedAttempts: 0, updatedAt: Date.now() };
+}
+
+/**
+ * `startAuthentication` returns envelopes with a non-zero code instead of throwing when
+ * the HTTP status is 200; turn them into the errors the SDK throws elsewhere.
+ */
+function assertCodeSent(response: StartAuthResponse): void {
+  switch (response.code) {
+    case 0:
+      return;
+    case 299: // SMS_LIMIT_REACHED
+      throw new SmsLimitError("SMS_LIMIT_REACHED", response);
+    case 17500: // PARSING_PHONE_FAILED
+      throw new InvalidPhoneError("Invalid phone number format", response);
+    default:
+      throw new BoltApiError(`Authentication failed: ${response.message}`, response.code, response);
+  }
+}
+
+/**
+ * Read the wait from messages such as "Please wait at least 30 seconds to resend a new code."
+ */
+function lockoutFromResponse(response: unknown): number | undefined {
+  const text = (response as { error_data?: { text?: unknown } } | undefined)?.error_data?.text;
+  const match = typeof text === "string" ? /(\d+)\s*(second|minute|hour)/i.exec(text) : null;
+  if (!match?.[1] || !match[2]) {
+    return undefined;
+  }
+  const unit = { second: 1000, minute: 60000, hour: 3600000 }[match[2].toLowerCase() as "second" | "minute" | "hour"];
+  return Number(match[1]) * unit;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,4 +1,5 @@
-import axios, { AxiosInstance, AxiosResponse } from "axios";
+import { AxiosInstance } from "axios";
+import { EventEmitter } from "events";
 import {
   BoltApiConfig,
   DeviceInfo,
@@ -38,9 +39,86 @@ import {
   OrderHandle,
   RideDetails,
   OrderHistoryData,
+  RequestOptions,
+  AuthLostEvent,
+  BoltDriverAPIEvents,
+  EndpointDefinition,
+  HostMap,
+  HostRegistryOptions,
+  SessionManagerOptions,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  ApiMiddleware,
+  MiddlewareContext,
+  SchemaDriftReport,
+  ScheduledRideRequests,
+  ActivityRides,
+  DriverPhoneDetails,
+  EarningLandingScreen,
+  EarnMoreDetails,
+  HelpDetails,
+  ScoreOverview,
+  DriverSidebar,
+  DriverConfiguration,
+  DriverConfigurationOptions,
+  RequestAbortedError,
+  RequestEvent,
+  SessionRestoredEvent,
+  TokenRefreshedEvent,
+  PendingVerification,
+  ReauthenticatedEvent,
 } from "./types";
 import { FileTokenStorage } from "./TokenStorage";
 import { Logger } from "./Logger";
+import { RetryPolicy, RetryContext, abortable, parseRetryAfter } from "./RetryPolicy";
+import { ENDPOINTS, EndpointName } from "./Endpoints";
+import { HostRegistry } from "./HostRegistry";
+import { DeviceProfile } from "./DeviceProfile";
+import { SessionManager } from "./SessionManager";
+import { ReauthProvider } from "./Reauthentication";
+import { AxiosTransport, applyMiddleware } from "./Transport";
+import { SchemaValidator } from "./SchemaValidator";
+import { normalizeScreen, normalizeSidebar } from "./ScreenBlocks";
+import { buildDriverConfiguration, DriverConfigurationPayload } from "./DriverConfiguration";
+import { assertResendAllowed, resendDeadline } from "./VerificationCode";
+
+/**
+ * Request description passed to {@link BoltDriverAPI.withRetry}
+ * @private
+ */
+interface RequestContext extends RetryContext {
+  /** Set to false for calls that do not use the session token (login, token exchange) */
+  requiresAuth?: boolean;
+}
+
+/**
+ * Per-call input for {@link BoltDriverAPI.request}
+ * @private
+ */
+interface EndpointCall {
+  /** Driver position, sent with endpoints that require GPS */
+  gpsInfo?: GpsInfo;
+  /** Endpoint-specific query parameters, merged over the common ones */
+  params?: Partial<RequestParams>;
+  /** Request body for POST and PUT endpoints */
+  data?: unknown;
+}
+
+/**
+ * Per-call input for {@link BoltDriverAPI.send}
+ * @private
+ */
+interface EndpointRequest {
+  /** Resolved URL, for endpoints with path parameters (defaults to the catalogued URL) */
+  url?: string;
+  /** Query parameters */
+  params?: object;
+  /** Request body */
+  data?: unknown;
+  /** How the response body is read */
+  responseType?: "json" | "arraybuffer";
+}
 
 /**
  * Official Node.js SDK for Bolt Driver API
@@ -76,7 +154,9 @@ import { Logger } from "./Logger";
  * @author Bolt Driver API Team§
  */
 export class BoltDriverAPI {
-  private readonly client: AxiosInstance;
+  private readonly transport: Transport;
+  /** axios instance of the default transport; undefined when a custom transport is configured */
+  protected readonly client: AxiosInstance | undefined;
   private readonly config: BoltApiConfig;
   private accessToken: string | undefined;
   private refreshToken: string | undefined;
@@ -85,6 +165,22 @@ export class BoltDriverAPI {
   private authConfig: AuthConfig;
   private tokenStorage: TokenStorage;
   private logger: Logger;
+  private retryPolicy: RetryPolicy;
+  private readonly hosts: HostRegistry;
+  private readonly deviceProfile: DeviceProfile;
+  private readonly sessions: SessionManager;
+  private readonly schemaValidator: SchemaValidator;
+  private refreshInFlight: Promise<string> | undefined;
+  private readonly reauthProviders: ReauthProvider[] = [];
+  private reauthInFlight: Promise<void> | undefined;
+  private readonly middleware: ApiMiddleware[] = [];
+  private readonly events = new EventEmitter();
+  private readonly initialization: Promise<void>;
+  private readonly inFlight = new Set<AbortController>();
+  private disposed = false;
+  private pendingVerification:
+    | { verification: PendingVerification; request: [AuthConfig, DeviceInfo, Credentials] }
+    | undefined;
   private driverInfo:
     | {
         driverId: number;
@@ -139,114 +235,136 @@ export class BoltDriverAPI {
     this.deviceInfo = deviceInfo;
     this.authConfig = authConfig;
 
+    // Resolve named hosts; the legacy URL fields override their hosts
+    const legacyHosts: Partial<HostMap> = {};
+    if (config?.baseUrl) {
+      legacyHosts.auth = config.baseUrl;
+    }
+    if (config?.driverBaseUrl) {
+      legacyHosts.partnerDriver = config.driverBaseUrl;
+    }
+    if (config?.companyBaseUrl) {
+      legacyHosts.company = config.companyBaseUrl;
+    }
+    const hostOptions: HostRegistryOptions = {
+      country: authConfig.country,
+      hosts: { ...legacyHosts, ...config?.hosts },
+    };
+    if (config?.region) {
+      hostOptions.region = config.region;
+    }
+    if (config?.regionHosts) {
+      hostOptions.regionHosts = config.regionHosts;
+    }
+    this.hosts = new HostRegistry(hostOptions);
+
+    // The default User-Agent follows the device's platform, model and versions
+    this.deviceProfile = DeviceProfile.fromDeviceInfo(deviceInfo, config?.userAgent);
+
     this.config = {
-      baseUrl: "https://partnerdriver.live.boltsvc.net/partnerDriver",
-      driverBaseUrl: "https://partnerdriver.live.boltsvc.net/partnerDriver",
-      companyBaseUrl: "https://europe-company.taxify.eu",
       timeout: 30000,
       retries: 3,
-      userAgent: "Bolt Driver/179857746 CFNetwork/3826.600.31 Darwin/24.6.0",
+      retryBaseDelayMs: 500,
+      retryMaxDelayMs: 10000,
+      userAgent: this.deviceProfile.userAgent,
       ...config,
+      baseUrl: this.hosts.resolve("auth"),
+      driverBaseUrl: this.hosts.resolve("partnerDriver"),
+      companyBaseUrl: this.hosts.resolve("company"),
     };
 
+    const sessionOptions: SessionManagerOptions = {};
+    if (this.config.sessionBackgroundTimeoutMs !== undefined) {
+      sessionOptions.backgroundTimeoutMs = this.config.sessionBackgroundTimeoutMs;
+    }
+    this.sessions = new SessionManager(deviceInfo.deviceId, sessionOptions);
+
     // Initialize token storage
     this.tokenStorage = tokenStorage || new FileTokenStorage();
 
     // Initialize logger
     this.logger = new Logger(loggingConfig);
 
-    this.client = axios.create({
-      baseURL: this.config.baseUrl,
-      timeout: this.config.timeout,
-      headers: {
-        "User-Agent": this.config.userAgent,
-        Accept: "*/*",
-        "Accept-Language": authConfig.language,
-        "Accept-Encoding": "gzip, deflate, br",
-        Connection: "keep-alive",
-      },
-    });
-
-    // Add request interceptor for authentication and logging
-    this.client.interceptors.request.use(
-      async (config) => {
-        this.logger.debug("Request interceptor: Adding Authorization header", {
-          accessToken: this.accessToken,
-        });
-        if (this.accessToken) {
-          config.headers.Authorization = `Bearer ${this.accessToken}`;
-        }
-
-        // Log request
-        this.logger.logRequest(
-          config.method?.toUpperCase() || "UNKNOWN",
-          config.url || "",
-          config.data
-        );
+    const profileProblems = this.deviceProfile.validate();
+    if (profileProblems.length > 0) {
+      this.logger.warn("Device profile is inconsistent", { problems: profileProblems });
+    }
 
-        return config;
+    // Initialize retry policy
+    this.retryPolicy = new RetryPolicy(
+      {
+        retries: this.config.retries,
+        baseDelayMs: this.config.retryBaseDelayMs ?? 500,
+        maxDelayMs: this.config.retryMaxDelayMs ?? 10000,
       },
-      (error) => {
-        this.logger.error("Request interceptor error", error);
-        return Promise.reject(error);
-      }
+      this.logger,
+      (event) => this.emit("retry", event)
     );
 
-    // Add response interceptor for error handling and logging
-    this.client.interceptors.response.use(
-      (response: AxiosResponse) => {
-        // Log response
-        this.logger.logResponse(
-          response.config.method?.toUpperCase() || "UNKNOWN",
-          response.config.url || "",
-          response.data
-        );
-        return response;
-      },
-      (error) => {
-        const startTime = error.config?.metadata?.startTime;
-        const duration = startTime ? Date.now() - startTime : undefined;
-
-        // Log error
-        this.logger.logError(
-          error.config?.method?.toUpperCase() || "UNKNOWN",
-          error.config?.url || "",
-          error,
-          duration
-        );
+    this.schemaValidator = new SchemaValidator(this.config.schemaValidation ?? "off", this.logger);
 
-        if (axios.isAxiosError(error)) {
-          this.logger.error("Axios error details", {
-            status: error.response?.status,
-            data: error.response?.data,
-            headers: error.response?.headers,
-          });
-        }
+    // Headers every request carries, as sent by the app
+    const defaultHeaders: Record<string, string> = {
+      "User-Agent": this.config.userAgent,
+      Accept: "*/*",
+      "Accept-Language": authConfig.language,
+      "Accept-Encoding": "gzip, deflate, br",
+      Connection: "keep-alive",
+    };
 
-        if (error.response) {
-          const { status, data } = error.response;
-          if (status === 401) {
-            throw new AuthenticationError(
-              "Authentication failed",
-              status,
-              data
-            );
-          } else if (status === 400) {
-            throw new ValidationError("Invalid request", status, data);
-          } else {
-            throw new BoltApiError(
-              `API request failed: ${data?.message || error.message}`,
-              status,
-              data
-            );
-          }
+    let transport = this.config.transport;
+    if (!transport) {
+      const axiosTransport = new AxiosTransport({
+        baseURL: this.config.baseUrl,
+        timeout: this.config.timeout,
+        headers: defaultHeaders,
+      });
+      this.client = axiosTransport.client;
+      transport = axiosTransport;
+    }
+
+    this.transport = applyMiddleware(transport, [
+      // Plugin hooks registered with use()
+      (request, next) => this.runMiddleware(request, next),
+      // Add default headers and the Authorization header
+      (request, next) => {
+        const headers = { ...defaultHeaders, ...request.headers };
+        if (this.accessToken && !request.skipAuth) {
+          headers["Authorization"] = `Bearer ${this.accessToken}`;
         }
-        throw new BoltApiError(`Network error: ${error.message}`, 0);
-      }
-    );
-
-    // Initialize authentication from stored token
-    this.initializeFromStoredToken().catch((error) => {
+        return next({ ...request, headers });
+      },
+      // Log requests, responses and failures
+      async (request, next) => {
+        const startTime = Date.now();
+        this.logger.logRequest(request.method, request.url, request.data);
+        try {
+          const response = await next(request);
+          this.logger.logResponse(request.method, request.url, response.data, Date.now() - startTime);
+          return response;
+        } catch (error) {
+          this.logger.logError(request.method, request.url, error, Date.now() - startTime);
+          throw error;
+        }
+      },
+      // Check response payloads against their schemas
+      ...(this.schemaValidator.mode !== "off" ? [this.schemaValidator.validate] : []),
+      // Map HTTP error statuses to SDK errors
+      async (request, next) => {
+        const response = await next(request);
+        if (response.status >= 400) {
+          throw this.httpError(response);
+        }
+        return response;
+      },
+      // Emit the request lifecycle events with the HTTP status as received
+      (request, next) => this.emitRequestEvents(request, next),
+      // Record the traffic exactly as sent and received
+      ...(this.config.recorder ? [this.config.recorder.record] : []),
+    ]);
+
+    // Initialize authentication from stored token; ready() and requests wait for it
+    this.initialization = this.initializeFromStoredToken().catch((error) => {
       this.logger.debug("Failed to initialize from stored token", error);
     });
   }
@@ -260,6 +378,10 @@ export class BoltDriverAPI {
       const tokenData = await this.tokenStorage.loadToken();
       if (tokenData) {
         this.accessToken = tokenData.token;
+        this.sessions.restore(tokenData.sessionInfo?.sessionId);
+        if (tokenData.sessionInfo?.refreshToken) {
+          this.refreshToken = tokenData.sessionInfo.refreshToken;
+        }
 
         // If sessionInfo has empty driverId, try to extract it from the JWT token
         if (tokenData.sessionInfo.driverId === 0 && this.accessToken) {
@@ -303,6 +425,19 @@ export class BoltDriverAPI {
           }
         }
         this.logger.info("Restored authentication from stored token");
+
+        const event: SessionRestoredEvent = {
+          driverId: this.sessionInfo?.driverId ?? tokenData.sessionInfo.driverId,
+          hasRefreshToken: this.refreshToken !== undefined,
+        };
+        const { sessionId, expiresAt } = this.sessionInfo ?? tokenData.sessionInfo;
+        if (sessionId) {
+          event.sessionId = sessionId;
+        }
+        if (expiresAt) {
+          event.expiresAt = expiresAt;
+        }
+        this.emit("sessionRestored", event);
       }
     } catch (error: unknown) {
       this.logger.warn(
@@ -329,7 +464,7 @@ export class BoltDriverAPI {
       if (parts.length !== 3) {
         this.logger.warn("Invalid JWT token format, attempting to use as is");
         return {
-          sessionId: "",
+          sessionId: this.sessions.getSessionId(),
           driverId: 1,
           partnerId: 1,
           companyId: 1,
@@ -358,7 +493,7 @@ export class BoltDriverAPI {
       if (!jwtData) {
         this.logger.warn("No 'data' field in JWT payload, using defaults");
         return {
-          sessionId: "",
+          sessionId: this.sessions.getSessionId(),
           driverId: 1,
           partnerId: 1,
           companyId: 1,
@@ -372,7 +507,7 @@ export class BoltDriverAPI {
       const data = jwtData.driver_info || jwtData;
 
       return {
-        sessionId: "",
+        sessionId: this.sessions.getSessionId(),
         driverId: data.driver_id || data.driverId || 1,
         partnerId: data.partner_id || data.partnerId || 1,
         companyId: data.company_id || data.companyId || 1,
@@ -396,6 +531,7 @@ export class BoltDriverAPI {
    * @param authConfig - Authentication configuration containing brand, country, language, and theme settings
    * @param deviceParams - Device information including ID, type, OS version, and app version
    * @param credentials - Driver credentials containing phone number and optional driver/session identifiers
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    *
    * @returns Promise resolving to authentication start response containing verification token and channel info
    *
@@ -436,7 +572,8 @@ export class BoltDriverAPI {
   async startAuthentication(
     authConfig: AuthConfig,
     deviceParams: DeviceInfo,
-    credentials: Credentials
+    credentials: Credentials,
+    options?: RequestOptions
   ): Promise<StartAuthResponse> {
     try {
       this.logger.info("Starting authentication with real API endpoints");
@@ -445,15 +582,7 @@ export class BoltDriverAPI {
       this.validateRequiredParams(deviceParams, authConfig, credentials);
 
       // Query parameters (as per HAR file)
-      const queryParams = {
-        brand: this.authConfig.brand,
-        deviceId: deviceParams.deviceId,
-        deviceType: deviceParams.deviceType,
-        device_name: deviceParams.deviceName,
-        device_os_version: deviceParams.deviceOsVersion,
-        language: authConfig.language,
-        version: deviceParams.appVersion,
-      };
+      const queryParams = this.buildAuthParams(deviceParams, authConfig);
 
       // Request body (as per HAR file)
       const requestBody = {
@@ -461,29 +590,35 @@ export class BoltDriverAPI {
         device_uid: deviceParams.deviceId,
         version: deviceParams.appVersion,
         device_os_version: deviceParams.deviceOsVersion,
+        ...(credentials.verification_code_channel && {
+          verification_code_channel: credentials.verification_code_channel,
+        }),
       };
 
       this.logger.debug("Sending query params:", queryParams);
       this.logger.debug("Sending request body:", requestBody);
 
-      const response = await this.client.post(
-        "/startAuthentication",
-        requestBody,
-        {
-          params: queryParams,
-        }
+      const response = await this.withRetry(
+        this.endpointContext("startAuthentication"),
+        () =>
+          this.send<StartAuthResponse>(
+            "startAuthentication",
+            { params: queryParams, data: requestBody },
+            options
+          ),
+        options
       );
 
       this.logger.info("Authentication started successfully", response.data);
+      if (response.data.code === 0 && response.data.data?.verification_token) {
+        this.rememberVerification(authConfig, deviceParams, credentials, response.data.data);
+      }
       return response.data;
     } catch (error) {
       this.logger.error("Authentication failed", error);
-      if (axios.isAxiosError(error)) {
-        this.logger.error("Axios error details", {
-          status: error.response?.status,
-          data: error.response?.data,
-          headers: error.response?.headers,
-        });
+      // SDK errors (aborts, timeouts, typed API errors) reach the caller unchanged
+      if (error instanceof BoltApiError) {
+        throw error;
       }
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
@@ -491,20 +626,10 @@ export class BoltDriverAPI {
         (error as unknown as { statusCode?: number })?.statusCode || (error as unknown as { response?: { status?: number }})?.response?.status || 500;
       const responseData = (error as unknown as { response?: { data?: unknown }})?.response?.data || "";
 
-      // Check for specific error codes and throw appropriate error types
-      if (axios.isAxiosError(error) && error.response?.data?.code) {
-        const errorCode = error.response.data.code;
-        switch (errorCode) {
-          case 299: // SMS_LIMIT_REACHED
-            throw new SmsLimitError("SMS_LIMIT_REACHED", responseData);
-          case 17500: // PARSING_PHONE_FAILED
-            throw new InvalidPhoneError(
-              "Invalid phone number format",
-              responseData
-            );
-          case 1000: // DATABASE_ERROR
-            throw new DatabaseError("DATABASE_ERROR", responseData);
-        }
+      // Errors a transport raised with the response attached still carry the API code
+      const codeError = this.apiCodeError(responseData);
+      if (codeError) {
+        throw codeError;
       }
 
       // For network errors or other cases, throw generic BoltApiError
@@ -516,6 +641,85 @@ export class BoltDriverAPI {
     }
   }
 
+  /**
+   * Requests a new verification code for the phone number of the last {@link startAuthentication}
+   * call, optionally through another channel (e.g. `call` or `whatsapp` instead of `sms`).
+   *
+   * The wait announced by Bolt in `resend_wait_time_seconds` is enforced locally. On success
+   * the new verification token replaces the previous one, so {@link confirmAuthentication}
+   * called without a `verification_token` confirms the latest code.
+   *
+   * @param channel - Channel to send the code through, one of `available_verification_code_channels`; defaults to Bolt's choice
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
+   * @returns Promise resolving to the authentication start response of the new code
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await api.resendVerificationCode('call');
+   * } catch (error) {
+   *   if (error instanceof VerificationCooldownError) {
+   *     console.log(`Try again in ${Math.ceil(error.retryAfterMs! / 1000)}s`);
+   *   }
+   * }
+   * ```
+   *
+   * @throws {VerificationCooldownError} When the resend wait has not passed yet
+   * @throws {ValidationError} When no code was requested or the channel is not available
+   * @throws {SmsLimitError} When the SMS sending limit has been exceeded for this phone number
+   *
+   * @since 1.1.0
+   * @see {@link getPendingVerification} - Inspect the channels and the resend deadline
+   */
+  async resendVerificationCode(channel?: string, options?: RequestOptions): Promise<StartAuthResponse> {
+    if (!this.pendingVerification) {
+      throw new ValidationError("No verification code to resend, call startAuthentication first", 400);
+    }
+    const { verification, request } = this.pendingVerification;
+    const [authConfig, deviceParams, credentials] = request;
+    assertResendAllowed(verification, channel);
+
+    this.logger.info("Requesting a new verification code", { channel: channel ?? verification.channel });
+    const { driver_id, session_id, phone } = credentials;
+    return this.startAuthentication(
+      authConfig,
+      deviceParams,
+      { driver_id, session_id, phone, ...(channel && { verification_code_channel: channel }) },
+      options
+    );
+  }
+
+  /**
+   * Get the verification code requested by the last {@link startAuthentication} or
+   * {@link resendVerificationCode} call that has not been confirmed yet
+   * @returns The pending verification, or undefined
+   */
+  getPendingVerification(): PendingVerification | undefined {
+    return this.pendingVerification && { ...this.pendingVerification.verification };
+  }
+
+  /**
+   * Remember a requested verification code for resends and confirmation
+   * @private
+   */
+  private rememberVerification(
+    authConfig: AuthConfig,
+    deviceParams: DeviceInfo,
+    credentials: Credentials,
+    data: StartAuthResponse["data"]
+  ): void {
+    this.pendingVerification = {
+      verification: {
+        phone: credentials.phone,
+        verificationToken: data.verification_token,
+        channel: data.verification_code_channel,
+        availableChannels: data.available_verification_code_channels ?? [],
+        resendAvailableAt: resendDeadline(data.resend_wait_time_seconds),
+      },
+      request: [authConfig, deviceParams, credentials],
+    };
+  }
+
   /**
    * Completes the authentication process by verifying the SMS code and establishing a session.
    *
@@ -527,6 +731,7 @@ export class BoltDriverAPI {
    * @param deviceParams - Device information including ID, type, OS version, and app version
    * @param credentials - Driver credentials containing verification token from {@link startAuthentication}
    * @param verificationCode - The 6-digit SMS verification code received by the driver
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    *
    * @returns Promise resolving to authentication confirmation response containing access tokens
    *
@@ -564,7 +769,8 @@ export class BoltDriverAPI {
     authConfig: AuthConfig,
     deviceParams: DeviceInfo,
     credentials: Credentials,
-    verificationCode: string
+    verificationCode: string,
+    options?: RequestOptions
   ): Promise<ConfirmAuthResponse> {
     try {
       this.logger.info("Confirming authentication with real API endpoints");
@@ -573,20 +779,13 @@ export class BoltDriverAPI {
       this.validateRequiredParams(deviceParams, authConfig, credentials);
 
       // Query parameters (as per HAR file)
-      const queryParams = {
-        brand: this.authConfig.brand,
-        deviceId: deviceParams.deviceId,
-        deviceType: deviceParams.deviceType,
-        device_name: deviceParams.deviceName,
-        device_os_version: deviceParams.deviceOsVersion,
-        language: authConfig.language,
-        version: deviceParams.appVersion,
-      };
+      const queryParams = this.buildAuthParams(deviceParams, authConfig);
 
       // Request body (as per HAR file)
       const requestBody = {
         device_uid: deviceParams.deviceId,
-        verification_token: credentials.verification_token || "placeholder", // This should come from startAuthentication response
+        verification_token:
+          credentials.verification_token || this.pendingVerification?.verification.verificationToken || "placeholder",
         version: deviceParams.appVersion,
         verification_code: verificationCode,
         device_os_version: deviceParams.deviceOsVersion,
@@ -595,12 +794,15 @@ export class BoltDriverAPI {
       this.logger.debug("Sending query params:", queryParams);
       this.logger.debug("Sending request body:", requestBody);
 
-      const response = await this.client.post(
-        "/v2/confirmAuthentication",
-        requestBody,
-        {
-          params: queryParams,
-        }
+      const response = await this.withRetry(
+        this.endpointContext("confirmAuthentication"),
+        () =>
+          this.send<ConfirmAuthResponse>(
+            "confirmAuthentication",
+            { params: queryParams, data: requestBody },
+            options
+          ),
+        options
       );
 
       // Update authentication state with the received tokens
@@ -612,13 +814,15 @@ export class BoltDriverAPI {
           this.refreshToken = refreshToken;
           // Store the JWT token for use with driver service
           this.accessToken = refreshToken;
+          // A new login starts a new app session
+          const sessionId = this.sessions.rotate();
 
           // Extract real driver information from the JWT token
           let sessionInfo: SessionInfo;
           try {
             const jwtInfo = this.extractSessionInfoFromJWT(refreshToken);
             sessionInfo = {
-              sessionId: `${deviceParams.deviceId}d${Date.now()}.1366549`,
+              sessionId,
               driverId: jwtInfo.driverId,
               partnerId: jwtInfo.partnerId,
               companyId: jwtInfo.companyId || 1,
@@ -637,7 +841,7 @@ export class BoltDriverAPI {
             this.logger.warn("Failed to extract driver info from JWT, using default values", error);
             // Fallback to default values if JWT parsing fails
             sessionInfo = {
-              sessionId: `${deviceParams.deviceId}d${Date.now()}.1366549`,
+              sessionId,
               driverId: 1,
               partnerId: 1,
               companyId: 1,
@@ -650,6 +854,7 @@ export class BoltDriverAPI {
           }
 
           this.sessionInfo = sessionInfo;
+          this.pendingVerification = undefined;
 
           // Also store driver info for backward compatibility
           this.driverInfo = {
@@ -717,28 +922,16 @@ export class BoltDriverAPI {
         throw error;
       }
 
-      // Handle axios errors
-      if (axios.isAxiosError(error)) {
-        const errorMessage = error.response?.data?.message || error.message;
-        const statusCode = error.response?.status || 500;
-        const responseData = error.response?.data || "";
-
-        // Check for specific error codes in the response
-        if (error.response?.data?.code) {
-          const errorCode = error.response.data.code;
-          switch (errorCode) {
-            case 293: // SMS_CODE_NOT_FOUND
-              throw new InvalidSmsCodeError("INVALID_SMS_CODE", responseData);
-            case 299: // SMS_LIMIT_REACHED
-              throw new SmsLimitError("SMS_LIMIT_REACHED", responseData);
-            case 17500: // PARSING_PHONE_FAILED
-              throw new InvalidPhoneError(
-                "Invalid phone number format",
-                responseData
-              );
-            case 1000: // DATABASE_ERROR
-              throw new DatabaseError("DATABASE_ERROR", responseData);
-          }
+      // Errors a transport raised with the response attached
+      const response = (error as { response?: { status?: number; data?: { message?: string } } })?.response;
+      if (response) {
+        const errorMessage = response.data?.message || (error instanceof Error ? error.message : "Unknown error");
+        const statusCode = response.status || 500;
+        const responseData = response.data || "";
+
+        const codeError = this.apiCodeError(responseData);
+        if (codeError) {
+          throw codeError;
         }
 
         throw new BoltApiError(
@@ -783,11 +976,12 @@ export class BoltDriverAPI {
 
   /**
    * Get driver access token
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to access token string
    * @throws {AuthenticationError} When not authenticated
    * @throws {BoltApiError} When token retrieval fails
    */
-  async getAccessToken(): Promise<string> {
+  async getAccessToken(options?: RequestOptions): Promise<string> {
     if (!this.sessionInfo) {
       throw new AuthenticationError(
         "Not authenticated. Please authenticate first.",
@@ -795,14 +989,20 @@ export class BoltDriverAPI {
       );
     }
 
-    const url = `${this.config.driverBaseUrl}/getAccessToken`;
     const params = this.buildRequestParams();
 
     try {
       this.logger.info("Getting driver access token");
-      const response = await this.client.post<
-        ApiResponse<{ access_token: string }>
-      >(url, {}, { params });
+      const response = await this.withRetry(
+        this.endpointContext("getAccessToken"),
+        () =>
+          this.send<ApiResponse<{ access_token: string }>>(
+            "getAccessToken",
+            { params, data: {} },
+            options
+          ),
+        options
+      );
       this.accessToken = response.data.data.access_token;
 
       // Update session info and save
@@ -832,12 +1032,14 @@ export class BoltDriverAPI {
    * @param token - The token extracted from the magic link
    * @param deviceInfo - Device information for authentication
    * @param gpsInfo - GPS information for the request
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to the authentication response
    */
   async authenticateWithMagicLink(
     token: string,
     deviceInfo: DeviceInfo,
-    gpsInfo: GpsInfo
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
   ): Promise<MagicLinkVerificationResponse> {
     try {
       const requestData: MagicLinkVerificationRequest = {
@@ -849,31 +1051,21 @@ export class BoltDriverAPI {
       };
 
       // Build query parameters based on HAR entry
-      const queryParams = new URLSearchParams({
-        brand: "bolt",
-        deviceId: deviceInfo.deviceId,
-        deviceType: deviceInfo.deviceType,
-        device_name: deviceInfo.deviceName,
-        device_os_version: deviceInfo.deviceOsVersion,
-        gps_accuracy_meters: gpsInfo.accuracyMeters.toString(),
-        gps_adjusted_bearing: gpsInfo.adjustedBearing.toString(),
-        gps_age: gpsInfo.age.toString(),
-        gps_bearing: gpsInfo.bearing.toString(),
-        gps_bearing_accuracy_deg: gpsInfo.bearingAccuracyDeg.toString(),
-        gps_lat: gpsInfo.latitude.toString(),
-        gps_lng: gpsInfo.longitude.toString(),
-        gps_speed: gpsInfo.speed.toString(),
-        gps_speed_accuracy_mps: gpsInfo.speedAccuracyMps.toString(),
-        gps_timestamp: gpsInfo.timestamp.toString(),
-        language: "en-GB",
-        session_id: `${deviceInfo.deviceId}d${Date.now()}.1366549`,
-        theme: "dark",
-        version: deviceInfo.appVersion,
-      });
+      const params = {
+        ...this.buildRequestParams(gpsInfo),
+        ...this.buildAuthParams(deviceInfo),
+        session_id: this.sessions.getSessionId(),
+      };
 
-      const response = await this.client.post<MagicLinkVerificationResponse>(
-        `https://driver.live.boltsvc.net/driver/authenticateWithMagicLink?${queryParams.toString()}`,
-        requestData
+      const response = await this.withRetry(
+        this.endpointContext("authenticateWithMagicLink"),
+        () =>
+          this.send<MagicLinkVerificationResponse>(
+            "authenticateWithMagicLink",
+            { params, data: requestData },
+            options
+          ),
+        options
       );
 
       if (response.data.code === 0) {
@@ -883,6 +1075,8 @@ export class BoltDriverAPI {
           // For magic link authentication, the refresh token is already valid
           // Set it as the access token initially
           this.accessToken = this.refreshToken;
+          // A new login starts a new app session
+          this.sessions.rotate();
 
           // Exchange the refresh token for a JWT access token with driver permissions
           try {
@@ -922,7 +1116,7 @@ export class BoltDriverAPI {
 
           // Create a proper session info for token storage
           const sessionInfo: SessionInfo = {
-            sessionId: `${deviceInfo.deviceId}d${Date.now()}.1366549`,
+            sessionId: this.sessions.getSessionId(),
             driverId: 1, // Set a non-zero value to indicate valid authentication
             partnerId: 1,
             companyId: 1,
@@ -944,6 +1138,10 @@ export class BoltDriverAPI {
       return response.data;
     } catch (error) {
       this.logger.error("Failed to authenticate with magic link", error);
+      // SDK errors (aborts, timeouts, typed API errors) reach the caller unchanged
+      if (error instanceof BoltApiError) {
+        throw error;
+      }
       throw new AuthenticationError("Magic link authentication failed", 0);
     }
   }
@@ -968,78 +1166,214 @@ export class BoltDriverAPI {
    * @param gpsInfo - GPS location and accuracy information
    * @param limit - Number of records to retrieve (default: 10)
    * @param offset - Offset for pagination (default: 0)
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to order history data
    * @throws {BoltApiError} When API request fails
    */
   async getOrderHistory(
     gpsInfo: GpsInfo,
     limit: number = 10,
-    offset: number = 0
+    offset: number = 0,
+    options?: RequestOptions
   ): Promise<ApiResponse<OrderHistoryData>> {
-    return this.getOrderHistoryPaginated(gpsInfo, limit, offset);
+    return this.getOrderHistoryPaginated(gpsInfo, limit, offset, options);
   }
 
   /**
    * Get ride details for a specific order handle
    * @param gpsInfo - GPS location and accuracy information
    * @param orderHandle - The handle of the order to retrieve details for
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to ride details data
    * @throws {BoltApiError} When API request fails
    */
   async getRideDetails(
     gpsInfo: GpsInfo,
-    orderHandle: OrderHandle
+    orderHandle: OrderHandle,
+    options?: RequestOptions
   ): Promise<RideDetails> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
+    return this.request<RideDetails>(
+      "getRideDetails",
+      { gpsInfo, params: { order_id: orderHandle.orderId } },
+      options
+    );
+  }
 
-    const url = `${this.config.driverBaseUrl}/getOrderDetails`;
-    const params = this.buildRequestParams(gpsInfo);
-    params.order_id = orderHandle.orderId;
+  /**
+   * Check if the user is currently authenticated
+   * @returns boolean indicating authentication status
+   */
+  isAuthenticated(): boolean {
+    // User is authenticated if access token exists and is not expired
+    return !!this.accessToken && !this.isTokenExpired();
+  }
 
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting ride details", { orderHandle, gpsInfo });
-    } else {
-      this.logger.info(`Getting ride details for order: ${orderHandle.orderId}`);
+  /**
+   * Wait until stored credentials are loaded and validated.
+   *
+   * The constructor loads the token storage in the background. `ready()` resolves once
+   * it is done and, if the stored access token has expired, after trying to refresh it.
+   * Failures are logged, not thrown: the client is then simply not authenticated.
+   *
+   * @returns Whether the client is authenticated
+   * @example
+   * const api = new BoltDriverAPI(deviceInfo, authConfig);
+   * if (!(await api.ready())) {
+   *   await api.sendMagicLink(email);
+   * }
+   */
+  async ready(): Promise<boolean> {
+    await this.initialization;
+    if (this.accessToken && this.refreshToken && !this.disposed && this.isTokenExpired()) {
+      try {
+        await this.refreshAccessToken();
+      } catch (error) {
+        this.logger.warn("Stored access token could not be refreshed", error);
+      }
     }
+    return this.isAuthenticated();
+  }
 
-    try {
-      const response = await this.client.get(url, { params });
+  /**
+   * Release the client: stop the logger's flush timer, write buffered logs and abort
+   * in-flight requests and pending retries, which reject with {@link RequestAbortedError}.
+   * Listeners of the `disposed` event (such as {@link FeatureFlags}) stop their pollers.
+   * Requests made afterwards are rejected too. Calling it again has no effect.
+   *
+   * Also available as `Symbol.asyncDispose`, for `await using api = new BoltDriverAPI(...)`.
+   *
+   * @returns Resolves when buffered logs are written
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    for (const controller of this.inFlight) {
+      controller.abort();
+    }
+    this.inFlight.clear();
+    this.emit("disposed");
+    this.events.removeAllListeners();
+    await this.logger.destroy();
+  }
 
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
+  /**
+   * Dispose the client when leaving an `await using` block
+   * @returns Resolves when the client is disposed
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.dispose();
+  }
 
-      return this.parseApiResponse<RideDetails>(response);
-    } catch (error) {
-      this.logger.error("Failed to get ride details", error);
+  /**
+   * Register a listener for a client event
+   * @param event - Event name (e.g. 'authLost')
+   * @param listener - Listener invoked with the event payload
+   * @returns This instance, for chaining
+   * @example
+   * api.on('authLost', ({ reason }) => {
+   *   console.log(`Please log in again: ${reason}`);
+   * });
+   */
+  on<K extends keyof BoltDriverAPIEvents>(
+    event: K,
+    listener: BoltDriverAPIEvents[K]
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
 
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
+  /**
+   * Register middleware run around every request the client sends.
+   *
+   * @param middleware - Hooks called before the request, with the response and on failure
+   * @returns This instance, for chaining
+   *
+   * @example
+   * ```typescript
+   * api.use({
+   *   onRequest: ({ request }) => {
+   *     request.headers['X-Trace-Id'] = randomUUID();
+   *   },
+   *   onResponse: ({ endpoint, response }) => {
+   *     console.log(endpoint, response.status);
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: ApiMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
 
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
+  /**
+   * Register a provider that logs the driver in again when the refresh token is dead
+   *
+   * Providers are tried in registration order until one succeeds. Requests that need a
+   * session wait for the login and are then sent (or replayed) with the new credentials;
+   * concurrent requests share one login. When every provider fails, they fail with an
+   * {@link AuthenticationError}.
+   *
+   * @param provider - Provider, e.g. an {@link OtpReauthProvider} or {@link MagicLinkReauthProvider}
+   * @returns This instance, for chaining
+   *
+   * @example
+   * ```typescript
+   * api.addReauthProvider(new OtpReauthProvider({
+   *   phone: '+48500123456',
+   *   getCode: () => smsGateway.waitForCode()
+   * }));
+   * ```
+   *
+   * @since 1.1.0
+   */
+  addReauthProvider(provider: ReauthProvider): this {
+    this.reauthProviders.push(provider);
+    return this;
+  }
 
-      throw new BoltApiError(
-        `Failed to get ride details: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
+  /**
+   * Remove a provider previously registered with {@link addReauthProvider}
+   * @param provider - Provider to remove
+   * @returns This instance, for chaining
+   */
+  removeReauthProvider(provider: ReauthProvider): this {
+    const index = this.reauthProviders.indexOf(provider);
+    if (index !== -1) {
+      this.reauthProviders.splice(index, 1);
     }
+    return this;
   }
 
   /**
-   * Check if the user is currently authenticated
-   * @returns boolean indicating authentication status
+   * Get the schema drift seen in responses so far, by endpoint
+   *
+   * Empty unless `schemaValidation` is `report` or `strict`.
+   *
+   * @returns Missing, unknown and mistyped fields per endpoint
+   * @example
+   * const drift = api.getSchemaDriftReport();
+   * for (const [endpoint, { missing, unknown }] of Object.entries(drift)) {
+   *   console.log(endpoint, { missing, unknown });
+   * }
    */
-  isAuthenticated(): boolean {
-    // User is authenticated if access token exists and is not expired
-    return !!this.accessToken && !this.isTokenExpired();
+  getSchemaDriftReport(): SchemaDriftReport {
+    return this.schemaValidator.getReport();
+  }
+
+  /**
+   * Remove a listener previously registered with {@link on}
+   * @param event - Event name
+   * @param listener - Listener to remove
+   * @returns This instance, for chaining
+   */
+  off<K extends keyof BoltDriverAPIEvents>(
+    event: K,
+    listener: BoltDriverAPIEvents[K]
+  ): this {
+    this.events.off(event, listener);
+    return this;
   }
 
   /**
@@ -1049,6 +1383,7 @@ export class BoltDriverAPI {
     this.accessToken = undefined;
     this.refreshToken = undefined;
     this.sessionInfo = undefined;
+    this.sessions.clear();
     this.tokenStorage.clearToken();
   }
 
@@ -1060,11 +1395,39 @@ export class BoltDriverAPI {
     return this.sessionInfo;
   }
 
+  /**
+   * Start a new app session, as the app does after a restart
+   * @returns Promise resolving to the new session id
+   */
+  async rotateSession(): Promise<string> {
+    const sessionId = this.sessions.rotate();
+    this.logger.info("Starting a new session");
+    await this.persistSessionId(sessionId);
+    return sessionId;
+  }
+
+  /**
+   * Store a new session id alongside the token
+   * @param sessionId - Session id to persist
+   * @private
+   */
+  private async persistSessionId(sessionId: string): Promise<void> {
+    if (!this.sessionInfo) {
+      return;
+    }
+
+    this.sessionInfo = { ...this.sessionInfo, sessionId };
+    if (this.accessToken) {
+      await this.tokenStorage.saveToken(this.accessToken, this.sessionInfo);
+    }
+  }
+
   /**
    * Validate if the current access token is still valid by making a simple API call
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise<boolean> indicating if token is valid
    */
-  async validateToken(): Promise<boolean> {
+  async validateToken(options?: RequestOptions): Promise<boolean> {
     if (!this.accessToken || !this.sessionInfo) {
       return false;
     }
@@ -1086,7 +1449,7 @@ export class BoltDriverAPI {
         gps_speed_accuracy: 1,
       };
 
-      const result = await this.getDriverState(gpsInfo, "background");
+      const result = await this.getDriverState(gpsInfo, "background", options);
       // If we get a successful response (not an error), the token is valid
       return !!result;
     } catch (error) {
@@ -1100,6 +1463,7 @@ export class BoltDriverAPI {
    * Retrieves current driver status, active orders, and system state
    * @param {GpsInfo} gpsInfo - GPS location and accuracy information
    * @param {string} appState - Application state (default: 'background', can be 'foreground')
+   * @param {RequestOptions} options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns {Promise<DriverState>} Promise resolving to driver state including polling intervals and order status
    * @throws {BoltApiError} When API request fails
    * @example
@@ -1112,33 +1476,19 @@ export class BoltDriverAPI {
    */
   async getDriverState(
     gpsInfo: GpsInfo,
-    appState: string = "background"
+    appState: string = "background",
+    options?: RequestOptions
   ): Promise<DriverState> {
-    const url = `${this.config.companyBaseUrl}/polling/driver`;
-    const params = this.buildRequestParams(gpsInfo);
-    const data = { app_state: appState };
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.debug("Getting driver state", { appState, gpsInfo });
-    } else {
-      this.logger.info(`Getting driver state (appState: ${appState})`);
+    if (this.sessions.updateAppState(appState)) {
+      this.logger.info("App returned to the foreground, starting a new session");
+      await this.persistSessionId(this.sessions.getSessionId());
     }
 
-    try {
-      const response = await this.client.post(url, data, { params });
-      return this.parseApiResponse<DriverState>(response);
-    } catch (error) {
-      this.logger.error("Failed to get driver state", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get driver state: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+    return this.request<DriverState>(
+      "getDriverState",
+      { gpsInfo, data: { app_state: appState } },
+      options
+    );
   }
 
   /**
@@ -1149,6 +1499,7 @@ export class BoltDriverAPI {
    * available promotions, and quick action buttons.
    *
    * @param gpsInfo - Current GPS location and accuracy information for location-based features
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    *
    * @returns Promise resolving to home screen data containing earnings, activity, and UI information
    *
@@ -1179,248 +1530,122 @@ export class BoltDriverAPI {
    * @see {@link getWorkingTimeInfo} - Get driver's working time information
    * @see {@link getDriverState} - Get current driver state and polling information
    */
-  async getDriverHomeScreen(gpsInfo: GpsInfo): Promise<HomeScreenData> {
-    const url = `${this.config.companyBaseUrl}/orderDriver/v1/getDriverHomeScreen`;
-    const params = this.buildRequestParams(gpsInfo);
+  async getDriverHomeScreen(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<HomeScreenData> {
+    const homeScreenData = await this.request<HomeScreenData>(
+      "getDriverHomeScreen",
+      { gpsInfo },
+      options
+    );
 
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.debug("Getting driver home screen data", { gpsInfo });
-    } else {
-      this.logger.info("Getting driver home screen data");
+    // Ensure the response has the expected structure
+    if (!homeScreenData) {
+      throw new BoltApiError("Empty response from home screen API", 0);
     }
 
-    try {
-      const response = await this.client.get(url, { params });
-      const homeScreenData = this.parseApiResponse<HomeScreenData>(response);
+    // Provide defaults for missing fields
+    const defaultHomeScreenData: HomeScreenData = {
+      layout: homeScreenData.layout || { maxRow: 0, maxColumn: 0 },
+      items: Array.isArray(homeScreenData.items) ? homeScreenData.items : [],
+      pollIntervalSec: homeScreenData.pollIntervalSec || 30,
+      driverSidebarHash: homeScreenData.driverSidebarHash || "",
+    };
 
-      // Ensure the response has the expected structure
-      if (!homeScreenData) {
-        throw new BoltApiError("Empty response from home screen API", 0);
-      }
+    this.logger.info("Successfully parsed home screen data", {
+      itemsCount: defaultHomeScreenData.items.length,
+      pollIntervalSec: defaultHomeScreenData.pollIntervalSec,
+      hasLayout: !!defaultHomeScreenData.layout,
+    });
 
-      // Provide defaults for missing fields
-      const defaultHomeScreenData: HomeScreenData = {
-        layout: homeScreenData.layout || { maxRow: 0, maxColumn: 0 },
-        items: Array.isArray(homeScreenData.items) ? homeScreenData.items : [],
-        pollIntervalSec: homeScreenData.pollIntervalSec || 30,
-        driverSidebarHash: homeScreenData.driverSidebarHash || "",
-      };
-
-      this.logger.info("Successfully parsed home screen data", {
-        itemsCount: defaultHomeScreenData.items.length,
-        pollIntervalSec: defaultHomeScreenData.pollIntervalSec,
-        hasLayout: !!defaultHomeScreenData.layout,
-      });
-
-      return defaultHomeScreenData;
-    } catch (error) {
-      this.logger.error("Failed to get driver home screen", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get driver home screen: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
-  }
+    return defaultHomeScreenData;
+  }
 
   /**
    * Get working time information
    * @param gpsInfo - GPS location and accuracy information
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to working time information
    * @throws {BoltApiError} When API request fails
    */
-  async getWorkingTimeInfo(gpsInfo: GpsInfo): Promise<WorkingTimeInfo> {
-    const url = `https://driver.live.boltsvc.net/driver/v2/getWorkingTimeInfo`;
-    const params = this.buildRequestParams(gpsInfo);
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting working time information", { gpsInfo });
-    } else {
-      this.logger.info("Getting working time information");
-    }
-
-    try {
-      const response = await this.client.get(url, { params });
-      return this.parseApiResponse<WorkingTimeInfo>(response);
-    } catch (error) {
-      this.logger.error("Failed to get working time info", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get working time info: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getWorkingTimeInfo(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<WorkingTimeInfo> {
+    return this.request<WorkingTimeInfo>(
+      "getWorkingTimeInfo",
+      { gpsInfo },
+      options
+    );
   }
 
   /**
    * Get dispatch preferences and settings
    * @param gpsInfo - GPS location and accuracy information
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to dispatch preferences
    * @throws {BoltApiError} When API request fails
    */
-  async getDispatchPreferences(gpsInfo: GpsInfo): Promise<DispatchPreferences> {
-    const url = `${this.config.companyBaseUrl}/dispatchPref/v1/getSettings`;
-    const params = this.buildRequestParams(gpsInfo);
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting dispatch preferences", { gpsInfo });
-    } else {
-      this.logger.info("Getting dispatch preferences");
-    }
-
-    try {
-      const response = await this.client.get(url, { params });
-      return this.parseApiResponse<DispatchPreferences>(response);
-    } catch (error) {
-      this.logger.error("Failed to get dispatch preferences", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get dispatch preferences: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getDispatchPreferences(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<DispatchPreferences> {
+    return this.request<DispatchPreferences>(
+      "getDispatchPreferences",
+      { gpsInfo },
+      options
+    );
   }
 
   /**
    * Get maps configuration
    * @param gpsInfo - GPS location and accuracy information
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to maps configuration
    * @throws {BoltApiError} When API request fails
    */
-  async getMapsConfigs(gpsInfo: GpsInfo): Promise<MapsConfig> {
-    const url = `${this.config.companyBaseUrl}/orderDriver/v1/getMapsConfigs`;
-    const params = this.buildRequestParams(gpsInfo);
-    const data = {};
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting maps configuration", { gpsInfo });
-    } else {
-      this.logger.info("Getting maps configuration");
-    }
-
-    try {
-      const response = await this.client.post(url, data, { params });
-      return this.parseApiResponse<MapsConfig>(response);
-    } catch (error) {
-      this.logger.error("Failed to get maps configs", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get maps configs: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getMapsConfigs(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<MapsConfig> {
+    return this.request<MapsConfig>("getMapsConfigs", { gpsInfo }, options);
   }
 
   /**
    * Get driver navigation bar badge information
    * @param gpsInfo - GPS location and accuracy information
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to navigation bar badge information
    * @throws {BoltApiError} When API request fails
    */
-  async getDriverNavBarBadges(gpsInfo: GpsInfo): Promise<NavBarBadges> {
-    const url = `https://driver.live.boltsvc.net/driver/getDriverNavBarBadges`;
-    const params = this.buildRequestParams(gpsInfo);
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting navigation bar badges", { gpsInfo });
-    } else {
-      this.logger.info("Getting navigation bar badges");
-    }
-
-    try {
-      const response = await this.client.get<ApiResponse<NavBarBadges>>(url, {
-        params,
-      });
-
-      // Log the actual response structure for debugging
-      this.logger.info("Navigation bar badges response", {
-        status: response.status,
-        statusText: response.statusText,
-        responseData: response.data,
-        hasData: !!response.data,
-        hasDataData: !!(response.data && response.data.data),
-      });
-
-      if (response.data && response.data.data) {
-        return response.data.data;
-      } else if (response.data) {
-        // Handle case where response.data is the actual data
-        this.logger.info(
-          "Response data is direct, not wrapped in ApiResponse format"
-        );
-        return response.data as unknown as NavBarBadges;
-      } else {
-        this.logger.warn("No data in response");
-        return {} as NavBarBadges;
-      }
-    } catch (error) {
-      this.logger.error("Failed to get navigation bar badges", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get navigation bar badges: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getDriverNavBarBadges(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<NavBarBadges> {
+    return this.request<NavBarBadges>(
+      "getDriverNavBarBadges",
+      { gpsInfo },
+      options
+    );
   }
 
   /**
    * Get emergency assist provider information
    * @param gpsInfo - GPS location and accuracy information
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to emergency assist provider information
    * @throws {BoltApiError} When API request fails
    */
   async getEmergencyAssistProvider(
-    gpsInfo: GpsInfo
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
   ): Promise<ApiResponse<ExternalHelpProvider>> {
-    const url = `${this.config.driverBaseUrl}/safety/emergencyAssist/getExternalHelpProvider`;
-    const params = this.buildRequestParams(gpsInfo);
-    params.lat = gpsInfo.latitude;
-    params.lng = gpsInfo.longitude;
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting emergency assist provider", { gpsInfo });
-    } else {
-      this.logger.info("Getting emergency assist provider");
-    }
-
-    try {
-      const response = await this.client.get<ApiResponse<ExternalHelpProvider>>(
-        url,
-        { params }
-      );
-      return response.data;
-    } catch (error) {
-      this.logger.error("Failed to get emergency assist provider", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get emergency assist provider: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+    return this.request<ApiResponse<ExternalHelpProvider>>(
+      "getEmergencyAssistProvider",
+      { gpsInfo, params: { lat: gpsInfo.latitude, lng: gpsInfo.longitude } },
+      options
+    );
   }
 
   /**
@@ -1430,6 +1655,7 @@ export class BoltDriverAPI {
    * @param x - X coordinate of the tile
    * @param y - Y coordinate of the tile
    * @param zoom - Zoom level of the tile
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to tile data as ArrayBuffer
    * @throws {BoltApiError} When API request fails
    */
@@ -1438,126 +1664,82 @@ export class BoltDriverAPI {
     tilesCollectionId: string,
     x: number,
     y: number,
-    zoom: number
+    zoom: number,
+    options?: RequestOptions
   ): Promise<ArrayBuffer> {
-    const url = `${this.config.driverBaseUrl}/v2/getTile`;
-    const params = this.buildRequestParams(gpsInfo);
-    params.tiles_collection_id = tilesCollectionId;
-    params.x = x;
-    params.y = y;
-    params.zoom = zoom;
-
-    try {
-      this.logger.info("Getting map tile", {
-        tilesCollectionId,
-        x,
-        y,
-        zoom,
+    return this.request<ArrayBuffer>(
+      "getMapTile",
+      {
         gpsInfo,
-      });
-      const response = await this.client.get(url, {
-        params,
-        responseType: "arraybuffer",
-      });
-      return response.data;
-    } catch (error) {
-      this.logger.error("Failed to get map tile", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get map tile: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+        params: { tiles_collection_id: tilesCollectionId, x, y, zoom },
+      },
+      options
+    );
   }
 
   /**
    * Get map tile using MapTileRequest object
    * @param gpsInfo - GPS location and accuracy information
    * @param tileRequest - Map tile request parameters
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to tile data as ArrayBuffer
    * @throws {BoltApiError} When API request fails
    */
   async getMapTileWithRequest(
     gpsInfo: GpsInfo,
-    tileRequest: MapTileRequest
+    tileRequest: MapTileRequest,
+    options?: RequestOptions
   ): Promise<ArrayBuffer> {
     return this.getMapTile(
       gpsInfo,
       tileRequest.tiles_collection_id,
       tileRequest.x,
       tileRequest.y,
-      tileRequest.zoom
+      tileRequest.zoom,
+      options
     );
   }
 
   /**
    * Set device token for push notifications
    * @param deviceToken - Device token for push notifications
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise that resolves when token is set
    * @throws {BoltApiError} When API request fails
    */
-  async setDeviceToken(deviceToken: string): Promise<void> {
-    const url = `${this.config.driverBaseUrl}/setDeviceToken`;
-    const params = this.buildRequestParams();
-    const data = { device_token: deviceToken };
-
-    try {
-      this.logger.info("Setting device token for push notifications", {
-        deviceToken: deviceToken.substring(0, 10) + "***",
-      });
-      await this.client.post<ApiResponse<void>>(url, data, { params });
-      this.logger.info("Device token set successfully");
-    } catch (error) {
-      this.logger.error("Failed to set device token", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to set device token: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async setDeviceToken(
+    deviceToken: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    this.logger.info("Setting device token for push notifications", {
+      deviceToken: deviceToken.substring(0, 10) + "***",
+    });
+    await this.request(
+      "setDeviceToken",
+      { data: { device_token: deviceToken } },
+      options
+    );
   }
 
   /**
    * Store driver information
    * @param driverData - Driver data to store
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise that resolves when data is stored
    * @throws {BoltApiError} When API request fails
    */
-  async storeDriverInfo(driverData: Record<string, unknown>): Promise<void> {
-    const url = `${this.config.driverBaseUrl}/store`;
-    const params = this.buildRequestParams();
-    const data = driverData;
-
-    try {
-      this.logger.info("Storing driver information", { driverData });
-      await this.client.post<ApiResponse<void>>(url, data, { params });
-      this.logger.info("Driver information stored successfully");
-    } catch (error) {
-      this.logger.error("Failed to store driver info", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to store driver info: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async storeDriverInfo(
+    driverData: Record<string, unknown>,
+    options?: RequestOptions
+  ): Promise<void> {
+    await this.request("storeDriverInfo", { data: driverData }, options);
   }
 
   /**
    * Send magic link to email for authentication
    * Alternative authentication method when SMS limit is reached or SMS is unavailable
    * @param {string} email - Email address to send magic link to
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns {Promise<MagicLinkResponse>} Promise resolving to magic link response with success status
    * @throws {BoltApiError} When magic link sending fails
    * @example
@@ -1573,7 +1755,10 @@ export class BoltDriverAPI {
    * @see {@link authenticateWithMagicLink} - Complete authentication with magic link
    * @since 1.0.0
    */
-  async sendMagicLink(email: string): Promise<MagicLinkResponse> {
+  async sendMagicLink(
+    email: string,
+    options?: RequestOptions
+  ): Promise<MagicLinkResponse> {
     try {
       this.logger.info("Sending magic link to email", {
         email: email.substring(0, 3) + "***",
@@ -1588,26 +1773,24 @@ export class BoltDriverAPI {
         brand: this.authConfig.brand,
       };
 
-      const response = await axios.post(
-        `https://driver.live.boltsvc.net/driver/sendMagicLink`,
-        requestBody,
-        {
-          params: this.buildAuthParams(),
-          headers: {
-            "User-Agent": this.config.userAgent,
-            Accept: "*/*",
-            "Accept-Language": this.authConfig.language,
-            "Accept-Encoding": "gzip, deflate, br",
-            Connection: "keep-alive",
-            "Content-Type": "application/json",
-          },
-        }
+      const response = await this.withRetry(
+        this.endpointContext("sendMagicLink"),
+        () =>
+          this.send<MagicLinkResponse>(
+            "sendMagicLink",
+            { params: this.buildAuthParams(), data: requestBody },
+            { ...options, skipAuth: true }
+          ),
+        options
       );
 
       this.logger.info("Magic link sent successfully");
       return response.data;
     } catch (error) {
       this.logger.error("Failed to send magic link", error);
+      if (error instanceof BoltApiError) {
+        throw error;
+      }
       throw new BoltApiError(
         `Failed to send magic link: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -1659,98 +1842,57 @@ export class BoltDriverAPI {
   /**
    * Get driver phone details
    * @param gpsInfo - GPS location and accuracy information
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to driver phone details
    * @throws {BoltApiError} When API request fails
    */
-  async getDriverPhoneDetails(gpsInfo: GpsInfo): Promise<ApiResponse<Record<string, unknown>>> {
-    const url = `${this.config.driverBaseUrl}/driverPhoneDetails`;
-    const params = this.buildRequestParams(gpsInfo);
-    const data = {};
-
-    try {
-      this.logger.info("Getting driver phone details", { gpsInfo });
-      const response = await this.client.post<ApiResponse<Record<string, unknown>>>(url, data, {
-        params,
-      });
-      return response.data;
-    } catch (error) {
-      this.logger.error("Failed to get driver phone details", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get driver phone details: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getDriverPhoneDetails(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DriverPhoneDetails>> {
+    return this.request<ApiResponse<DriverPhoneDetails>>(
+      "getDriverPhoneDetails",
+      { gpsInfo },
+      options
+    );
   }
 
   /**
    * Get other active drivers in the area
    * @param gpsInfo - GPS location and accuracy information
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to list of other active drivers
    * @throws {BoltApiError} When API request fails
    */
-  async getOtherActiveDrivers(gpsInfo: GpsInfo): Promise<OtherActiveDrivers> {
-    const url = "https://node.bolt.eu/search/driver/getOtherActiveDrivers";
-    const params = this.buildRequestParams(gpsInfo);
-
-    try {
-      this.logger.info("Getting other active drivers", { gpsInfo });
-      const response = await this.client.get(url, { params });
-      return this.parseApiResponse<OtherActiveDrivers>(response);
-    } catch (error) {
-      this.logger.error("Failed to get other active drivers", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get other active drivers: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getOtherActiveDrivers(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<OtherActiveDrivers> {
+    return this.request<OtherActiveDrivers>(
+      "getOtherActiveDrivers",
+      { gpsInfo },
+      options
+    );
   }
 
   /**
    * Get modal information for home screen
    * @param gpsInfo - GPS location and accuracy information
    * @param event - Event type (e.g., 'home_screen')
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to modal data
    * @throws {BoltApiError} When API request fails
    */
   async getModal(
     gpsInfo: GpsInfo,
-    event: string = "home_screen"
+    event: string = "home_screen",
+    options?: RequestOptions
   ): Promise<ModalInfo> {
-    const url = `${this.config.driverBaseUrl}/modal`;
-    const params = this.buildRequestParams(gpsInfo);
-    params.event = event;
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting modal information", { event, gpsInfo });
-    } else {
-      this.logger.info("Getting modal information");
-    }
-
-    try {
-      const response = await this.client.get(url, { params });
-      return this.parseApiResponse<ModalInfo>(response);
-    } catch (error) {
-      this.logger.error("Failed to get modal information", error);
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-      throw new BoltApiError(
-        `Failed to get modal information: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+    return this.request<ModalInfo>(
+      "getModal",
+      { gpsInfo, params: { event } },
+      options
+    );
   }
 
   /**
@@ -1758,26 +1900,35 @@ export class BoltDriverAPI {
    * @param userId - User ID for push notifications
    * @param instanceId - Instance ID for push notifications
    * @param deviceToken - Device token for push notifications
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise that resolves when push profile is updated
    * @throws {BoltApiError} When API request fails
    */
   async updatePushProfile(
     userId: string,
     instanceId: string,
-    deviceToken: string
+    deviceToken: string,
+    options?: RequestOptions
   ): Promise<void> {
-    const url = `https://ocra-bolt.api.sinch.com/ocra/v1/users/${userId}/instances/${instanceId}/pushProfile`;
-    const data: PushProfileRequest = {
-      apn: [
+    const url = this.endpointUrl("updatePushProfile", { userId, instanceId });
+    const data: PushProfileRequest = { maxPayloadSize: 4096 };
+    if (this.deviceProfile.pushProvider === "fcm") {
+      data.fcm = [
+        {
+          packageName: this.deviceProfile.bundleId,
+          deviceToken: deviceToken,
+        },
+      ];
+    } else {
+      data.apn = [
         {
-          bundleId: "ee.taxify.driver",
+          bundleId: this.deviceProfile.bundleId,
           deviceToken: deviceToken,
           environment: "production",
           tokenType: "voip",
         },
-      ],
-      maxPayloadSize: 4096,
-    };
+      ];
+    }
 
     try {
       this.logger.info("Updating push profile", {
@@ -1786,34 +1937,18 @@ export class BoltDriverAPI {
         deviceToken: deviceToken.substring(0, 10) + "***",
       });
 
-      // Use a separate Axios instance for this request to avoid interceptors
-      const sinchClient = axios.create({
-        baseURL: "https://ocra-bolt.api.sinch.com",
-        timeout: this.config.timeout,
-        headers: {
-          "User-Agent": this.config.userAgent,
-          Accept: "*/*",
-          "Accept-Language": this.authConfig.language,
-          "Accept-Encoding": "gzip, deflate, br",
-          Connection: "keep-alive",
-          "Content-Type": "application/json",
-        },
-      });
-
-      // Attempt to update push profile
-      await sinchClient.put(url, data);
+      // Sinch is a third-party service: the Bolt access token is not sent
+      await this.withRetry(
+        this.endpointContext("updatePushProfile"),
+        () => this.send("updatePushProfile", { url, data }, { ...options, skipAuth: true }),
+        options
+      );
 
       this.logger.info("Push profile updated successfully");
     } catch (error) {
       this.logger.error("Failed to update push profile", error);
-
-      // Log the specific error details
-      if (axios.isAxiosError(error)) {
-        this.logger.error("Axios error details", {
-          status: error.response?.status,
-          data: error.response?.data,
-          headers: error.response?.headers,
-        });
+      if (error instanceof BoltApiError) {
+        throw error;
       }
 
       throw new BoltApiError(
@@ -1827,11 +1962,11 @@ export class BoltDriverAPI {
 
   /**
    * Helper function to handle different API response formats
-   * @param response - Axios response object
+   * @param response - Transport response
    * @returns Parsed response data or throws an error if parsing fails
    * @private
    */
-  private parseApiResponse<T>(response: AxiosResponse<T | ApiResponse<T>>): T {
+  private parseApiResponse<T>(response: TransportResponse<T | ApiResponse<T>>): T {
     this.logger.debug("Parsing API response", { response });
 
     if (!response.data) {
@@ -1847,27 +1982,8 @@ export class BoltDriverAPI {
       const apiResponse = response.data;
       if (apiResponse.code === 0) {
         return apiResponse.data as T;
-      } else {
-        // Handle specific error codes
-        if (
-          apiResponse.code === 503 &&
-          apiResponse.message === "NOT_AUTHORIZED"
-        ) {
-          this.logger.warn(
-            "NOT_AUTHORIZED: Token is invalid or has expired. Clearing credentials."
-          );
-          this.clearAuthentication();
-          throw new NotAuthorizedError("NOT_AUTHORIZED", apiResponse);
-        }
-
-        throw new BoltApiError(
-          `API returned error code ${apiResponse.code}: ${
-            apiResponse.message || "Unknown error"
-          }`,
-          apiResponse.code,
-          apiResponse
-        );
       }
+      this.throwApiError(apiResponse);
     }
 
     // Handle direct data format (data is the actual response, potentially with some defaultable fields)
@@ -1897,24 +2013,506 @@ export class BoltDriverAPI {
     return response.data as T;
   }
 
-  // Type guard to check if a response is an ApiResponse
-  private isApiResponse<T>(data: T | ApiResponse<T>): data is ApiResponse<T> {
-    return (typeof data === 'object' && data !== null && 'code' in data && 'message' in data && 'data' in data);
+  /**
+   * Run a request through the configured retry policy
+   *
+   * When an authenticated request is rejected as unauthorized (HTTP 401 or NOT_AUTHORIZED),
+   * the access token is refreshed once and the request is replayed with the new token.
+   *
+   * @param context - Operation name, HTTP method, idempotency marker and auth requirement
+   * @param operation - Function performing the request (and parsing, if applicable)
+   * @param options - Per-call request options
+   * @returns Result of the first successful attempt
+   * @private
+   */
+  private async withRetry<T>(
+    context: RequestContext,
+    operation: () => Promise<T>,
+    requestOptions?: RequestOptions
+  ): Promise<T> {
+    const tokenUsed = this.accessToken;
+    // Backoff waits end when the client is disposed
+    const call = this.trackCall(requestOptions?.signal);
+    const options: RequestOptions = { ...requestOptions, signal: call.signal };
+
+    try {
+      return await this.retryPolicy.execute(context, operation, options);
+    } catch (error) {
+      if (
+        context.requiresAuth === false ||
+        options?.skipAuth ||
+        !this.isAuthRejection(error) ||
+        (!this.refreshToken && this.reauthProviders.length === 0)
+      ) {
+        throw error;
+      }
+
+      // A concurrent caller may already have replaced the rejected token
+      if (!this.accessToken || this.accessToken === tokenUsed) {
+        this.logger.warn(
+          `${context.operation} was rejected as unauthorized, refreshing access token`
+        );
+        await abortable(this.recoverAuthentication(error), options?.signal);
+      }
+
+      this.logger.info(`Replaying ${context.operation} with refreshed access token`);
+      return await this.retryPolicy.execute(context, operation, options);
+    } finally {
+      call.release();
+    }
   }
 
   /**
-   * Build common request parameters
-   * @param gpsInfo - Optional GPS information
-   * @returns Request parameters object
+   * Check whether an error means the server rejected the credentials
+   * @param error - Error thrown by a request
+   * @returns True for HTTP 401 and NOT_AUTHORIZED responses
    * @private
    */
-  private buildRequestParams(gpsInfo?: GpsInfo): RequestParams {
-    const now = Math.floor(Date.now() / 1000);
-    const driverId =
-      this.sessionInfo?.driverId || this.driverInfo?.driverId || 0;
+  private isAuthRejection(error: unknown): boolean {
+    return (
+      error instanceof AuthenticationError || error instanceof NotAuthorizedError
+    );
+  }
 
-          // Only log driver ID info, not full GPS details
-      this.logger.debug("Building request params", {
+  /**
+   * Clear credentials that can no longer be refreshed and notify listeners
+   * @param reason - Why the session was lost
+   * @param error - Error returned by the rejected refresh, if any
+   * @private
+   */
+  private handleAuthLost(reason: string, error?: unknown): void {
+    this.logger.warn(`Authentication lost: ${reason}. Clearing credentials.`);
+    this.clearAuthentication();
+
+    const event: AuthLostEvent = { reason };
+    if (error !== undefined) {
+      event.error = error;
+    }
+    this.emit("authLost", event);
+  }
+
+  /**
+   * Call the listeners of a client event; a failing listener does not affect the caller
+   * @param event - Event name
+   * @param args - Event payload
+   * @private
+   */
+  private emit<K extends keyof BoltDriverAPIEvents>(
+    event: K,
+    ...args: Parameters<BoltDriverAPIEvents[K]>
+  ): void {
+    try {
+      this.events.emit(event, ...args);
+    } catch (error) {
+      this.logger.warn(`Listener of the ${event} event failed`, error);
+    }
+  }
+
+  /**
+   * Throw the error matching a non-zero API response code
+   * @param apiResponse - Response envelope with a non-zero code
+   * @throws {NotAuthorizedError} For NOT_AUTHORIZED responses
+   * @throws {BoltApiError} For every other error code
+   * @private
+   */
+  private throwApiError(apiResponse: ApiResponse<unknown>): never {
+    if (apiResponse.code === 503 && apiResponse.message === "NOT_AUTHORIZED") {
+      this.logger.warn("NOT_AUTHORIZED: Token is invalid or has expired.");
+      throw new NotAuthorizedError("NOT_AUTHORIZED", apiResponse);
+    }
+
+    throw new BoltApiError(
+      `API returned error code ${apiResponse.code}: ${
+        apiResponse.message || "Unknown error"
+      }`,
+      apiResponse.code,
+      apiResponse
+    );
+  }
+
+  /**
+   * Execute an endpoint from the {@link ENDPOINTS} catalogue
+   *
+   * Every catalogued endpoint goes through the same steps: token validation (for
+   * authenticated endpoints), common query parameters, retries and refresh-and-replay,
+   * response parsing according to the endpoint's response type, and wrapping of
+   * unexpected failures in a {@link BoltApiError}.
+   *
+   * @param name - Endpoint name
+   * @param call - GPS position, extra query parameters and request body
+   * @param options - Per-call request options
+   * @returns The parsed response
+   * @throws {AuthenticationError} When the endpoint requires a session and none is available
+   * @throws {BoltApiError} When the request fails
+   * @private
+   */
+  private async request<T = unknown>(
+    name: EndpointName,
+    call: EndpointCall = {},
+    options?: RequestOptions
+  ): Promise<T> {
+    const endpoint: EndpointDefinition = ENDPOINTS[name];
+
+    if (options?.signal?.aborted) {
+      throw new RequestAbortedError();
+    }
+    if (endpoint.requiresAuth && !options?.skipAuth) {
+      await abortable(this.ensureValidToken(), options?.signal);
+    }
+
+    try {
+      const params: RequestParams = {
+        ...this.buildRequestParams(endpoint.requiresGps ? call.gpsInfo : undefined),
+        ...call.params,
+      };
+
+      this.logger.info(`Calling ${name}`);
+      this.logger.debug(`${name} request`, { params: call.params, data: call.data });
+
+      return await this.withRetry(
+        this.endpointContext(name),
+        async () =>
+          this.parseEndpointResponse<T>(
+            endpoint,
+            await this.sendEndpointRequest(name, params, call.data, options)
+          ),
+        options
+      );
+    } catch (error) {
+      this.logger.error(`Failed to ${endpoint.description}`, error);
+
+      if (error instanceof BoltApiError) {
+        throw error;
+      }
+
+      // If it's a network error, throw the original error message
+      if (error instanceof Error && error.message === "Network Error") {
+        throw new BoltApiError("Network Error", 0);
+      }
+
+      throw new BoltApiError(
+        `Failed to ${endpoint.description}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        0
+      );
+    }
+  }
+
+  /**
+   * Send the HTTP request for a catalogued endpoint
+   * @param name - Endpoint name
+   * @param params - Query parameters
+   * @param data - Request body
+   * @param options - Per-call request options
+   * @returns Raw transport response
+   * @private
+   */
+  private sendEndpointRequest(
+    name: EndpointName,
+    params: RequestParams,
+    data: unknown,
+    options?: RequestOptions
+  ): Promise<TransportResponse> {
+    const request: EndpointRequest = { params };
+    if (data !== undefined) {
+      request.data = data;
+    }
+    if (ENDPOINTS[name].responseType === "binary") {
+      request.responseType = "arraybuffer";
+    }
+    return this.send(name, request, options);
+  }
+
+  /**
+   * Send a request to a catalogued endpoint through the transport and its middleware
+   * @param name - Endpoint name; its method and URL are taken from the catalogue
+   * @param request - URL override (for path parameters), query parameters, body and response type
+   * @param options - Per-call request options (signal, timeout, headers, skipAuth)
+   * @returns Raw transport response
+   * @private
+   */
+  private send<T = unknown>(
+    name: EndpointName,
+    request: EndpointRequest,
+    options?: RequestOptions
+  ): Promise<TransportResponse<T>> {
+    const { url = this.endpointUrl(name), ...rest } = request;
+    const transportRequest: TransportRequest = {
+      ...rest,
+      endpoint: name,
+      method: ENDPOINTS[name].method,
+      url,
+      headers: { ...options?.headers },
+    };
+    if (options?.timeout !== undefined) {
+      transportRequest.timeout = options.timeout;
+    }
+    if (options?.skipAuth) {
+      transportRequest.skipAuth = true;
+    }
+    if (this.disposed) {
+      return Promise.reject(new RequestAbortedError("Client disposed"));
+    }
+    if (options?.signal?.aborted) {
+      return Promise.reject(new RequestAbortedError());
+    }
+
+    // Aborted by the caller's signal or by dispose(), which also cancels the connection
+    const call = this.trackCall(options?.signal);
+    transportRequest.signal = call.signal;
+    return abortable(this.transport.request<T>(transportRequest), call.signal).finally(call.release);
+  }
+
+  /**
+   * Create a signal aborted by the caller's signal or by {@link dispose}
+   * @param signal - Caller's signal, if any
+   * @returns The signal and a function to call once the work is done
+   * @throws {RequestAbortedError} When the client is disposed
+   * @private
+   */
+  private trackCall(signal?: AbortSignal): { signal: AbortSignal; release: () => void } {
+    if (this.disposed) {
+      throw new RequestAbortedError("Client disposed");
+    }
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener("abort", abort);
+    this.inFlight.add(controller);
+    return {
+      signal: controller.signal,
+      release: () => {
+        this.inFlight.delete(controller);
+        signal?.removeEventListener("abort", abort);
+      },
+    };
+  }
+
+  /**
+   * Emit `request`, `response` and `rateLimited` events around a request
+   * @param request - Request about to be sent
+   * @param next - Sends the request
+   * @returns The response
+   * @private
+   */
+  private async emitRequestEvents(
+    request: TransportRequest,
+    next: (request: TransportRequest) => Promise<TransportResponse>
+  ): Promise<TransportResponse> {
+    const startTime = Date.now();
+    const event: RequestEvent = { endpoint: request.endpoint ?? "unknown", method: request.method, url: request.url };
+    this.emit("request", event);
+    try {
+      const response = await next(request);
+      this.emit("response", { ...event, status: response.status, durationMs: Date.now() - startTime });
+      if (response.status === 429) {
+        const retryAfterMs = parseRetryAfter(response.headers["retry-after"]);
+        this.emit("rateLimited", { ...event, ...(retryAfterMs !== undefined && { retryAfterMs }) });
+      }
+      return response;
+    } catch (error) {
+      this.emit("response", { ...event, durationMs: Date.now() - startTime, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Run a request through the hooks registered with {@link use}
+   * @param request - Request about to be sent
+   * @param next - Sends the request
+   * @returns Response, possibly provided or replaced by a hook
+   * @private
+   */
+  private async runMiddleware(
+    request: TransportRequest,
+    next: (request: TransportRequest) => Promise<TransportResponse>
+  ): Promise<TransportResponse> {
+    if (this.middleware.length === 0) {
+      return next(request);
+    }
+
+    const context: MiddlewareContext = {
+      endpoint: request.endpoint ?? "unknown",
+      request,
+      params: request.params as Partial<RequestParams> | undefined,
+      state: {},
+    };
+
+    for (const middleware of this.middleware) {
+      await middleware.onRequest?.(context);
+      if (context.response) {
+        break;
+      }
+    }
+
+    let response = context.response;
+    if (!response) {
+      try {
+        response = await next(context.request);
+      } catch (error) {
+        const failed = { ...context, error };
+        for (const middleware of this.middleware) {
+          await middleware.onError?.(failed);
+          if (failed.response) {
+            break;
+          }
+        }
+        if (!failed.response) {
+          throw failed.error;
+        }
+        response = failed.response;
+      }
+    }
+
+    const succeeded = { ...context, response };
+    for (const middleware of this.middleware) {
+      await middleware.onResponse?.(succeeded);
+    }
+    return succeeded.response;
+  }
+
+  /**
+   * Build the typed error for a Bolt API code that has one
+   * @param data - Response body
+   * @returns The typed error, or undefined for other codes and bodies
+   * @private
+   */
+  private apiCodeError(data: unknown): BoltApiError | undefined {
+    switch ((data as { code?: unknown } | null | undefined)?.code) {
+      case 293: // SMS_CODE_NOT_FOUND
+        return new InvalidSmsCodeError("INVALID_SMS_CODE", data);
+      case 299: // SMS_LIMIT_REACHED
+        return new SmsLimitError("SMS_LIMIT_REACHED", data);
+      case 17500: // PARSING_PHONE_FAILED
+        return new InvalidPhoneError("Invalid phone number format", data);
+      case 1000: // DATABASE_ERROR
+        return new DatabaseError("DATABASE_ERROR", data);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Build the error for a response with an HTTP error status
+   * @param response - Response with status 400 or above
+   * @returns Error to throw
+   * @private
+   */
+  private httpError(response: TransportResponse): BoltApiError {
+    const { status, data, headers } = response;
+    if (status === 401) {
+      return new AuthenticationError("Authentication failed", status, data);
+    }
+
+    const message = (data as { message?: string } | undefined)?.message;
+    const apiError =
+      this.apiCodeError(data) ??
+      (status === 400
+        ? new ValidationError("Invalid request", status, data)
+        : new BoltApiError(
+            `API request failed: ${message || `Request failed with status code ${status}`}`,
+            status,
+            data
+          ));
+    const retryAfterMs = parseRetryAfter(headers["retry-after"]);
+    if (retryAfterMs !== undefined) {
+      apiError.retryAfterMs = retryAfterMs;
+    }
+    return apiError;
+  }
+
+  /**
+   * Turn a raw response into the value returned by an endpoint method
+   * @param endpoint - Endpoint definition
+   * @param response - Raw transport response
+   * @returns Unwrapped data, the whole envelope or the binary body
+   * @private
+   */
+  private parseEndpointResponse<T>(
+    endpoint: EndpointDefinition,
+    response: TransportResponse | undefined
+  ): T {
+    // If response is a network error or undefined
+    if (!response) {
+      throw new Error("Network Error");
+    }
+
+    switch (endpoint.responseType) {
+      case "binary":
+        return response.data as T;
+      case "envelope":
+        if (this.isApiResponse(response.data) && response.data.code !== 0) {
+          this.throwApiError(response.data);
+        }
+        return response.data as T;
+      case "data":
+        return this.parseApiResponse(response as TransportResponse<T | ApiResponse<T>>);
+    }
+  }
+
+  /**
+   * Build the retry context for a catalogued endpoint
+   * @param name - Endpoint name
+   * @returns Operation name, HTTP method, idempotency marker and auth requirement
+   * @private
+   */
+  private endpointContext(name: EndpointName): RequestContext {
+    const endpoint: EndpointDefinition = ENDPOINTS[name];
+    const context: RequestContext = {
+      operation: name,
+      method: endpoint.method,
+      requiresAuth: endpoint.requiresAuth,
+    };
+    if (endpoint.idempotent !== undefined) {
+      context.idempotent = endpoint.idempotent;
+    }
+    return context;
+  }
+
+  /**
+   * Resolve the full URL of a catalogued endpoint
+   * @param name - Endpoint name
+   * @param pathParams - Values for `{name}` segments in the endpoint path
+   * @returns Absolute endpoint URL
+   * @throws {ValidationError} When a path parameter is missing
+   * @private
+   */
+  private endpointUrl(
+    name: EndpointName,
+    pathParams: Record<string, string> = {}
+  ): string {
+    const endpoint: EndpointDefinition = ENDPOINTS[name];
+    const path = endpoint.path.replace(/\{(\w+)\}/g, (_match, key: string) => {
+      const value = pathParams[key];
+      if (value === undefined) {
+        throw new ValidationError(`Missing path parameter '${key}' for ${name}`, 400);
+      }
+      return encodeURIComponent(value);
+    });
+    return `${this.hosts.resolve(endpoint.host)}${path}`;
+  }
+
+  // Type guard to check if a response is an ApiResponse
+  private isApiResponse<T>(data: T | ApiResponse<T>): data is ApiResponse<T> {
+    return (typeof data === 'object' && data !== null && 'code' in data && 'message' in data && 'data' in data);
+  }
+
+  /**
+   * Build common request parameters
+   * @param gpsInfo - Optional GPS information
+   * @returns Request parameters object
+   * @private
+   */
+  private buildRequestParams(gpsInfo?: GpsInfo): RequestParams {
+    const now = Math.floor(Date.now() / 1000);
+    const driverId =
+      this.sessionInfo?.driverId || this.driverInfo?.driverId || 0;
+
+          // Only log driver ID info, not full GPS details
+      this.logger.debug("Building request params", {
         finalDriverId: driverId,
       });
 
@@ -1934,7 +2532,7 @@ export class BoltDriverAPI {
       gps_speed: gpsInfo?.speed || 0,
       gps_timestamp: gpsInfo?.timestamp || now,
       language: this.authConfig.language,
-      session_id: this.sessionInfo?.sessionId || "",
+      session_id: this.sessions.getSessionId(),
       theme: this.authConfig.theme,
       version: this.deviceInfo.appVersion,
     };
@@ -1955,19 +2553,24 @@ export class BoltDriverAPI {
 
   /**
    * Build authentication request parameters (without session info)
+   * @param deviceInfo - Device to describe (defaults to the client's device)
+   * @param authConfig - Brand and locale settings (defaults to the client's settings)
    * @returns Authentication parameters object
    * @private
    */
-  private buildAuthParams(): Record<string, string> {
+  private buildAuthParams(
+    deviceInfo: DeviceInfo = this.deviceInfo,
+    authConfig: AuthConfig = this.authConfig
+  ): Record<string, string> {
     return {
-      brand: this.authConfig.brand,
-      country: this.authConfig.country,
-      deviceId: this.deviceInfo.deviceId,
-      deviceType: this.deviceInfo.deviceType,
-      device_name: this.deviceInfo.deviceName,
-      device_os_version: this.deviceInfo.deviceOsVersion,
-      language: this.authConfig.language,
-      version: this.deviceInfo.appVersion,
+      brand: authConfig.brand,
+      country: authConfig.country,
+      deviceId: deviceInfo.deviceId,
+      deviceType: deviceInfo.deviceType,
+      device_name: deviceInfo.deviceName,
+      device_os_version: deviceInfo.deviceOsVersion,
+      language: authConfig.language,
+      version: deviceInfo.appVersion,
     };
   }
 
@@ -1997,6 +2600,22 @@ export class BoltDriverAPI {
     this.logger.updateConfig(config);
   }
 
+  /**
+   * Get the host registry used to resolve endpoint URLs
+   * @returns Host registry instance
+   */
+  getHostRegistry(): HostRegistry {
+    return this.hosts;
+  }
+
+  /**
+   * Get the device profile derived from the device information and User-Agent
+   * @returns Device profile instance
+   */
+  getDeviceProfile(): DeviceProfile {
+    return this.deviceProfile;
+  }
+
   /**
    * Get token storage instance
    * @returns Token storage instance
@@ -2009,10 +2628,14 @@ export class BoltDriverAPI {
    * Exchange refresh token for JWT access token using the driver service
    * This is the missing step after magic link authentication to get proper driver permissions
    * @param gpsInfo - GPS location and accuracy information
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to the JWT access token
    * @throws {AuthenticationError} When token exchange fails
    */
-  async exchangeRefreshTokenForJWT(gpsInfo: GpsInfo): Promise<string> {
+  async exchangeRefreshTokenForJWT(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<string> {
     if (!this.refreshToken) {
       throw new AuthenticationError("No refresh token available", 401);
     }
@@ -2021,40 +2644,27 @@ export class BoltDriverAPI {
       this.logger.info("Exchanging refresh token for JWT access token");
 
       // Build query parameters based on HAR entry
-      const queryParams = new URLSearchParams({
-        brand: "bolt",
-        deviceId: this.deviceInfo.deviceId,
-        deviceType: this.deviceInfo.deviceType,
-        device_name: this.deviceInfo.deviceName,
-        device_os_version: this.deviceInfo.deviceOsVersion,
-        gps_accuracy_meters: gpsInfo.accuracyMeters?.toString() || "0",
-        gps_adjusted_bearing: gpsInfo.adjustedBearing?.toString() || "0",
-        gps_age: gpsInfo.age?.toString() || "0",
-        gps_lat: gpsInfo.latitude?.toString() || "0",
-        gps_lng: gpsInfo.longitude?.toString() || "0",
-        gps_speed: gpsInfo.speed?.toString() || "0",
-        gps_speed_accuracy_mps: gpsInfo.speedAccuracyMps?.toString() || "0",
-        gps_timestamp: gpsInfo.timestamp?.toString() || "0",
-        language: "en-GB",
-        session_id: `${this.deviceInfo.deviceId}d${Date.now()}.518508`,
-        theme: "dark",
-        version: this.deviceInfo.appVersion,
-      });
+      const params = this.buildRequestParams(gpsInfo);
 
-      const url = `https://driver.live.boltsvc.net/driver/getAccessToken?${queryParams.toString()}`;
-
-      const response = await this.client.post<
-        ApiResponse<{
-          access_token: string;
-          expires_timestamp: number;
-          expires_in_seconds: number;
-        }>
-      >(url, {
+      const requestBody = {
         token_expires_in_seconds: 100,
         refresh_token: this.refreshToken,
         no_redis_cache: true,
         version: this.deviceInfo.appVersion,
-      });
+      };
+
+      const response = await this.withRetry(
+        this.endpointContext("exchangeRefreshTokenForJWT"),
+        () =>
+          this.send<
+            ApiResponse<{
+              access_token: string;
+              expires_timestamp: number;
+              expires_in_seconds: number;
+            }>
+          >("exchangeRefreshTokenForJWT", { params, data: requestBody }, options),
+        options
+      );
 
       if (
         response.data &&
@@ -2084,15 +2694,35 @@ export class BoltDriverAPI {
         }
 
         return this.accessToken;
-      } else {
-        throw new AuthenticationError(
-          "Failed to exchange refresh token for JWT",
-          401
-        );
       }
+
+      // DATABASE_ERROR
+      if (response.data && response.data.code === 1000) {
+        throw new DatabaseError("DATABASE_ERROR", response.data);
+      }
+      if (response.data && response.data.code !== 0) {
+        // NOT_AUTHORIZED becomes a NotAuthorizedError, every other code a BoltApiError
+        this.throwApiError(response.data);
+      }
+      throw new AuthenticationError(
+        "Failed to exchange refresh token for JWT",
+        401
+      );
     } catch (error) {
       this.logger.error("Token exchange for JWT failed", error);
-      throw new AuthenticationError("Token exchange for JWT failed", 401);
+      // Only a rejection of the refresh token ends the session; database errors, other
+      // API errors and aborts say nothing about the token and are surfaced as-is
+      if (this.isAuthRejection(error)) {
+        throw new AuthenticationError("Token exchange for JWT failed", 401, error);
+      }
+      if (error instanceof BoltApiError) {
+        throw error;
+      }
+      throw new BoltApiError(
+        `Token exchange for JWT failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        0,
+        error
+      );
     }
   }
 
@@ -2109,31 +2739,9 @@ export class BoltDriverAPI {
     }
 
     // Check JWT token expiry first (most reliable)
-    try {
-      const parts = this.accessToken.split(".");
-      if (parts.length === 3) {
-        const payloadPart = parts[1];
-        if (payloadPart) {
-          const base64 = payloadPart.replace(/-/g, "+").replace(/_/g, "/");
-          const paddedBase64 = base64.padEnd(
-            base64.length + ((4 - (base64.length % 4)) % 4),
-            "="
-          );
-          const payload = JSON.parse(
-            Buffer.from(paddedBase64, "base64").toString()
-          );
-          
-          // Check JWT exp field (in seconds, convert to milliseconds)
-          if (payload.exp) {
-            const jwtExpiry = payload.exp * 1000;
-            if (Date.now() >= jwtExpiry) {
-              return true;
-            }
-          }
-        }
-      }
-    } catch (error) {
-      this.logger.warn("Failed to parse JWT for expiry check", error);
+    const jwtExpiry = this.getJwtExpiry(this.accessToken);
+    if (jwtExpiry !== undefined && Date.now() >= jwtExpiry) {
+      return true;
     }
 
     // Log sessionInfo expiry details
@@ -2149,194 +2757,331 @@ export class BoltDriverAPI {
     return Date.now() >= this.sessionInfo.expiresAt;
   }
 
+  /**
+   * Read the expiry time from a JWT's `exp` claim
+   * @param token - JWT to inspect
+   * @returns Expiry timestamp in milliseconds, or undefined if the token has no readable `exp`
+   * @private
+   */
+  private getJwtExpiry(token: string): number | undefined {
+    try {
+      const parts = token.split(".");
+      if (parts.length !== 3 || !parts[1]) {
+        return undefined;
+      }
+
+      const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+      const paddedBase64 = base64.padEnd(
+        base64.length + ((4 - (base64.length % 4)) % 4),
+        "="
+      );
+      const payload = JSON.parse(
+        Buffer.from(paddedBase64, "base64").toString()
+      );
+
+      // JWT exp field is in seconds, convert to milliseconds
+      return payload.exp ? payload.exp * 1000 : undefined;
+    } catch (error) {
+      this.logger.warn("Failed to parse JWT for expiry check", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Refresh the access token, coalescing concurrent callers onto one in-flight refresh
+   *
+   * Every caller that arrives while a refresh is running awaits the same promise, so an
+   * expired token triggers exactly one call to the token endpoint.
+   *
+   * @returns Promise resolving to the new access token
+   * @private
+   */
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.performTokenRefresh().finally(() => {
+        this.refreshInFlight = undefined;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  /**
+   * Perform the token refresh under the token storage lock (if the storage provides one)
+   * @returns Promise resolving to the new access token
+   * @private
+   */
+  private async performTokenRefresh(): Promise<string> {
+    const refresh = async (): Promise<string> => {
+      // Another process sharing the token storage may have refreshed already
+      const storedToken = await this.adoptStoredToken();
+      if (storedToken) {
+        this.emitTokenRefreshed("storage", storedToken);
+        return storedToken;
+      }
+
+      const accessToken = await this.exchangeRefreshTokenForJWT(
+        this.createDefaultGpsInfo()
+      );
+
+      if (this.sessionInfo) {
+        const sessionInfo: SessionInfo = { ...this.sessionInfo, accessToken };
+        if (this.refreshToken) {
+          sessionInfo.refreshToken = this.refreshToken;
+        }
+        this.sessionInfo = sessionInfo;
+        await this.tokenStorage.saveToken(accessToken, sessionInfo);
+      }
+
+      this.emitTokenRefreshed("refresh", accessToken);
+      return accessToken;
+    };
+
+    try {
+      return await (this.tokenStorage.withLock
+        ? this.tokenStorage.withLock(refresh)
+        : refresh());
+    } catch (error) {
+      if (this.isAuthRejection(error)) {
+        this.handleAuthLost("Refresh token was rejected", error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Notify listeners of a new access token
+   * @param source - Whether the token endpoint or another process issued the token
+   * @param accessToken - The new token
+   * @private
+   */
+  private emitTokenRefreshed(source: TokenRefreshedEvent["source"], accessToken: string): void {
+    const event: TokenRefreshedEvent = { source };
+    const expiresAt = this.getJwtExpiry(accessToken) ?? this.sessionInfo?.expiresAt;
+    if (expiresAt) {
+      event.expiresAt = expiresAt;
+    }
+    this.emit("tokenRefreshed", event);
+  }
+
+  /**
+   * Adopt a still-valid access token from storage that differs from the one in memory
+   * @returns The adopted token, or undefined if storage holds nothing newer
+   * @private
+   */
+  private async adoptStoredToken(): Promise<string | undefined> {
+    const tokenData = await this.tokenStorage.loadToken();
+    if (!tokenData?.token || tokenData.token === this.accessToken) {
+      return undefined;
+    }
+
+    const expiresAt =
+      this.getJwtExpiry(tokenData.token) ?? tokenData.sessionInfo?.expiresAt;
+    if (!expiresAt || Date.now() >= expiresAt) {
+      return undefined;
+    }
+
+    this.accessToken = tokenData.token;
+    this.sessionInfo = tokenData.sessionInfo;
+    this.sessions.restore(tokenData.sessionInfo?.sessionId);
+    if (tokenData.sessionInfo?.refreshToken) {
+      this.refreshToken = tokenData.sessionInfo.refreshToken;
+    }
+    this.logger.info("Using access token refreshed by another client");
+    return tokenData.token;
+  }
+
   /**
    * Ensure the current token is valid, refreshing if necessary
    * @private
    * @returns Promise resolving when token is validated or refreshed
    */
   private async ensureValidToken(): Promise<void> {
-    // If no token exists, throw an authentication error
+    await this.initialization;
+
+    // If no token exists, log in again or throw an authentication error
     if (!this.accessToken && !this.refreshToken) {
+      if (this.reauthProviders.length > 0) {
+        return this.reauthenticate("No authentication token available");
+      }
       throw new AuthenticationError("No authentication token available", 401);
     }
 
     // Check if the current token is expired
     if (this.isTokenExpired()) {
+      // Without a refresh token the expired session cannot be recovered
+      if (!this.refreshToken) {
+        const reason = "Access token expired and no refresh token is available";
+        this.handleAuthLost(reason);
+        if (this.reauthProviders.length > 0) {
+          return this.reauthenticate(reason);
+        }
+        throw new AuthenticationError("Unable to refresh token", 401);
+      }
+
       this.logger.info("Current token is expired, attempting to refresh");
 
       try {
-        // If we have a refresh token, try to exchange it for a new access token
-        if (this.refreshToken) {
-          const gpsInfo = this.createDefaultGpsInfo();
-          await this.exchangeRefreshTokenForJWT(gpsInfo);
-        } else {
-          // If no refresh token, clear authentication and throw an error
-          this.clearAuthentication();
-          throw new AuthenticationError("Unable to refresh token", 401);
+        await this.refreshAccessToken();
+      } catch (error) {
+        this.logger.warn("Token refresh failed", error);
+        // Credentials were already cleared if the refresh was rejected; transient
+        // failures keep them so the next call can try again
+        if (this.isAuthRejection(error)) {
+          if (this.reauthProviders.length > 0) {
+            return this.reauthenticate("Refresh token was rejected", error);
+          }
+          throw new AuthenticationError("Token refresh failed", 401);
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Recover from a request rejected as unauthorized: refresh the access token, and log in
+   * again through the re-authentication providers when the refresh token is dead
+   * @param error - The rejection
+   * @private
+   */
+  private async recoverAuthentication(error: unknown): Promise<void> {
+    if (this.refreshToken) {
+      try {
+        await this.refreshAccessToken();
+        return;
+      } catch (refreshError) {
+        if (!this.isAuthRejection(refreshError) || this.reauthProviders.length === 0) {
+          throw refreshError;
+        }
+        return this.reauthenticate("Refresh token was rejected", refreshError);
+      }
+    }
+
+    const reason = "Access token was rejected and no refresh token is available";
+    this.handleAuthLost(reason, error);
+    return this.reauthenticate(reason, error);
+  }
+
+  /**
+   * Log in again through the registered providers, coalescing concurrent callers onto one
+   * login
+   * @param reason - Why the session was lost
+   * @param error - Error that ended the session, if any
+   * @param method - Only use providers of this method
+   * @returns Promise resolving once a provider logged in
+   * @throws {AuthenticationError} When every provider failed
+   * @private
+   */
+  private reauthenticate(reason: string, error?: unknown, method?: string): Promise<void> {
+    if (!this.reauthInFlight) {
+      this.reauthInFlight = this.performReauthentication(reason, error, method).finally(() => {
+        this.reauthInFlight = undefined;
+      });
+    }
+    return this.reauthInFlight;
+  }
+
+  /**
+   * Try the registered providers in order until one logs in
+   * @private
+   */
+  private async performReauthentication(reason: string, error: unknown, method: string | undefined): Promise<void> {
+    // Logins wait for codes and links; they end when the client is disposed
+    const call = this.trackCall();
+    let lastError: unknown = error;
+
+    try {
+      for (const provider of this.reauthProviders.filter(candidate => !method || candidate.method === method)) {
+        this.logger.info(`Re-authenticating with ${provider.method}: ${reason}`);
+        try {
+          await abortable(
+            provider.authenticate({
+              api: this,
+              reason,
+              authConfig: this.authConfig,
+              deviceInfo: this.deviceInfo,
+              signal: call.signal,
+              ...(error !== undefined && { error }),
+            }),
+            call.signal
+          );
+          if (!this.accessToken) {
+            throw new AuthenticationError(`The ${provider.method} provider did not log in`, 401);
+          }
+        } catch (providerError) {
+          if (providerError instanceof RequestAbortedError) {
+            throw providerError;
+          }
+          this.logger.warn(`Re-authentication with ${provider.method} failed`, providerError);
+          lastError = providerError;
+          continue;
         }
-      } catch (error) {
-        this.logger.warn("Token refresh failed", error);
-        this.clearAuthentication();
-        throw new AuthenticationError("Token refresh failed", 401);
+
+        this.logger.info(`Re-authenticated with ${provider.method}`);
+        const event: ReauthenticatedEvent = { method: provider.method, reason };
+        this.emit("reauthenticated", event);
+        return;
       }
+    } finally {
+      call.release();
     }
+
+    throw new AuthenticationError(`Re-authentication failed: ${reason}`, 401, lastError);
   }
 
   /**
    * Get scheduled ride requests
    * @param gpsInfo - GPS location and accuracy information
    * @param groupBy - Optional grouping parameter (default: 'upcoming')
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to scheduled ride requests
    * @throws {BoltApiError} When API request fails
    */
   async getScheduledRideRequests(
     gpsInfo: GpsInfo,
-    groupBy: string = "upcoming"
-  ): Promise<ApiResponse> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
-
-    const url = `${this.config.companyBaseUrl}/orderDriver/v1/getScheduledRideRequests`;
-    const params = this.buildRequestParams(gpsInfo);
-    params.group_by = groupBy;
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting scheduled ride requests", { groupBy, gpsInfo });
-    } else {
-      this.logger.info(`Getting scheduled ride requests (groupBy: ${groupBy})`);
-    }
-
-    try {
-      const response = await this.client.post(url, {}, { params });
-
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
-
-      return this.parseApiResponse(response);
-    } catch (error) {
-      this.logger.error("Failed to get scheduled ride requests", error);
-
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
-
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-
-      throw new BoltApiError(
-        `Failed to get scheduled ride requests: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+    groupBy: string = "upcoming",
+    options?: RequestOptions
+  ): Promise<ScheduledRideRequests> {
+    return this.request<ScheduledRideRequests>(
+      "getScheduledRideRequests",
+      { gpsInfo, params: { group_by: groupBy } },
+      options
+    );
   }
 
   /**
    * Get driver earnings landing screen details
    * @param gpsInfo - GPS location and accuracy information
-   * @returns Promise resolving to earnings landing screen data
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
+   * @returns Promise resolving to the earnings screen; unknown block types become `unsupported` blocks
    * @throws {BoltApiError} When API request fails
    */
-  async getEarningLandingScreen(gpsInfo: GpsInfo): Promise<ApiResponse> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
-
-    const url = `https://driver.live.boltsvc.net/driver/v2/getEarningLandingScreen`;
-    const params = this.buildRequestParams(gpsInfo);
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting earnings landing screen", { gpsInfo });
-    } else {
-      this.logger.info("Getting earnings landing screen");
-    }
-
-    try {
-      const response = await this.client.get(url, { params });
-
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
-
-      return this.parseApiResponse(response);
-    } catch (error) {
-      this.logger.error("Failed to get earnings landing screen", error);
-
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
-
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-
-      throw new BoltApiError(
-        `Failed to get earnings landing screen: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getEarningLandingScreen(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<EarningLandingScreen> {
+    return normalizeScreen(
+      await this.request<EarningLandingScreen>("getEarningLandingScreen", { gpsInfo }, options)
+    );
   }
 
   /**
    * Get driver activity rides
    * @param gpsInfo - GPS location and accuracy information
    * @param groupBy - Optional grouping parameter (default: 'all')
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to activity rides data
    * @throws {BoltApiError} When API request fails
    */
   async getActivityRides(
     gpsInfo: GpsInfo,
-    groupBy: string = "all"
-  ): Promise<ApiResponse> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
-
-    const url = `${this.config.companyBaseUrl}/orderDriver/getActivityRides`;
-    const params = this.buildRequestParams(gpsInfo);
-    params.group_by = groupBy;
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.debug("Getting activity rides", { groupBy, gpsInfo });
-    } else {
-      this.logger.info(`Getting activity rides (groupBy: ${groupBy})`);
-    }
-
-    try {
-      const response = await this.client.get(url, { params });
-
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
-
-      return this.parseApiResponse(response);
-    } catch (error) {
-      this.logger.error("Failed to get activity rides", error);
-
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
-
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-
-      throw new BoltApiError(
-        `Failed to get activity rides: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+    groupBy: string = "all",
+    options?: RequestOptions
+  ): Promise<ActivityRides> {
+    return this.request<ActivityRides>(
+      "getActivityRides",
+      { gpsInfo, params: { group_by: groupBy } },
+      options
+    );
   }
 
   /**
@@ -2344,246 +3089,93 @@ export class BoltDriverAPI {
    * @param gpsInfo - GPS location and accuracy information
    * @param limit - Number of records to retrieve (default: 10)
    * @param offset - Offset for pagination (default: 0)
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to order history data
    * @throws {BoltApiError} When API request fails
    */
   async getOrderHistoryPaginated(
     gpsInfo: GpsInfo,
     limit: number = 10,
-    offset: number = 0
+    offset: number = 0,
+    options?: RequestOptions
   ): Promise<ApiResponse<OrderHistoryData>> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
-
-    const url = `https://driver.live.boltsvc.net/orderDriver/v1/getOrderHistoryPaginated`;
-    const params = this.buildRequestParams(gpsInfo);
-    params.limit = limit;
-    params.offset = offset;
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting order history", { limit, offset, gpsInfo });
-    } else {
-      this.logger.info(
-        `Getting order history (limit: ${limit}, offset: ${offset})`
-      );
-    }
-
-    try {
-      const response = await this.client.get(url, { params });
-
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
-
-      return this.parseApiResponse(response);
-    } catch (error) {
-      this.logger.error("Failed to get order history", error);
-
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
-
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-
-      throw new BoltApiError(
-        `Failed to get order history: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+    return this.request<ApiResponse<OrderHistoryData>>(
+      "getOrderHistoryPaginated",
+      { gpsInfo, params: { limit, offset } },
+      options
+    );
   }
 
   /**
    * Get driver help details
    * @param gpsInfo - GPS location and accuracy information
-   * @returns Promise resolving to help details data
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
+   * @returns Promise resolving to the help screen; unknown block types become `unsupported` blocks
    * @throws {BoltApiError} When API request fails
    */
-  async getHelpDetails(gpsInfo: GpsInfo): Promise<ApiResponse> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
-
-    const url = `https://driver.live.boltsvc.net/driver/getHelpDetails`;
-    const params = this.buildRequestParams(gpsInfo);
-
-    if (this.logger.getConfig().level === "debug") {
-      this.logger.info("Getting help details", { gpsInfo });
-    } else {
-      this.logger.info("Getting help details");
-    }
-
-    try {
-      const response = await this.client.get(url, { params });
-
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
-
-      return this.parseApiResponse(response);
-    } catch (error) {
-      this.logger.error("Failed to get help details", error);
-
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
-
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-
-      throw new BoltApiError(
-        `Failed to get help details: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getHelpDetails(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<HelpDetails> {
+    return normalizeScreen(
+      await this.request<HelpDetails>("getHelpDetails", { gpsInfo }, options)
+    );
   }
 
   /**
    * Get driver earn more details
    * @param gpsInfo - GPS location and accuracy information
-   * @returns Promise resolving to earn more details data
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
+   * @returns Promise resolving to the earn more screen; unknown block types become `unsupported` blocks
    * @throws {BoltApiError} When API request fails
    */
-  async getEarnMoreDetails(gpsInfo: GpsInfo): Promise<ApiResponse> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
-
-    const url = `${this.config.driverBaseUrl}/getEarnMoreDetails`;
-    const params = this.buildRequestParams(gpsInfo);
-
-    try {
-      this.logger.info("Getting earn more details", { gpsInfo });
-      const response = await this.client.get(url, { params });
-
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
-
-      return this.parseApiResponse(response);
-    } catch (error) {
-      this.logger.error("Failed to get earn more details", error);
-
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
-
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-
-      throw new BoltApiError(
-        `Failed to get earn more details: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getEarnMoreDetails(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<EarnMoreDetails> {
+    return normalizeScreen(
+      await this.request<EarnMoreDetails>("getEarnMoreDetails", { gpsInfo }, options)
+    );
   }
 
   /**
    * Get driver score overview
    * @param gpsInfo - GPS location and accuracy information
-   * @returns Promise resolving to score overview data
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
+   * @returns Promise resolving to the score screen; unknown block types become `unsupported` blocks
    * @throws {BoltApiError} When API request fails
    */
-  async getScoreOverview(gpsInfo: GpsInfo): Promise<ApiResponse> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
-
-    const url = `${this.config.driverBaseUrl}/getScoreOverview`;
-    const params = this.buildRequestParams(gpsInfo);
-
-    try {
-      this.logger.info("Getting score overview", { gpsInfo });
-      const response = await this.client.get(url, { params });
-
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
-
-      return this.parseApiResponse(response);
-    } catch (error) {
-      this.logger.error("Failed to get score overview", error);
-
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
-
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-
-      throw new BoltApiError(
-        `Failed to get score overview: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getScoreOverview(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<ScoreOverview> {
+    return normalizeScreen(
+      await this.request<ScoreOverview>("getScoreOverview", { gpsInfo }, options)
+    );
   }
 
   /**
    * Get driver sidebar details
    * @param gpsInfo - GPS location and accuracy information
-   * @returns Promise resolving to driver sidebar data
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
+   * @returns Promise resolving to the sidebar; unknown menu item types become `unsupported` items
    * @throws {BoltApiError} When API request fails
    */
-  async getDriverSidebar(gpsInfo: GpsInfo): Promise<ApiResponse> {
-    // Ensure token is valid before making the request
-    await this.ensureValidToken();
-
-    const url = `${this.config.driverBaseUrl}/getDriverSidebar`;
-    const params = this.buildRequestParams(gpsInfo);
-
-    try {
-      this.logger.info("Getting driver sidebar", { gpsInfo });
-      const response = await this.client.get(url, { params });
-
-      // If response is a network error or undefined
-      if (!response || !response.data) {
-        throw new Error("Network Error");
-      }
-
-      return this.parseApiResponse(response);
-    } catch (error) {
-      this.logger.error("Failed to get driver sidebar", error);
-
-      // If it's a network error, throw the original error message
-      if (error instanceof Error && error.message === "Network Error") {
-        throw new BoltApiError("Network Error", 0);
-      }
-
-      if (error instanceof BoltApiError) {
-        throw error;
-      }
-
-      throw new BoltApiError(
-        `Failed to get driver sidebar: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        0
-      );
-    }
+  async getDriverSidebar(
+    gpsInfo: GpsInfo,
+    options?: RequestOptions
+  ): Promise<DriverSidebar> {
+    return normalizeSidebar(
+      await this.request<DriverSidebar>("getDriverSidebar", { gpsInfo }, options)
+    );
   }
 
   /**
    * Validate existing token by making a test API call
+   * @param options - Optional per-call request options (signal, timeout, retries, headers)
    * @returns Promise resolving to boolean indicating if token is valid
    */
-  async validateExistingToken(): Promise<boolean> {
+  async validateExistingToken(options?: RequestOptions): Promise<boolean> {
     this.logger.debug("Starting validateExistingToken...");
 
     if (!this.accessToken && !this.refreshToken) {
@@ -2604,6 +3196,7 @@ export class BoltDriverAPI {
           this.accessToken = tokenData.token;
           this.refreshToken = tokenData.token; // In Bolt's system, the JWT token serves as both access and refresh token
           this.sessionInfo = tokenData.sessionInfo;
+          this.sessions.restore(tokenData.sessionInfo?.sessionId);
 
           // Extract driver info from JWT if available
           if (this.accessToken) {
@@ -2633,13 +3226,13 @@ export class BoltDriverAPI {
       // Use getDriverState as primary validation method (more reliable)
       try {
         this.logger.debug("Testing token with getDriverState...");
-        await this.getDriverState(gpsInfo, "background");
+        await this.getDriverState(gpsInfo, "background", options);
         this.logger.debug("Token validation successful with getDriverState");
         return true;
       } catch (driverStateError) {
         this.logger.debug("getDriverState failed, trying getDriverNavBarBadges...");
         // Fallback to getDriverNavBarBadges if getDriverState fails
-        await this.getDriverNavBarBadges(gpsInfo);
+        await this.getDriverNavBarBadges(gpsInfo, options);
         this.logger.debug("Token validation successful with getDriverNavBarBadges");
         return true;
       }
@@ -2676,8 +3269,12 @@ export class BoltDriverAPI {
 
   /**
    * Handle authentication when existing token fails
+   *
+   * Clears the credentials and, when a re-authentication provider of the given method is
+   * registered with {@link addReauthProvider}, logs in again through it.
+   *
    * @param authMethod - Preferred authentication method ('otp' or 'magic-link')
-   * @returns Promise resolving to authentication result
+   * @returns Promise resolving to true if a provider logged in, false if user interaction is needed
    */
   async handleTokenFailure(
     authMethod: "otp" | "magic-link" = "otp"
@@ -2689,6 +3286,16 @@ export class BoltDriverAPI {
     // Clear the failed token
     this.clearAuthentication();
 
+    if (this.reauthProviders.some(provider => provider.method === authMethod)) {
+      try {
+        await this.reauthenticate(`${authMethod} authentication requested`, undefined, authMethod);
+        return true;
+      } catch (error) {
+        this.logger.warn(`${authMethod} authentication failed`, error);
+        return false;
+      }
+    }
+
     if (authMethod === "otp") {
       // For OTP, we need user interaction
       this.logger.info(
@@ -2728,146 +3335,70 @@ export class BoltDriverAPI {
   }
 
   /**
-   * Get logged in driver configuration including real IDs and profile information
+   * Get logged in driver configuration including real IDs and profile information.
+   *
+   * The configuration endpoint is tried first; when it fails, the identifiers from the
+   * access token are returned instead, unless `strict` is set. `dataSource` tells which
+   * one was used, and fields the source does not provide are left out.
+   *
+   * @param options - Optional per-call request options (signal, timeout, retries, headers, strict)
    * @returns Promise resolving to driver configuration
-   * @throws {BoltApiError} When the request fails
+   * @throws {BoltApiError} When the request fails with `strict` set
    */
-  async getLoggedInDriverConfiguration(): Promise<Record<string, unknown>> {
+  async getLoggedInDriverConfiguration(
+    options?: DriverConfigurationOptions
+  ): Promise<DriverConfiguration> {
     try {
       this.logger.info("Getting logged in driver configuration");
 
       if (!this.accessToken) {
-        this.logger.warn("No access token available, returning default configuration");
-        return this.getDefaultDriverConfiguration();
+        this.logger.warn("No access token available, returning configuration without API data");
+        return buildDriverConfiguration(undefined, this.driverInfo);
       }
 
       if (!this.driverInfo) {
-        this.logger.warn("Driver information not available, returning default configuration");
-        return this.getDefaultDriverConfiguration();
+        this.logger.warn("Driver information not available, returning empty configuration");
+        return buildDriverConfiguration(undefined, undefined);
       }
 
       // Try to get real driver configuration from API first
       try {
         this.logger.info("Attempting to call real API endpoint for driver configuration");
-        const gpsInfo = this.createDefaultGpsInfo();
-        const deviceId = this.sessionInfo?.sessionId?.split('d')[0] || 'unknown';
-        
-        const response = await this.client.get(
-          'https://driver.live.boltsvc.net/driver/getLoggedInDriverConfigurationV2',
-          {
-            params: {
-              app_platform_provider: 'apple',
-              brand: 'bolt',
-              deviceId: deviceId,
-              deviceType: 'iphone',
-              device_name: 'iPhone17,3',
-              device_os_version: 'iOS18.6',
-              gps_accuracy_meters: gpsInfo.accuracyMeters || 15,
-              gps_adjusted_bearing: gpsInfo.adjustedBearing || 0,
-              gps_age: gpsInfo.age || 30,
-              gps_lat: gpsInfo.latitude || 51.233234,
-              gps_lng: gpsInfo.longitude || 22.518391,
-              gps_speed: gpsInfo.speed || 0,
-              gps_speed_accuracy_mps: gpsInfo.speedAccuracyMps || 1.8,
-              gps_timestamp: Math.floor(Date.now() / 1000),
-              language: 'en-GB',
-              session_id: `${deviceId}d${Date.now()}.518508`,
-              theme: 'dark',
-              version: 'DI.116.0'
-            },
-            headers: {
-              'Authorization': `Bearer ${this.accessToken}`,
-              'Host': 'driver.live.boltsvc.net',
-              'Connection': 'keep-alive',
-              'Accept': '*/*',
-              'User-Agent': 'Bolt%20Driver/181158215 CFNetwork/3826.600.31 Darwin/24.6.0',
-              'Accept-Language': 'en-GB,en;q=0.9',
-              'Accept-Encoding': 'gzip, deflate, br'
-            }
-          }
+        const response = await this.request<ApiResponse<DriverConfigurationPayload>>(
+          "getLoggedInDriverConfiguration",
+          { gpsInfo: this.createDefaultGpsInfo(), params: this.deviceProfile.getPlatformParams() },
+          options
         );
 
-        if (response.data.code === 0 && response.data.data) {
-          const configData = response.data.data;
-          
-          // Extract the real driver information from the API response
-          const driverConfig = {
-            driver_info: {
-              driver_id: configData.user?.id || this.driverInfo.driverId,
-              partner_id: configData.user?.partner_id || this.driverInfo.partnerId,
-              company_id: configData.user?.company_id || this.driverInfo.companyId,
-              company_city_id: configData.user?.company_city_id || this.driverInfo.companyCityId,
-              first_name: configData.user?.name?.split(' ')[0] || `Driver ${configData.user?.id || this.driverInfo.driverId}`,
-              last_name: configData.user?.name?.split(' ').slice(1).join(' ') || '',
-              email: configData.user?.username || "Not available via API",
-              phone: configData.user?.phone || "Not available via API",
-            },
-            company_info: {
-              name: `Company ${configData.user?.company_id || this.driverInfo.companyId}`,
-              country: configData.user?.country || "Not available via API",
-              city: configData.user?.city_name || "Not available via API",
-            },
-            vehicle_info: {
-              selected_car_id: configData.car?.selected_car_id || 0,
-              selected_car_name: configData.car?.selected_car_name || "Not available via API",
-              make: configData.car?.selected_car_name?.split('•')[1]?.trim() || "Not available via API",
-              model: configData.car?.selected_car_name?.split('•')[1]?.trim() || "",
-              license_plate: configData.car?.selected_car_name?.split('•')[0]?.trim() || "Not available via API",
-            },
-            app_config: configData.app || {},
-            features: configData.features || {}
-          };
+        if (response.data) {
+          const driverConfig = buildDriverConfiguration(response.data, this.driverInfo);
 
           this.logger.info("Successfully retrieved driver configuration from API", {
             driverId: driverConfig.driver_info.driver_id,
             partnerId: driverConfig.driver_info.partner_id,
             companyId: driverConfig.driver_info.company_id,
-            hasApiData: true,
-            dataSource: 'API endpoint'
+            dataSource: driverConfig.dataSource,
           });
 
           return driverConfig;
         }
       } catch (apiError: unknown) {
+        if (options?.strict) {
+          throw apiError;
+        }
         this.logger.warn("Failed to get driver configuration from API, falling back to JWT data", {
           error: apiError instanceof Error ? apiError.message : 'Unknown error'
         });
       }
 
-      // Start with JWT-based information
-      const driverConfig: Record<string, unknown> = {
-        driver_info: {
-          driver_id: this.driverInfo.driverId,
-          partner_id: this.driverInfo.partnerId,
-          company_id: this.driverInfo.companyId,
-          company_city_id: this.driverInfo.companyCityId,
-          first_name: `Driver ${this.driverInfo.driverId}`,
-          last_name: "",
-          email: "Not available via API",
-          phone: "Not available via API",
-        },
-        company_info: {
-          name: `Company ${this.driverInfo.companyId}`,
-          country: "Not available via API",
-        },
-        vehicle_info: {
-          make: "Not available via API",
-          model: "",
-          license_plate: "Not available via API",
-        },
-      };
-
-      // Additional driver information (profile, company, vehicle) is not available through the Bolt API
-      this.logger.debug(
-        "Additional driver info not available through Bolt API endpoints - using JWT data only"
-      );
+      // Additional driver information (profile, company, vehicle) is not available without the API
+      const driverConfig = buildDriverConfiguration(undefined, this.driverInfo);
 
       this.logger.info("Successfully retrieved driver configuration", {
         driverId: this.driverInfo.driverId,
         partnerId: this.driverInfo.partnerId,
         companyId: this.driverInfo.companyId,
-        hasJwtData: true,
-        dataSource: "JWT token only",
+        dataSource: driverConfig.dataSource,
       });
 
       return driverConfig;
@@ -2876,36 +3407,4 @@ export class BoltDriverAPI {
       throw error;
     }
   }
-
-  /**
-   * Get default driver configuration when API data is not available
-   * @returns Default driver configuration object
-   */
-  private getDefaultDriverConfiguration(): Record<string, unknown> {
-    const driverId = this.driverInfo?.driverId || 1;
-    const partnerId = this.driverInfo?.partnerId || 1;
-    const companyId = this.driverInfo?.companyId || 1;
-
-    return {
-      driver_info: {
-        driver_id: driverId,
-        partner_id: partnerId,
-        company_id: companyId,
-        company_city_id: this.driverInfo?.companyCityId || 1,
-        first_name: `Driver ${driverId}`,
-        last_name: "",
-        email: "Not available via API",
-        phone: "Not available via API",
-      },
-      company_info: {
-        name: `Company ${companyId}`,
-        country: "Not available via API",
-      },
-      vehicle_info: {
-        make: "Not available via API",
-        model: "",
-        license_plate: "Not available via API",
-      },
-    };
-  }
 }
@@ -0,0 +1,308 @@
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import {
+  DeviceInfo,
+  DevicePlatform,
+  DevicePreset,
+  DeviceProfileOptions,
+  PlatformParams,
+  PlatformProfile,
+  PushProvider,
+  ValidationError,
+} from "./types";
+
+/**
+ * Platform-wide settings of the iOS and Android driver apps.
+ *
+ * @since 1.1.0
+ */
+export const PLATFORM_PROFILES: Readonly<Record<DevicePlatform, PlatformProfile>> = {
+  ios: {
+    deviceType: "iphone",
+    appPlatformProvider: "apple",
+    pushProvider: "apns",
+    bundleId: "ee.taxify.driver",
+    osVersionPrefix: "iOS",
+    appVersionPrefix: "DI.",
+    userAgentTemplate: "Bolt Driver/{buildNumber} CFNetwork/{cfNetwork} Darwin/{darwin}",
+    appBuilds: {
+      "DI.114.0": "177264019",
+      "DI.115.0": "178561382",
+      "DI.116.0": "179857746",
+    },
+    osVersions: {
+      "iOS17.6": { cfNetwork: "1498.700.2", darwin: "23.6.0" },
+      "iOS18.5": { cfNetwork: "3826.500.131", darwin: "24.5.0" },
+      "iOS18.6": { cfNetwork: "3826.600.31", darwin: "24.6.0" },
+    },
+  },
+  android: {
+    deviceType: "android",
+    appPlatformProvider: "google",
+    pushProvider: "fcm",
+    bundleId: "ee.mtakso.driver",
+    osVersionPrefix: "Android",
+    appVersionPrefix: "DA.",
+    userAgentTemplate:
+      "Bolt Driver/{appVersion} ({buildNumber}) Android/{osRelease} ({deviceName}) okhttp/4.12.0",
+    appBuilds: {
+      "DA.114.0": "114000",
+      "DA.115.0": "115000",
+      "DA.116.0": "116000",
+    },
+    osVersions: {
+      Android13: { osRelease: "13" },
+      Android14: { osRelease: "14" },
+      Android15: { osRelease: "15" },
+    },
+  },
+};
+
+/**
+ * Built-in device model presets.
+ *
+ * @since 1.1.0
+ */
+export const DEVICE_PRESETS: Readonly<Record<string, DevicePreset>> = {
+  "iphone-14-pro": { platform: "ios", deviceName: "iPhone15,2", osVersions: ["iOS17.6", "iOS18.5", "iOS18.6"] },
+  "iphone-15": { platform: "ios", deviceName: "iPhone15,4", osVersions: ["iOS17.6", "iOS18.5", "iOS18.6"] },
+  "iphone-15-pro": { platform: "ios", deviceName: "iPhone16,1", osVersions: ["iOS17.6", "iOS18.5", "iOS18.6"] },
+  "iphone-16": { platform: "ios", deviceName: "iPhone17,3", osVersions: ["iOS18.5", "iOS18.6"] },
+  "iphone-16-pro": { platform: "ios", deviceName: "iPhone17,1", osVersions: ["iOS18.5", "iOS18.6"] },
+  "pixel-8": { platform: "android", deviceName: "Pixel 8", osVersions: ["Android14", "Android15"] },
+  "pixel-9": { platform: "android", deviceName: "Pixel 9", osVersions: ["Android14", "Android15"] },
+  "galaxy-s24": { platform: "android", deviceName: "SM-S921B", osVersions: ["Android14", "Android15"] },
+  "galaxy-a54": { platform: "android", deviceName: "SM-A546B", osVersions: ["Android13", "Android14", "Android15"] },
+};
+
+/**
+ * A coherent device identity: the `DeviceInfo` sent with every request together with the
+ * User-Agent, platform parameters and push provider that belong to it.
+ *
+ * Profiles are generated from a named preset or a seed, so a fleet of clients can present
+ * consistent fingerprints. Profiles built from custom values can be checked with
+ * {@link validate}, which reports every mismatch between the platform, model, OS version,
+ * app version and User-Agent.
+ *
+ * @example
+ * ```typescript
+ * const profile = DeviceProfile.fromPreset('pixel-8', { deviceId: 'a1b2c3d4-...' });
+ *
+ * const api = new BoltDriverAPI(profile.deviceInfo, authConfig, {
+ *   userAgent: profile.userAgent
+ * });
+ *
+ * // The same seed always yields the same device
+ * const driverDevice = DeviceProfile.fromSeed('driver-42');
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class DeviceProfile {
+  /** Device information sent with every request */
+  readonly deviceInfo: DeviceInfo;
+  /** User-Agent header matching the device */
+  readonly userAgent: string;
+  /** Platform of the device */
+  readonly platform: DevicePlatform;
+  /** Name of the preset the profile was built from, if any */
+  readonly preset: string | undefined;
+
+  private constructor(
+    deviceInfo: DeviceInfo,
+    userAgent: string | undefined,
+    preset: string | undefined
+  ) {
+    this.deviceInfo = { ...deviceInfo };
+    this.platform = deviceInfo.deviceType === "android" ? "android" : "ios";
+    this.preset = preset;
+    this.userAgent = userAgent ?? renderUserAgent(deviceInfo, this.platform);
+  }
+
+  /**
+   * Build a profile from a named preset.
+   *
+   * @param name - Preset name from {@link DEVICE_PRESETS}
+   * @param options - Device ID, OS version and app version overrides
+   * @returns The generated profile
+   * @throws {ValidationError} When the preset is unknown or the overrides do not fit it
+   */
+  static fromPreset(name: string, options: DeviceProfileOptions = {}): DeviceProfile {
+    const preset = DEVICE_PRESETS[name];
+    if (!preset) {
+      throw new ValidationError(`Unknown device preset: ${name}`, 400);
+    }
+
+    const platform = PLATFORM_PROFILES[preset.platform];
+    const deviceInfo: DeviceInfo = {
+      deviceId: options.deviceId ?? formatDeviceId(uuidv4(), preset.platform),
+      deviceType: platform.deviceType,
+      deviceName: preset.deviceName,
+      deviceOsVersion: options.osVersion ?? newest(preset.osVersions),
+      appVersion: options.appVersion ?? newest(Object.keys(platform.appBuilds)),
+    };
+
+    const profile = new DeviceProfile(deviceInfo, undefined, name);
+    profile.assertValid();
+    return profile;
+  }
+
+  /**
+   * Build a profile deterministically from a seed, e.g. a driver or account identifier.
+   *
+   * @param seed - Any string; the same seed always yields the same profile
+   * @param platform - Restrict the choice to one platform
+   * @returns The generated profile
+   */
+  static fromSeed(seed: string, platform?: DevicePlatform): DeviceProfile {
+    const digest = createHash("sha256").update(seed).digest();
+    const names = Object.keys(DEVICE_PRESETS).filter(
+      (name) => !platform || DEVICE_PRESETS[name]?.platform === platform
+    );
+    const name = pick(names, digest[16] ?? 0);
+    const preset = DEVICE_PRESETS[name] as DevicePreset;
+    const appVersions = Object.keys(PLATFORM_PROFILES[preset.platform].appBuilds);
+
+    return DeviceProfile.fromPreset(name, {
+      deviceId: formatDeviceId(uuidv4({ random: digest.subarray(0, 16) }), preset.platform),
+      osVersion: pick(preset.osVersions, digest[17] ?? 0),
+      appVersion: pick(appVersions, digest[18] ?? 0),
+    });
+  }
+
+  /**
+   * Wrap existing device information, generating the matching User-Agent unless one is given.
+   *
+   * The result is not validated; call {@link validate} to check it.
+   *
+   * @param deviceInfo - Device information
+   * @param userAgent - User-Agent header used with the device
+   * @returns The profile
+   */
+  static fromDeviceInfo(deviceInfo: DeviceInfo, userAgent?: string): DeviceProfile {
+    const preset = Object.keys(DEVICE_PRESETS).find(
+      (name) =>
+        DEVICE_PRESETS[name]?.deviceName === deviceInfo.deviceName &&
+        PLATFORM_PROFILES[DEVICE_PRESETS[name].platform].deviceType === deviceInfo.deviceType
+    );
+    return new DeviceProfile(deviceInfo, userAgent, preset);
+  }
+
+  /**
+   * Push notification service the device registers with.
+   *
+   * @returns Push provider
+   */
+  get pushProvider(): PushProvider {
+    return PLATFORM_PROFILES[this.platform].pushProvider;
+  }
+
+  /**
+   * Bundle identifier (iOS) or package name (Android) of the driver app.
+   *
+   * @returns Bundle identifier
+   */
+  get bundleId(): string {
+    return PLATFORM_PROFILES[this.platform].bundleId;
+  }
+
+  /**
+   * Platform-specific query parameters.
+   *
+   * @returns Parameters to merge into requests that need them
+   */
+  getPlatformParams(): PlatformParams {
+    return { app_platform_provider: PLATFORM_PROFILES[this.platform].appPlatformProvider };
+  }
+
+  /**
+   * Check the profile for values that contradict each other.
+   *
+   * @returns Description of every mismatch; empty when the profile is coherent
+   */
+  validate(): string[] {
+    const { deviceName, deviceOsVersion, appVersion } = this.deviceInfo;
+    const platform = PLATFORM_PROFILES[this.platform];
+    const problems: string[] = [];
+
+    if (!deviceOsVersion.startsWith(platform.osVersionPrefix)) {
+      problems.push(`OS version ${deviceOsVersion} does not belong to the ${this.platform} platform`);
+    } else if (!platform.osVersions[deviceOsVersion]) {
+      problems.push(`Unknown ${this.platform} OS version ${deviceOsVersion}`);
+    }
+
+    if (!appVersion.startsWith(platform.appVersionPrefix)) {
+      problems.push(`App version ${appVersion} does not belong to the ${this.platform} app`);
+    } else if (!platform.appBuilds[appVersion]) {
+      problems.push(`Unknown ${this.platform} app version ${appVersion}`);
+    }
+
+    const preset = this.preset ? DEVICE_PRESETS[this.preset] : undefined;
+    if (!preset) {
+      const otherPlatform = Object.values(DEVICE_PRESETS).find(
+        (candidate) => candidate.deviceName === deviceName
+      );
+      problems.push(
+        otherPlatform
+          ? `Device ${deviceName} belongs to the ${otherPlatform.platform} platform`
+          : `Unknown ${this.platform} device ${deviceName}`
+      );
+    } else if (!preset.osVersions.includes(deviceOsVersion)) {
+      problems.push(`Device ${deviceName} does not run ${deviceOsVersion}`);
+    }
+
+    if (problems.length === 0 && this.userAgent !== renderUserAgent(this.deviceInfo, this.platform)) {
+      problems.push(`User-Agent does not match ${deviceName} on ${deviceOsVersion} with ${appVersion}`);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Throw when the profile is not coherent.
+   *
+   * @throws {ValidationError} Listing every mismatch found by {@link validate}
+   */
+  assertValid(): void {
+    const problems = this.validate();
+    if (problems.length > 0) {
+      throw new ValidationError(`Inconsistent device profile: ${problems.join("; ")}`, 400, problems);
+    }
+  }
+}
+
+/**
+ * Fill the platform's User-Agent template. Unknown OS or app versions fall back to the
+ * newest known tokens so a header is always produced.
+ */
+function renderUserAgent(deviceInfo: DeviceInfo, platform: DevicePlatform): string {
+  const profile = PLATFORM_PROFILES[platform];
+  const osTokens =
+    profile.osVersions[deviceInfo.deviceOsVersion] ??
+    profile.osVersions[newest(Object.keys(profile.osVersions))];
+  const buildNumber =
+    profile.appBuilds[deviceInfo.appVersion] ??
+    profile.appBuilds[newest(Object.keys(profile.appBuilds))];
+
+  const tokens: Record<string, string | undefined> = {
+    ...osTokens,
+    buildNumber,
+    appVersion: deviceInfo.appVersion,
+    deviceName: deviceInfo.deviceName,
+  };
+
+  return profile.userAgentTemplate.replace(/\{(\w+)\}/g, (match, key: string) => tokens[key] ?? match);
+}
+
+function formatDeviceId(uuid: string, platform: DevicePlatform): string {
+  // iOS identifierForVendor values are upper-case
+  return platform === "ios" ? uuid.toUpperCase() : uuid;
+}
+
+function newest(versions: string[]): string {
+  return versions[versions.length - 1] as string;
+}
+
+function pick<T>(items: T[], byte: number): T {
+  return items[byte % items.length] as T;
+}
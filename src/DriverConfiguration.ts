@@ -0,0 +1,179 @@
+import { DriverConfiguration, ParsedCarName } from "./types";
+
+/**
+ * Body of the getLoggedInDriverConfiguration response, as far as the SDK reads it
+ */
+export interface DriverConfigurationPayload {
+  user?: {
+    id?: number;
+    partner_id?: number;
+    company_id?: number;
+    company_city_id?: number;
+    name?: string;
+    username?: string;
+    phone?: string;
+    country?: string;
+    city_name?: string;
+  };
+  car?: {
+    selected_car_id?: number;
+    selected_car_name?: string;
+  };
+  app?: Record<string, unknown>;
+  features?: Record<string, unknown>;
+}
+
+/** Driver identifiers taken from the access token */
+interface TokenDriverInfo {
+  driverId: number;
+  partnerId: number;
+  companyId: number;
+  companyCityId: number;
+}
+
+/** Makes spelled as more than one word; any other make is the first word of the name */
+const MULTI_WORD_MAKES = ["Alfa Romeo", "Aston Martin", "Great Wall", "Land Rover", "Lynk & Co", "Rolls Royce"];
+
+/** Makes written in capitals, which would otherwise pass for licence plates */
+const CAPITALIZED_MAKES = ["BMW", "BYD", "DS", "GAC", "GMC", "JAC", "KIA", "MG", "SEAT", "VW"];
+
+/** Bullets, pipes, commas, parentheses and spaced dashes */
+const SEPARATOR = /\s*(?:[•·|,()]|\s[-–]\s)\s*/;
+
+const YEAR = /^(?:19|20)\d{2}$/;
+
+/**
+ * Split a vehicle name into make, model, licence plate and year.
+ *
+ * The app shows the selected car as one string whose layout differs by country:
+ * `"WA 12345 • Toyota Prius"`, `"Toyota Prius • WA12345"`, `"Škoda Octavia (ABC-123)"`,
+ * `"Toyota Corolla, 2019 - KDA 123A"` or just `"Toyota Prius WA12345"`. Parts that cannot
+ * be recognized are left out rather than guessed.
+ *
+ * @param name - Vehicle name, e.g. `selected_car_name`
+ * @returns The recognized parts
+ *
+ * @example
+ * ```typescript
+ * parseCarName('WA 12345 • Toyota Prius');
+ * // { make: 'Toyota', model: 'Prius', licensePlate: 'WA 12345' }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export function parseCarName(name: string): ParsedCarName {
+  const parsed: ParsedCarName = {};
+  const vehicle: string[] = [];
+
+  for (const segment of name.trim().replace(/\s+/g, " ").split(SEPARATOR)) {
+    if (!segment) {
+      continue;
+    }
+    if (parsed.year === undefined && YEAR.test(segment)) {
+      parsed.year = Number(segment);
+    } else if (parsed.licensePlate === undefined && isLicensePlate(segment)) {
+      parsed.licensePlate = segment;
+    } else {
+      vehicle.push(segment);
+    }
+  }
+
+  const words = vehicle[0]?.split(" ") ?? [];
+  // Without separators the year and plate follow the model
+  if (vehicle.length === 1) {
+    const plate = parsed.licensePlate === undefined ? takeTrailingPlate(words) : undefined;
+    if (plate) {
+      parsed.licensePlate = plate;
+    }
+    if (parsed.year === undefined && words.length > 1 && YEAR.test(words[words.length - 1] ?? "")) {
+      parsed.year = Number(words.pop());
+    }
+  }
+
+  const make = MULTI_WORD_MAKES.find((candidate) =>
+    `${words.join(" ")} `.toLowerCase().startsWith(`${candidate.toLowerCase()} `)
+  );
+  const makeLength = make ? make.split(" ").length : 1;
+  if (words.length > 0) {
+    parsed.make = words.slice(0, makeLength).join(" ");
+  }
+  if (words.length > makeLength) {
+    parsed.model = words.slice(makeLength).join(" ");
+  }
+  return parsed;
+}
+
+/**
+ * Assemble the driver configuration from the configuration endpoint's payload, falling
+ * back to the identifiers in the access token.
+ *
+ * @param payload - Configuration payload, if the endpoint answered
+ * @param driver - Identifiers from the access token, if logged in
+ * @returns The configuration, with fields neither source provides left out
+ */
+export function buildDriverConfiguration(
+  payload: DriverConfigurationPayload | undefined,
+  driver: TokenDriverInfo | undefined
+): DriverConfiguration {
+  const user = payload?.user;
+  const car = payload?.car;
+  const [firstName, ...lastName] = user?.name?.trim().split(/\s+/) ?? [];
+  const driverId = user?.id ?? driver?.driverId;
+  const partnerId = user?.partner_id ?? driver?.partnerId;
+  const companyId = user?.company_id ?? driver?.companyId;
+  const companyCityId = user?.company_city_id ?? driver?.companyCityId;
+  const carName = car?.selected_car_name ? parseCarName(car.selected_car_name) : {};
+
+  return {
+    dataSource: payload ? "api" : driver ? "jwt" : "none",
+    driver_info: {
+      ...(driverId !== undefined && { driver_id: driverId }),
+      ...(partnerId !== undefined && { partner_id: partnerId }),
+      ...(companyId !== undefined && { company_id: companyId }),
+      ...(companyCityId !== undefined && { company_city_id: companyCityId }),
+      ...(firstName && { first_name: firstName }),
+      ...(lastName.length > 0 && { last_name: lastName.join(" ") }),
+      ...(user?.username && { email: user.username }),
+      ...(user?.phone && { phone: user.phone }),
+    },
+    company_info: {
+      ...(user?.country && { country: user.country }),
+      ...(user?.city_name && { city: user.city_name }),
+    },
+    vehicle_info: {
+      ...(car?.selected_car_id !== undefined && { selected_car_id: car.selected_car_id }),
+      ...(car?.selected_car_name && { selected_car_name: car.selected_car_name }),
+      ...(carName.make && { make: carName.make }),
+      ...(carName.model && { model: carName.model }),
+      ...(carName.licensePlate && { license_plate: carName.licensePlate }),
+      ...(carName.year !== undefined && { year: carName.year }),
+    },
+    app_config: payload?.app ?? {},
+    features: payload?.features ?? {},
+  };
+}
+
+function isLicensePlate(segment: string): boolean {
+  const compact = segment.replace(/[\s-]/g, "");
+  const digits = compact.replace(/\D/g, "").length;
+  return (
+    /^[A-Z0-9]{5,10}$/.test(compact) &&
+    /[A-Z]/.test(compact) &&
+    digits >= 2 &&
+    segment.split(/[\s-]/).length <= 3 &&
+    !CAPITALIZED_MAKES.includes(segment.split(" ")[0] ?? "")
+  );
+}
+
+/** Remove a plate such as `WA12345` or `WA 12345` from the end of the words */
+function takeTrailingPlate(words: string[]): string | undefined {
+  const last = words[words.length - 1] ?? "";
+  const previous = words[words.length - 2] ?? "";
+  if (words.length > 2 && /^[A-Z]{1,3}$/.test(previous) && /^\d[0-9A-Z]{3,}$/.test(last)) {
+    return words.splice(-2).join(" ");
+  }
+  if (words.length > 1 && isLicensePlate(last)) {
+    return words.splice(-1)[0];
+  }
+  return undefined;
+}
@@ -0,0 +1,323 @@
+import { EndpointDefinition } from "./types";
+
+/**
+ * Catalogue of every Bolt API endpoint used by the SDK.
+ *
+ * Each entry describes an endpoint once: where it lives, how it is called and how its
+ * response is returned. {@link BoltDriverAPI} executes the entries through a single
+ * request path, so token validation, parameter building, retries, response parsing and
+ * error wrapping behave the same for every method.
+ *
+ * Adding an endpoint is a new entry here plus a thin public method:
+ *
+ * @example
+ * ```typescript
+ * // In ENDPOINTS
+ * getWeeklyGoals: {
+ *   host: 'partnerDriver',
+ *   path: '/getWeeklyGoals',
+ *   method: 'GET',
+ *   requiresGps: true,
+ *   requiresAuth: true,
+ *   responseType: 'data',
+ *   description: 'get weekly goals'
+ * },
+ *
+ * // In BoltDriverAPI
+ * async getWeeklyGoals(gpsInfo: GpsInfo, options?: RequestOptions): Promise<WeeklyGoals> {
+ *   return this.request<WeeklyGoals>('getWeeklyGoals', { gpsInfo }, options);
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export const ENDPOINTS = {
+  // Authentication
+  startAuthentication: {
+    host: "auth",
+    path: "/startAuthentication",
+    method: "POST",
+    requiresGps: false,
+    requiresAuth: false,
+    responseType: "envelope",
+    description: "start authentication",
+  },
+  confirmAuthentication: {
+    host: "auth",
+    path: "/v2/confirmAuthentication",
+    method: "POST",
+    requiresGps: false,
+    requiresAuth: false,
+    responseType: "envelope",
+    description: "confirm authentication",
+  },
+  sendMagicLink: {
+    host: "driver",
+    path: "/driver/sendMagicLink",
+    method: "POST",
+    requiresGps: false,
+    requiresAuth: false,
+    responseType: "envelope",
+    description: "send magic link",
+  },
+  authenticateWithMagicLink: {
+    host: "driver",
+    path: "/driver/authenticateWithMagicLink",
+    method: "POST",
+    requiresGps: true,
+    requiresAuth: false,
+    responseType: "envelope",
+    description: "authenticate with magic link",
+  },
+  getAccessToken: {
+    host: "partnerDriver",
+    path: "/getAccessToken",
+    method: "POST",
+    requiresGps: false,
+    requiresAuth: false,
+    responseType: "envelope",
+    description: "get access token",
+  },
+  exchangeRefreshTokenForJWT: {
+    host: "driver",
+    path: "/driver/getAccessToken",
+    method: "POST",
+    requiresGps: true,
+    requiresAuth: false,
+    responseType: "envelope",
+    description: "exchange refresh token for JWT",
+  },
+
+  // Driver state
+  getDriverState: {
+    host: "company",
+    path: "/polling/driver",
+    method: "POST",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    idempotent: true,
+    description: "get driver state",
+  },
+  getDriverHomeScreen: {
+    host: "company",
+    path: "/orderDriver/v1/getDriverHomeScreen",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get driver home screen",
+  },
+  getWorkingTimeInfo: {
+    host: "driver",
+    path: "/driver/v2/getWorkingTimeInfo",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get working time info",
+  },
+  getDispatchPreferences: {
+    host: "company",
+    path: "/dispatchPref/v1/getSettings",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get dispatch preferences",
+  },
+  getLoggedInDriverConfiguration: {
+    host: "driver",
+    path: "/driver/getLoggedInDriverConfigurationV2",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "envelope",
+    description: "get driver configuration",
+  },
+  getDriverNavBarBadges: {
+    host: "driver",
+    path: "/driver/getDriverNavBarBadges",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get navigation bar badges",
+  },
+  getDriverSidebar: {
+    host: "partnerDriver",
+    path: "/getDriverSidebar",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get driver sidebar",
+  },
+  getModal: {
+    host: "partnerDriver",
+    path: "/modal",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get modal information",
+  },
+  getDriverPhoneDetails: {
+    host: "partnerDriver",
+    path: "/driverPhoneDetails",
+    method: "POST",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "envelope",
+    idempotent: true,
+    description: "get driver phone details",
+  },
+  setDeviceToken: {
+    host: "partnerDriver",
+    path: "/setDeviceToken",
+    method: "POST",
+    requiresGps: false,
+    requiresAuth: true,
+    responseType: "envelope",
+    description: "set device token",
+  },
+  storeDriverInfo: {
+    host: "partnerDriver",
+    path: "/store",
+    method: "POST",
+    requiresGps: false,
+    requiresAuth: true,
+    responseType: "envelope",
+    description: "store driver info",
+  },
+  updatePushProfile: {
+    host: "sinch",
+    path: "/ocra/v1/users/{userId}/instances/{instanceId}/pushProfile",
+    method: "PUT",
+    requiresGps: false,
+    requiresAuth: false,
+    responseType: "envelope",
+    description: "update push profile",
+  },
+
+  // Rides
+  getScheduledRideRequests: {
+    host: "company",
+    path: "/orderDriver/v1/getScheduledRideRequests",
+    method: "POST",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    idempotent: true,
+    description: "get scheduled ride requests",
+  },
+  getActivityRides: {
+    host: "company",
+    path: "/orderDriver/getActivityRides",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get activity rides",
+  },
+  getOrderHistoryPaginated: {
+    host: "driver",
+    path: "/orderDriver/v1/getOrderHistoryPaginated",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get order history",
+  },
+  getRideDetails: {
+    host: "partnerDriver",
+    path: "/getOrderDetails",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get ride details",
+  },
+
+  // Earnings
+  getEarningLandingScreen: {
+    host: "driver",
+    path: "/driver/v2/getEarningLandingScreen",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get earnings landing screen",
+  },
+  getEarnMoreDetails: {
+    host: "partnerDriver",
+    path: "/getEarnMoreDetails",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get earn more details",
+  },
+  getScoreOverview: {
+    host: "partnerDriver",
+    path: "/getScoreOverview",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get score overview",
+  },
+
+  // Navigation & maps
+  getMapsConfigs: {
+    host: "company",
+    path: "/orderDriver/v1/getMapsConfigs",
+    method: "POST",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    idempotent: true,
+    description: "get maps configs",
+  },
+  getMapTile: {
+    host: "partnerDriver",
+    path: "/v2/getTile",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "binary",
+    description: "get map tile",
+  },
+  getOtherActiveDrivers: {
+    host: "search",
+    path: "/search/driver/getOtherActiveDrivers",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get other active drivers",
+  },
+
+  // Support
+  getHelpDetails: {
+    host: "driver",
+    path: "/driver/getHelpDetails",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "data",
+    description: "get help details",
+  },
+  getEmergencyAssistProvider: {
+    host: "partnerDriver",
+    path: "/safety/emergencyAssist/getExternalHelpProvider",
+    method: "GET",
+    requiresGps: true,
+    requiresAuth: true,
+    responseType: "envelope",
+    description: "get emergency assist provider",
+  },
+} satisfies Record<string, EndpointDefinition>;
+
+/** Name of an endpoint in {@link ENDPOINTS} */
+export type EndpointName = keyof typeof ENDPOINTS;
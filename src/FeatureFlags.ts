@@ -0,0 +1,224 @@
+import { EventEmitter } from "events";
+import { BoltDriverAPI } from "./BoltDriverAPI";
+import { DriverConfiguration, FeatureFlagChange, FeatureFlagsEvents, FeatureFlagsOptions } from "./types";
+
+const SOURCES = ["features", "app_config"] as const;
+
+const ENABLED_STRINGS = ["true", "1", "on", "yes", "enabled"];
+
+/**
+ * Cached view of the `features` and `app_config` blocks of the driver configuration.
+ *
+ * Flags are looked up in `features` first, then in `app_config`; nested values are
+ * addressed with dotted names. After `start()` the configuration is re-fetched on an
+ * interval and a `change` event is emitted for every flag that was added, removed or
+ * changed its value, so tooling can react when Bolt enables something for the account.
+ * Failed fetches are reported instead of falling back to the token identifiers, and keep
+ * the cached flags. Polling stops when the client is disposed.
+ *
+ * @example
+ * ```typescript
+ * const flags = new FeatureFlags(api, { refreshIntervalMs: 60_000 });
+ * flags.on('change', ({ name, enabled }) => console.log(`${name} is now ${enabled ? 'on' : 'off'}`));
+ * await flags.start();
+ *
+ * if (flags.isEnabled('scheduled_rides')) {
+ *   const pollInterval = flags.getValue('polling.interval_sec', 10);
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class FeatureFlags {
+  private readonly events = new EventEmitter();
+  private readonly refreshIntervalMs: number;
+  private blocks: Pick<DriverConfiguration, (typeof SOURCES)[number]> | undefined;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private updatedAt: Date | undefined;
+
+  /**
+   * Creates a new FeatureFlags cache. Nothing is fetched until `refresh()` or `start()`.
+   *
+   * @param api - Client used to fetch the driver configuration
+   * @param options - Refresh settings
+   */
+  constructor(
+    private readonly api: Pick<BoltDriverAPI, "getLoggedInDriverConfiguration"> & Partial<Pick<BoltDriverAPI, "on">>,
+    options: FeatureFlagsOptions = {}
+  ) {
+    this.refreshIntervalMs = options.refreshIntervalMs ?? 300000;
+    api.on?.("disposed", () => this.stop());
+  }
+
+  /**
+   * Fetch the configuration now and update the cache.
+   *
+   * @returns The flags that changed; empty on the first fetch and when the client is not logged in
+   * @throws {BoltApiError} When the configuration cannot be fetched
+   */
+  async refresh(): Promise<FeatureFlagChange[]> {
+    const config = await this.api.getLoggedInDriverConfiguration({ strict: true });
+    if (config.dataSource !== "api") {
+      return [];
+    }
+
+    const previous = this.blocks;
+    this.blocks = { features: config.features, app_config: config.app_config };
+    this.updatedAt = new Date();
+    if (!previous) {
+      return [];
+    }
+
+    const changes: FeatureFlagChange[] = [];
+    for (const source of SOURCES) {
+      const before = previous[source];
+      const after = this.blocks[source];
+      for (const name of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (JSON.stringify(before[name]) === JSON.stringify(after[name])) {
+          continue;
+        }
+        changes.push({
+          name,
+          source,
+          ...(name in before && { previous: before[name] }),
+          ...(name in after && { current: after[name] }),
+          enabled: isEnabledValue(after[name]),
+        });
+      }
+    }
+    for (const change of changes) {
+      this.events.emit("change", change);
+    }
+    return changes;
+  }
+
+  /**
+   * Fetch the configuration and keep re-fetching it on the configured interval.
+   * Failures of scheduled fetches are emitted as `refreshError`.
+   *
+   * @returns Resolves after the first fetch
+   * @throws {BoltApiError} When the first fetch fails; the interval is not started
+   */
+  async start(): Promise<void> {
+    this.stop();
+    await this.refresh();
+    this.timer = setInterval(() => {
+      this.refresh().catch((error: unknown) => this.events.emit("refreshError", error));
+    }, this.refreshIntervalMs);
+    // Polling flags should not keep the process alive
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop re-fetching. The cached flags stay available.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Whether a flag is on. `true`, non-zero numbers, strings such as `"true"`, `"on"` or
+   * `"enabled"`, and objects with `enabled: true` or `is_enabled: true` count as on;
+   * anything else, including unknown flags, as off.
+   *
+   * @param name - Flag name, dotted for nested values
+   * @returns True if the flag is enabled
+   */
+  isEnabled(name: string): boolean {
+    return isEnabledValue(this.lookup(name));
+  }
+
+  /**
+   * Get a flag or setting, falling back to a default when it is absent or of another type
+   * than the default.
+   *
+   * @param name - Flag name, dotted for nested values
+   * @param defaultValue - Value returned when the flag is missing or mistyped
+   * @returns The flag's value
+   */
+  getValue<T extends string | number | boolean | object>(name: string, defaultValue: T): T {
+    const value = this.lookup(name);
+    if (value === undefined || value === null || typeOf(value) !== typeOf(defaultValue)) {
+      return defaultValue;
+    }
+    return value as T;
+  }
+
+  /**
+   * Whether a flag or setting is present.
+   *
+   * @param name - Flag name, dotted for nested values
+   * @returns True if the flag exists
+   */
+  has(name: string): boolean {
+    return this.lookup(name) !== undefined;
+  }
+
+  /**
+   * Time of the last fetch that returned flags, if any.
+   *
+   * @returns Date of the last update
+   */
+  getLastUpdated(): Date | undefined {
+    return this.updatedAt;
+  }
+
+  /**
+   * Register a listener for a flag event
+   * @param event - Event name (e.g. 'change')
+   * @param listener - Listener invoked with the event payload
+   * @returns This instance, for chaining
+   */
+  on<K extends keyof FeatureFlagsEvents>(event: K, listener: FeatureFlagsEvents[K]): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener previously registered with {@link on}
+   * @param event - Event name
+   * @param listener - Listener to remove
+   * @returns This instance, for chaining
+   */
+  off<K extends keyof FeatureFlagsEvents>(event: K, listener: FeatureFlagsEvents[K]): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  private lookup(name: string): unknown {
+    for (const source of SOURCES) {
+      let value: unknown = this.blocks?.[source];
+      for (const key of name.split(".")) {
+        value = typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+      }
+      if (value !== undefined) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+}
+
+function isEnabledValue(value: unknown): boolean {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return value !== 0;
+  }
+  if (typeof value === "string") {
+    return ENABLED_STRINGS.includes(value.toLowerCase());
+  }
+  if (typeof value === "object" && value !== null) {
+    const flag = value as { enabled?: unknown; is_enabled?: unknown };
+    return flag.enabled === true || flag.is_enabled === true;
+  }
+  return false;
+}
+
+function typeOf(value: unknown): string {
+  return Array.isArray(value) ? "array" : typeof value;
+}
@@ -0,0 +1,282 @@
+import { promises as fs } from "fs";
+import { STATUS_CODES } from "http";
+import { buildUrl } from "./Transport";
+import {
+  TrafficRecorder,
+  TransportMiddleware,
+  TransportRequest,
+  TransportResponse,
+  HarRecorderOptions,
+  HarCreator,
+  HarEntry,
+  HarLog,
+  HarNameValue,
+  HarRequest,
+  HarResponse,
+} from "./types";
+
+/** Placeholder written instead of redacted values */
+export const REDACTED = "[REDACTED]";
+
+/** Header, query and body fields whose values are always redacted */
+const SENSITIVE_FIELDS = [
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "phone",
+  "phone_number",
+  "email",
+  "token",
+  "access_token",
+  "refresh_token",
+  "verification_token",
+  "verification_code",
+  "device_token",
+  "magic_link_token",
+];
+
+/** Values redacted wherever they appear: JWTs, emails and international phone numbers */
+const SENSITIVE_VALUES = [
+  /eyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi,
+  /\+\d[\d -]{6,}\d/g,
+];
+
+/**
+ * Records the SDK's traffic as a HAR 1.2 log, e.g. to diff its behavior against captures
+ * of the official app in a HAR viewer or with any HAR tooling.
+ *
+ * Every request is recorded as sent over the transport, including the magic link and
+ * Sinch requests, with its headers, query string, body, response and timing. Tokens, phone
+ * numbers and emails are redacted unless `redact` is false.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new HarRecorder();
+ * const api = new BoltDriverAPI(deviceInfo, authConfig, { recorder });
+ *
+ * await api.getDriverState(gpsInfo);
+ * await recorder.save('./bolt-sdk.har');
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class HarRecorder implements TrafficRecorder {
+  /** Recorded entries, oldest first */
+  public readonly entries: HarEntry[] = [];
+  private readonly redact: boolean;
+  private readonly sensitiveFields: Set<string>;
+  private readonly creator: HarCreator;
+
+  /**
+   * Creates a new HarRecorder.
+   *
+   * @param options - Redaction settings and the creator written to the log
+   */
+  constructor(options: HarRecorderOptions = {}) {
+    this.redact = options.redact ?? true;
+    this.sensitiveFields = new Set(
+      [...SENSITIVE_FIELDS, ...(options.redactFields ?? [])].map((name) => name.toLowerCase())
+    );
+    this.creator = options.creator ?? { name: "bolt-driver-api", version: "1.1.0" };
+  }
+
+  /**
+   * Middleware recording the request it passes on and the response or failure it gets back.
+   */
+  readonly record: TransportMiddleware = async (request, next) => {
+    const startedAt = new Date();
+    const startTime = Date.now();
+    try {
+      const response = await next(request);
+      this.entries.push(this.createEntry(request, startedAt, Date.now() - startTime, response));
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.entries.push(this.createEntry(request, startedAt, Date.now() - startTime, undefined, message));
+      throw error;
+    }
+  };
+
+  /**
+   * Build the HAR document of everything recorded so far.
+   *
+   * @returns HAR 1.2 log
+   */
+  toHar(): HarLog {
+    return {
+      log: {
+        version: "1.2",
+        creator: this.creator,
+        entries: [...this.entries],
+      },
+    };
+  }
+
+  /**
+   * Write the HAR document to a file.
+   *
+   * @param path - Destination file, conventionally with a `.har` extension
+   */
+  async save(path: string): Promise<void> {
+    await fs.writeFile(path, JSON.stringify(this.toHar(), null, 2), "utf8");
+  }
+
+  /**
+   * Discard all recorded entries.
+   */
+  clear(): void {
+    this.entries.length = 0;
+  }
+
+  private createEntry(
+    request: TransportRequest,
+    startedAt: Date,
+    time: number,
+    response: TransportResponse | undefined,
+    error?: string
+  ): HarEntry {
+    const entry: HarEntry = {
+      startedDateTime: startedAt.toISOString(),
+      time,
+      request: this.createRequest(request),
+      response: response ? this.createResponse(response) : emptyResponse(),
+      cache: {},
+      // Only the total is known; it is reported as waiting time
+      timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: time, receive: 0 },
+    };
+    if (request.endpoint) {
+      entry._endpoint = request.endpoint;
+    }
+    if (error !== undefined) {
+      entry._error = this.redactText(error);
+    }
+    return entry;
+  }
+
+  private createRequest(request: TransportRequest): HarRequest {
+    const params = request.params ? (this.redactValue(request.params) as object) : undefined;
+    const harRequest: HarRequest = {
+      method: request.method,
+      url: this.redactText(buildUrl(request.url, params)),
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: this.createHeaders(request.headers),
+      queryString: toHarQueryString(params),
+      headersSize: -1,
+      bodySize: 0,
+    };
+    if (request.method !== "GET") {
+      const text = JSON.stringify(this.redactValue(request.data ?? {}));
+      harRequest.postData = { mimeType: "application/json", text };
+      harRequest.bodySize = Buffer.byteLength(text);
+    }
+    return harRequest;
+  }
+
+  private createResponse(response: TransportResponse): HarResponse {
+    const mimeType = response.headers["content-type"] ?? "application/json";
+    let content: HarResponse["content"];
+    // Binary bodies arrive as an ArrayBuffer (fetch) or as a Buffer (axios on Node.js)
+    const { data: body } = response;
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+      const bytes = body instanceof ArrayBuffer ? Buffer.from(body) : Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+      content = {
+        size: bytes.byteLength,
+        mimeType,
+        text: bytes.toString("base64"),
+        encoding: "base64",
+      };
+    } else {
+      const data = this.redactValue(response.data);
+      const text = typeof data === "string" ? data : JSON.stringify(data) ?? "";
+      content = { size: Buffer.byteLength(text), mimeType, text };
+    }
+
+    return {
+      status: response.status,
+      statusText: STATUS_CODES[response.status] ?? "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: this.createHeaders(response.headers),
+      content,
+      redirectURL: response.headers["location"] ?? "",
+      headersSize: -1,
+      bodySize: content.size,
+    };
+  }
+
+  private createHeaders(headers: Record<string, string>): HarNameValue[] {
+    return Object.entries(headers).map(([name, value]) => ({
+      name,
+      value: this.isSensitive(name) ? REDACTED : this.redactText(value),
+    }));
+  }
+
+  /**
+   * Copy a query, body or response value with sensitive fields and values redacted
+   * @private
+   */
+  private redactValue(value: unknown, field?: string): unknown {
+    if (!this.redact) {
+      return value;
+    }
+    if (field !== undefined && this.isSensitive(field) && value !== null && typeof value !== "object") {
+      return REDACTED;
+    }
+    if (typeof value === "string") {
+      return this.redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, field));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, this.redactValue(item, name)])
+      );
+    }
+    return value;
+  }
+
+  private redactText(text: string): string {
+    if (!this.redact) {
+      return text;
+    }
+    return SENSITIVE_VALUES.reduce((redacted, pattern) => redacted.replace(pattern, REDACTED), text);
+  }
+
+  private isSensitive(name: string): boolean {
+    return this.redact && this.sensitiveFields.has(name.toLowerCase());
+  }
+}
+
+/** List query parameters as HAR name/value pairs, serialized the way they are sent */
+export function toHarQueryString(params: object | undefined): HarNameValue[] {
+  const queryString: HarNameValue[] = [];
+  for (const [name, value] of Object.entries(params ?? {})) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((item) => queryString.push({ name: `${name}[]`, value: String(item) }));
+    } else {
+      queryString.push({ name, value: String(value) });
+    }
+  }
+  return queryString;
+}
+
+/** Response recorded for requests that never got one */
+function emptyResponse(): HarResponse {
+  return {
+    status: 0,
+    statusText: "",
+    httpVersion: "",
+    cookies: [],
+    headers: [],
+    content: { size: 0, mimeType: "x-unknown" },
+    redirectURL: "",
+    headersSize: -1,
+    bodySize: -1,
+  };
+}
@@ -0,0 +1,168 @@
+import { readFileSync } from "fs";
+import { REDACTED, toHarQueryString } from "./HarRecorder";
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  HarReplayOptions,
+  HarEntry,
+  HarLog,
+  HarNameValue,
+  BoltApiError,
+  RequestAbortedError,
+  UnmatchedRequestError,
+} from "./types";
+
+/** Query parameters that change with every request and are not compared by default */
+const VOLATILE_QUERY = ["gps_timestamp", "session_id"];
+
+/**
+ * Transport serving responses from a HAR file instead of the network, for offline
+ * development and regression tests against recorded traffic.
+ *
+ * Requests are matched on the method, the URL path and the query parameters, except
+ * volatile ones like `gps_timestamp` and `session_id`; hosts are not compared. Recorded
+ * values redacted by {@link HarRecorder} match any value. When several entries match, they
+ * are served in recorded order and the last one is repeated. Requests without a match are
+ * collected in `unmatched` and rejected with {@link UnmatchedRequestError}.
+ *
+ * @example
+ * ```typescript
+ * const transport = HarReplayTransport.fromFile('./recordings/driver-shift.har', {
+ *   matchQuery: ['version', 'order_id']
+ * });
+ * const api = new BoltDriverAPI(deviceInfo, authConfig, { transport });
+ *
+ * await api.getDriverState(gpsInfo); // Recorded response
+ * transport.unmatched; // Requests the recording had no answer for
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class HarReplayTransport implements Transport {
+  /** Requests that had no recorded match, oldest first */
+  public readonly unmatched: TransportRequest[] = [];
+  private readonly entries: HarEntry[];
+  private readonly options: HarReplayOptions;
+  private readonly ignoredQuery: Set<string>;
+  /** Entries already served */
+  private readonly served = new Set<HarEntry>();
+
+  /**
+   * Creates a new HarReplayTransport.
+   *
+   * @param har - Recorded HAR log
+   * @param options - Matching settings
+   */
+  constructor(har: HarLog, options: HarReplayOptions = {}) {
+    this.entries = har.log.entries;
+    this.options = options;
+    this.ignoredQuery = new Set(options.ignoreQuery ?? VOLATILE_QUERY);
+  }
+
+  /**
+   * Create a replay transport from a HAR file.
+   *
+   * @param path - Path of the HAR file
+   * @param options - Matching settings
+   * @returns Transport serving the file's responses
+   */
+  static fromFile(path: string, options: HarReplayOptions = {}): HarReplayTransport {
+    return new HarReplayTransport(JSON.parse(readFileSync(path, "utf8")) as HarLog, options);
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    if (request.signal?.aborted) {
+      throw new RequestAbortedError();
+    }
+
+    const candidates = this.entries.filter((entry) => this.matches(entry, request));
+    const entry =
+      candidates.find((candidate) => !this.served.has(candidate)) ?? candidates[candidates.length - 1];
+    if (!entry) {
+      this.unmatched.push(request);
+      const message = `No recorded response for ${request.method} ${request.url}`;
+      if (this.options.strict ?? true) {
+        throw new UnmatchedRequestError(message, request);
+      }
+      return { status: 404, headers: {}, data: { code: 404, message } as T };
+    }
+    this.served.add(entry);
+
+    // Recorded failures without a response are replayed as network errors
+    if (entry.response.status === 0) {
+      throw new BoltApiError(entry._error ?? "Network error: no recorded response", 0);
+    }
+    return toTransportResponse<T>(entry, request);
+  }
+
+  private matches(entry: HarEntry, request: TransportRequest): boolean {
+    if (entry.request.method !== request.method) {
+      return false;
+    }
+    const recordedUrl = new URL(entry.request.url, "http://localhost");
+    if (recordedUrl.pathname !== new URL(request.url, "http://localhost").pathname) {
+      return false;
+    }
+
+    const recorded = this.comparedQuery(
+      entry.request.queryString.length > 0 ? entry.request.queryString : searchParams(recordedUrl)
+    );
+    const actual = this.comparedQuery(toHarQueryString(request.params));
+    if (recorded.size !== actual.size) {
+      return false;
+    }
+    for (const [name, value] of recorded) {
+      const actualValue = actual.get(name);
+      if (actualValue === undefined || (value !== actualValue && !value.includes(REDACTED))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Query parameters taking part in matching, by name
+   * @private
+   */
+  private comparedQuery(query: HarNameValue[]): Map<string, string> {
+    const compared = new Map<string, string>();
+    for (const { name, value } of query) {
+      const key = name.replace(/\[\]$/, "");
+      if (this.options.matchQuery ? !this.options.matchQuery.includes(key) : this.ignoredQuery.has(key)) {
+        continue;
+      }
+      const previous = compared.get(name);
+      compared.set(name, previous === undefined ? value : `${previous},${value}`);
+    }
+    return compared;
+  }
+}
+
+function searchParams(url: URL): HarNameValue[] {
+  return [...url.searchParams].map(([name, value]) => ({ name, value }));
+}
+
+function toTransportResponse<T>(entry: HarEntry, request: TransportRequest): TransportResponse<T> {
+  const headers: Record<string, string> = {};
+  for (const { name, value } of entry.response.headers) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  const { text = "", encoding } = entry.response.content;
+  let data: unknown;
+  if (encoding === "base64") {
+    const bytes = Buffer.from(text, "base64");
+    data =
+      request.responseType === "arraybuffer"
+        ? bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+        : bytes.toString("utf8");
+  } else {
+    try {
+      data = text ? JSON.parse(text) : text;
+    } catch {
+      data = text;
+    }
+  }
+  return { status: entry.response.status, headers, data: data as T };
+}
@@ -0,0 +1,114 @@
+import { EndpointHost, HostMap, HostRegistryOptions } from "./types";
+
+/** Region used when none is configured */
+const DEFAULT_REGION = "europe";
+
+/**
+ * Built-in base URLs of every named host.
+ *
+ * @since 1.1.0
+ */
+export const DEFAULT_HOSTS: Readonly<HostMap> = {
+  auth: "https://partnerdriver.live.boltsvc.net/partnerDriver",
+  partnerDriver: "https://partnerdriver.live.boltsvc.net/partnerDriver",
+  driver: "https://driver.live.boltsvc.net",
+  company: "https://europe-company.taxify.eu",
+  search: "https://node.bolt.eu",
+  sinch: "https://ocra-bolt.api.sinch.com",
+};
+
+/**
+ * Registry of the named hosts the SDK talks to.
+ *
+ * Every endpoint in {@link ENDPOINTS} names its host instead of hard-coding a URL, so the
+ * whole SDK can be pointed at a staging environment or a local stand-in by overriding
+ * hosts in {@link BoltApiConfig.hosts}.
+ *
+ * @example
+ * ```typescript
+ * const registry = new HostRegistry({
+ *   country: 'pl',
+ *   regionHosts: { pl: { search: 'https://search.staging.example.com' } },
+ *   hosts: { driver: 'http://localhost:8080' }
+ * });
+ *
+ * registry.resolve('driver');  // 'http://localhost:8080'
+ * registry.resolve('search');  // 'https://search.staging.example.com'
+ * registry.resolve('company'); // 'https://europe-company.taxify.eu'
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class HostRegistry {
+  private hosts: HostMap;
+  private readonly region: string;
+
+  /**
+   * Creates a new HostRegistry.
+   *
+   * @param options - Overrides, and the region and country used to pick `regionHosts` entries
+   */
+  constructor(options: HostRegistryOptions = {}) {
+    this.region = options.region ?? DEFAULT_REGION;
+
+    const regionHosts = options.regionHosts ?? {};
+    const country = options.country?.toLowerCase();
+
+    this.hosts = normalizeHosts({
+      ...DEFAULT_HOSTS,
+      ...regionHosts[this.region],
+      ...(country ? regionHosts[country] : undefined),
+      ...options.hosts,
+    });
+  }
+
+  /**
+   * Resolve the base URL of a named host.
+   *
+   * @param host - Host name
+   * @returns Base URL without a trailing slash
+   */
+  resolve(host: EndpointHost): string {
+    return this.hosts[host];
+  }
+
+  /**
+   * Override the base URL of a named host.
+   *
+   * @param host - Host name
+   * @param url - New base URL
+   */
+  setHost(host: EndpointHost, url: string): void {
+    this.hosts[host] = stripTrailingSlash(url);
+  }
+
+  /**
+   * Get the base URL of every host.
+   *
+   * @returns Copy of the resolved host map
+   */
+  getHosts(): HostMap {
+    return { ...this.hosts };
+  }
+
+  /**
+   * Get the region the defaults were taken from.
+   *
+   * @returns Region name
+   */
+  getRegion(): string {
+    return this.region;
+  }
+}
+
+function normalizeHosts(hosts: Partial<HostMap> & HostMap): HostMap {
+  const normalized = { ...hosts };
+  for (const host of Object.keys(normalized) as EndpointHost[]) {
+    normalized[host] = stripTrailingSlash(normalized[host]);
+  }
+  return normalized;
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
@@ -294,11 +294,13 @@ export class Logger {
 
   /**
    * Clean up resources
+   * @returns Resolves when buffered logs are written
    */
-  destroy(): void {
+  async destroy(): Promise<void> {
     if (this.flushInterval) {
       clearInterval(this.flushInterval);
+      this.flushInterval = null;
     }
-    this.flushLogs(); // Final flush
+    await this.flushLogs(); // Final flush
   }
 }
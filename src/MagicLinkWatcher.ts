@@ -0,0 +1,240 @@
+import { BoltDriverAPI } from "./BoltDriverAPI";
+import {
+  DeviceInfo,
+  GpsInfo,
+  MagicLinkTimeoutError,
+  MagicLinkVerificationResponse,
+  MagicLinkWatcherOptions,
+  MailboxMessage,
+  MailboxSource,
+  RequestAbortedError,
+  RequestOptions,
+} from "./types";
+
+/** Options for a single wait on the mailbox */
+interface WaitOptions {
+  /** Only accept emails addressed to this address */
+  email?: string;
+  /** Cancels the wait */
+  signal?: AbortSignal;
+}
+
+/** Headers (lower-cased names) and body of a message or MIME part */
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Completes magic link logins by watching a mailbox for the emailed link.
+ *
+ * The watcher polls a {@link MailboxSource} until an email received after the request
+ * holds a link {@link BoltDriverAPI.extractTokenFromMagicLink} accepts, including
+ * awstrack.me redirects. Emails received before the request and links already used are
+ * ignored, so a stale link never logs the driver in.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new MagicLinkWatcher(api, new MaildirMailboxSource('/home/driver/Maildir'));
+ * await watcher.login('driver@example.com', deviceInfo, gpsInfo);
+ *
+ * // Or let a re-authentication provider wait for the link
+ * api.addReauthProvider(new MagicLinkReauthProvider({
+ *   email: 'driver@example.com',
+ *   gpsInfo,
+ *   getMagicLink: watcher.linkSupplier()
+ * }));
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class MagicLinkWatcher {
+  private readonly options: Required<MagicLinkWatcherOptions>;
+  private readonly usedMessages = new Set<string>();
+
+  /**
+   * Creates a new MagicLinkWatcher.
+   *
+   * @param api - Client sending the link and logging in
+   * @param source - Mailbox receiving the magic link emails
+   * @param options - Poll interval, timeout and clock skew
+   */
+  constructor(
+    private readonly api: Pick<BoltDriverAPI, "sendMagicLink" | "authenticateWithMagicLink">,
+    private readonly source: MailboxSource,
+    options: MagicLinkWatcherOptions = {}
+  ) {
+    this.options = { pollIntervalMs: 5000, timeoutMs: 300000, clockSkewMs: 0, ...options };
+  }
+
+  /**
+   * Send a magic link, wait for the email and log in with it
+   * @param email - Email address of the driver
+   * @param deviceInfo - Device information for authentication
+   * @param gpsInfo - Location sent with the login
+   * @param options - Optional per-call request options; the signal also cancels the wait
+   * @returns The authentication response
+   * @throws {MagicLinkTimeoutError} When no link arrived in time
+   * @throws {RequestAbortedError} When the signal is aborted
+   */
+  async login(
+    email: string,
+    deviceInfo: DeviceInfo,
+    gpsInfo: GpsInfo,
+    options: RequestOptions = {}
+  ): Promise<MagicLinkVerificationResponse> {
+    const requestedAt = new Date();
+    await this.api.sendMagicLink(email, options);
+    const url = await this.waitForLink(requestedAt, { email, ...(options.signal && { signal: options.signal }) });
+    return this.api.authenticateWithMagicLink(BoltDriverAPI.extractTokenFromMagicLink(url), deviceInfo, gpsInfo, options);
+  }
+
+  /**
+   * Wait for a magic link received after a point in time.
+   *
+   * Mailbox timestamps have second precision at best, so an email received in the same
+   * second as the request cannot be told apart from one received just before it and is
+   * ignored too; `clockSkewMs` widens the window when the mail server's clock lags.
+   *
+   * @param since - When the link was requested; earlier emails are ignored
+   * @param options - Recipient filter and abort signal
+   * @returns URL of the magic link, as found in the email
+   * @throws {MagicLinkTimeoutError} When no link arrived in time
+   * @throws {RequestAbortedError} When the signal is aborted
+   */
+  async waitForLink(since: Date, options: WaitOptions = {}): Promise<string> {
+    // Round up: an email stamped with the request's second may predate the request
+    const earliest = new Date(Math.ceil((since.getTime() - this.options.clockSkewMs) / 1000) * 1000);
+    const deadline = Date.now() + this.options.timeoutMs;
+    let lastError: unknown;
+
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw new RequestAbortedError();
+      }
+      try {
+        const messages = await this.source.fetchMessages(earliest);
+        const url = this.findLink(messages, earliest, options.email);
+        if (url) {
+          return url;
+        }
+      } catch (error) {
+        // A flaky mailbox is retried until the deadline
+        lastError = error;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new MagicLinkTimeoutError(this.options.timeoutMs, lastError);
+      }
+      await delay(Math.min(this.options.pollIntervalMs, remaining), options.signal);
+    }
+  }
+
+  /**
+   * Supplier of magic link URLs for {@link MagicLinkReauthProvider}, waiting for links
+   * received after it is called
+   * @returns Callback for `MagicLinkReauthOptions.getMagicLink`
+   */
+  linkSupplier(): (email: string, signal: AbortSignal) => Promise<string> {
+    return (email, signal) => this.waitForLink(new Date(), { email, signal });
+  }
+
+  private findLink(messages: MailboxMessage[], earliest: Date, email?: string): string | undefined {
+    const candidates = messages
+      .filter((message) => message.receivedAt >= earliest && !this.usedMessages.has(message.id))
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime());
+
+    for (const message of candidates) {
+      const part = parsePart(message.raw);
+      if (email && !addressedTo(part.headers, email)) {
+        continue;
+      }
+      const url = textsOf(part).flatMap(extractUrls).find(isMagicLink);
+      if (url) {
+        this.usedMessages.add(message.id);
+        return url;
+      }
+    }
+    return undefined;
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new RequestAbortedError());
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function parsePart(raw: string): MimePart {
+  const text = raw.replace(/\r\n/g, "\n");
+  const split = text.indexOf("\n\n");
+  const head = split === -1 ? text : text.slice(0, split);
+  const body = split === -1 ? "" : text.slice(split + 2);
+
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace and belong to the previous header
+  for (const line of head.replace(/\n[ \t]+/g, " ").split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  }
+  return { headers, body };
+}
+
+function addressedTo(headers: Record<string, string>, email: string): boolean {
+  const recipients = [headers["to"], headers["cc"], headers["delivered-to"]].filter(Boolean).join(",");
+  // Messages without recipient headers (e.g. Bcc deliveries) are not filtered out
+  return !recipients || recipients.toLowerCase().includes(email.toLowerCase());
+}
+
+/** Decoded text of every leaf part of a message */
+function textsOf(part: MimePart): string[] {
+  const contentType = part.headers["content-type"] ?? "text/plain";
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (/^multipart\//i.test(contentType) && boundary) {
+    return part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter((section) => !section.startsWith("--"))
+      .flatMap((section) => textsOf(parsePart(section.replace(/^\n/, ""))));
+  }
+
+  const encoding = (part.headers["content-transfer-encoding"] ?? "").toLowerCase();
+  if (encoding === "base64") {
+    return [Buffer.from(part.body.replace(/\s+/g, ""), "base64").toString("utf8")];
+  }
+  if (encoding === "quoted-printable") {
+    // Soft line breaks end in "=", other bytes are "=XX"
+    const bytes = part.body
+      .replace(/=\n/g, "")
+      .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    return [Buffer.from(bytes, "latin1").toString("utf8")];
+  }
+  return [part.body];
+}
+
+function extractUrls(text: string): string[] {
+  return (text.match(/https?:\/\/[^\s"'<>]+/g) ?? []).map((url) => url.replace(/&amp;/g, "&"));
+}
+
+function isMagicLink(url: string): boolean {
+  try {
+    BoltDriverAPI.extractTokenFromMagicLink(url);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,340 @@
+import { promises as fs } from "fs";
+import { connect as connectTcp, Socket } from "net";
+import { join } from "path";
+import { connect as connectTls } from "tls";
+import { ImapMailboxOptions, MailboxMessage, MailboxSource } from "./types";
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * {@link MailboxSource} reading a Maildir directory, as written by Postfix, Dovecot,
+ * getmail or fdm.
+ *
+ * Messages in `new/` and `cur/` are listed. The delivery time is read from the file name
+ * (`<seconds>.<unique>.<host>`), falling back to the file's modification time.
+ *
+ * @example
+ * ```typescript
+ * const source = new MaildirMailboxSource('/home/driver/Maildir');
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class MaildirMailboxSource implements MailboxSource {
+  /**
+   * Creates a new MaildirMailboxSource.
+   *
+   * @param directory - Maildir root, containing `new/` and `cur/`
+   */
+  constructor(public readonly directory: string) {}
+
+  /**
+   * List the messages delivered since a point in time
+   * @param since - Earliest delivery time of interest
+   * @returns Messages, unordered
+   */
+  async fetchMessages(since: Date): Promise<MailboxMessage[]> {
+    const messages: MailboxMessage[] = [];
+    for (const folder of ["new", "cur"]) {
+      let names: string[];
+      try {
+        names = await fs.readdir(join(this.directory, folder));
+      } catch (error) {
+        // Folder not created yet, nothing delivered
+        continue;
+      }
+
+      for (const name of names) {
+        if (name.startsWith(".")) {
+          continue;
+        }
+        const path = join(this.directory, folder, name);
+        const seconds = Number(/^(\d+)\./.exec(name)?.[1]);
+        const receivedAt = seconds ? new Date(seconds * 1000) : (await fs.stat(path)).mtime;
+        if (receivedAt < since) {
+          continue;
+        }
+        // Flags after ':2,' change when the message is read; the rest of the name is stable
+        messages.push({ id: name.split(":")[0] ?? name, receivedAt, raw: await fs.readFile(path, "utf8") });
+      }
+    }
+    return messages;
+  }
+}
+
+/**
+ * {@link MailboxSource} reading an mbox file, as written by most local delivery agents.
+ *
+ * The delivery time is read from the `From ` separator line of each message.
+ *
+ * @example
+ * ```typescript
+ * const source = new MboxMailboxSource('/var/mail/driver');
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class MboxMailboxSource implements MailboxSource {
+  /**
+   * Creates a new MboxMailboxSource.
+   *
+   * @param filePath - Path of the mbox file
+   */
+  constructor(public readonly filePath: string) {}
+
+  /**
+   * List the messages delivered since a point in time
+   * @param since - Earliest delivery time of interest
+   * @returns Messages, oldest first
+   */
+  async fetchMessages(since: Date): Promise<MailboxMessage[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      // Mailbox not created yet, nothing delivered
+      return [];
+    }
+
+    const messages: MailboxMessage[] = [];
+    const separator = /^From (\S+) +(.+)$/gm;
+    const starts = [...content.matchAll(separator)];
+    starts.forEach((match, index) => {
+      const start = match.index ?? 0;
+      const end = starts[index + 1]?.index ?? content.length;
+      const receivedAt = new Date(match[2] ?? "");
+      if (Number.isNaN(receivedAt.getTime()) || receivedAt < since) {
+        return;
+      }
+      const raw = content
+        .slice(start + match[0].length + 1, end)
+        // Undo the mboxrd quoting of body lines starting with "From "
+        .replace(/^>(>*From )/gm, "$1");
+      messages.push({ id: String(start), receivedAt, raw });
+    });
+    return messages;
+  }
+}
+
+/**
+ * {@link MailboxSource} searching a mailbox on any IMAP4rev1 server.
+ *
+ * Every poll opens a connection, logs in, searches messages received since the given
+ * day and fetches them without marking them as read.
+ *
+ * @example
+ * ```typescript
+ * const source = new ImapMailboxSource({
+ *   host: 'imap.example.com',
+ *   user: 'driver@example.com',
+ *   password: process.env.IMAP_PASSWORD!
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class ImapMailboxSource implements MailboxSource {
+  private readonly options: Required<ImapMailboxOptions>;
+
+  /**
+   * Creates a new ImapMailboxSource. Nothing is connected until the first poll.
+   *
+   * @param options - Server, credentials and mailbox
+   */
+  constructor(options: ImapMailboxOptions) {
+    const secure = options.secure ?? true;
+    this.options = { port: secure ? 993 : 143, mailbox: "INBOX", timeoutMs: 30000, ...options, secure };
+  }
+
+  /**
+   * List the messages received since a point in time
+   * @param since - Earliest receive time of interest
+   * @returns Messages, oldest first
+   * @throws {Error} When the server cannot be reached or rejects a command
+   */
+  async fetchMessages(since: Date): Promise<MailboxMessage[]> {
+    const connection = await ImapConnection.open(this.options);
+    try {
+      await connection.command(`LOGIN ${quote(this.options.user)} ${quote(this.options.password)}`);
+      await connection.command(`SELECT ${quote(this.options.mailbox)}`);
+
+      // SEARCH SINCE compares whole days in the server's time zone, so search from the day
+      // before; the exact time is checked on INTERNALDATE
+      const search = await connection.command(`UID SEARCH SINCE ${imapDate(new Date(since.getTime() - 86400000))}`);
+      const uids = search
+        .flatMap((response) => /^\* SEARCH\b(.*)$/i.exec(response.text)?.[1]?.trim().split(/\s+/) ?? [])
+        .filter(Boolean);
+      if (uids.length === 0) {
+        return [];
+      }
+
+      const fetched = await connection.command(`UID FETCH ${uids.join(",")} (UID INTERNALDATE BODY.PEEK[])`);
+      const messages: MailboxMessage[] = [];
+      for (const response of fetched) {
+        const uid = /\bUID (\d+)/i.exec(response.text)?.[1];
+        const date = /\bINTERNALDATE "([^"]+)"/i.exec(response.text)?.[1];
+        const body = response.literals[0];
+        if (!uid || !date || !body) {
+          continue;
+        }
+        // "19-Oct-2026 10:00:00 +0200" is not ISO; only the date dashes are separators
+        const receivedAt = new Date(date.replace(/^\s*(\d+)-(\w+)-/, "$1 $2 "));
+        if (receivedAt >= since) {
+          messages.push({ id: uid, receivedAt, raw: body.toString("utf8") });
+        }
+      }
+      return messages;
+    } finally {
+      await connection.close();
+    }
+  }
+}
+
+/** An untagged or tagged server response, with the literals it carried */
+interface ImapResponse {
+  text: string;
+  literals: Buffer[];
+}
+
+/**
+ * Minimal IMAP client connection: sends tagged commands and collects their responses,
+ * including `{n}` literals
+ */
+class ImapConnection {
+  private buffer = Buffer.alloc(0);
+  private responses: ImapResponse[] = [];
+  private waiting: (() => void) | undefined;
+  private failure: Error | undefined;
+  private nextTag = 1;
+
+  private constructor(private readonly socket: Socket) {
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.parse();
+    });
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("IMAP connection closed")));
+    socket.on("timeout", () => {
+      this.fail(new Error("IMAP connection timed out"));
+      socket.destroy();
+    });
+  }
+
+  static async open(options: Required<ImapMailboxOptions>): Promise<ImapConnection> {
+    const socket = options.secure
+      ? connectTls({ host: options.host, port: options.port, servername: options.host })
+      : connectTcp({ host: options.host, port: options.port });
+    socket.setTimeout(options.timeoutMs);
+    const connection = new ImapConnection(socket);
+
+    const greeting = await connection.next();
+    if (!/^\* (OK|PREAUTH)\b/i.test(greeting.text)) {
+      socket.destroy();
+      throw new Error(`IMAP server refused the connection: ${greeting.text}`);
+    }
+    return connection;
+  }
+
+  /**
+   * Send a command and wait for its tagged completion
+   * @returns The untagged responses to the command
+   * @throws {Error} When the server answers NO or BAD
+   */
+  async command(command: string): Promise<ImapResponse[]> {
+    const tag = `A${this.nextTag++}`;
+    this.socket.write(`${tag} ${command}\r\n`);
+
+    const untagged: ImapResponse[] = [];
+    for (;;) {
+      const response = await this.next();
+      if (!response.text.startsWith(`${tag} `)) {
+        untagged.push(response);
+        continue;
+      }
+      if (!/^\S+ OK\b/i.test(response.text)) {
+        // Never echo the LOGIN arguments
+        throw new Error(`IMAP ${command.split(" ")[0]} failed: ${response.text.slice(tag.length + 1)}`);
+      }
+      return untagged;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.failure) {
+      await this.command("LOGOUT").catch(() => undefined);
+    }
+    this.socket.destroy();
+  }
+
+  private async next(): Promise<ImapResponse> {
+    for (;;) {
+      const response = this.responses.shift();
+      if (response) {
+        return response;
+      }
+      if (this.failure) {
+        throw this.failure;
+      }
+      await new Promise<void>((resolve) => {
+        this.waiting = resolve;
+      });
+    }
+  }
+
+  private parse(): void {
+    for (;;) {
+      let text = "";
+      const literals: Buffer[] = [];
+      let offset = 0;
+      let complete = false;
+
+      for (;;) {
+        const end = this.buffer.indexOf("\r\n", offset);
+        if (end === -1) {
+          break;
+        }
+        const line = this.buffer.subarray(offset, end).toString("utf8");
+        const literal = /\{(\d+)\}$/.exec(line);
+        if (!literal) {
+          text += line;
+          offset = end + 2;
+          complete = true;
+          break;
+        }
+        const size = Number(literal[1]);
+        if (this.buffer.length < end + 2 + size) {
+          break;
+        }
+        text += line;
+        literals.push(this.buffer.subarray(end + 2, end + 2 + size));
+        offset = end + 2 + size;
+      }
+
+      if (!complete) {
+        return;
+      }
+      this.buffer = this.buffer.subarray(offset);
+      this.responses.push({ text, literals });
+      this.wake();
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.();
+  }
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+function imapDate(date: Date): string {
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
@@ -0,0 +1,169 @@
+import { AuthFlow } from "./AuthFlow";
+import { BoltDriverAPI } from "./BoltDriverAPI";
+import { AuthConfig, AuthFlowState, DeviceInfo, GpsInfo, InvalidSmsCodeError } from "./types";
+
+/**
+ * What a {@link ReauthProvider} gets to log the driver in again.
+ *
+ * @since 1.1.0
+ */
+export interface ReauthContext {
+  /** Client to log in; requests waiting for the login resume once the provider resolves */
+  api: BoltDriverAPI;
+  /** Why the session was lost */
+  reason: string;
+  /** Error that ended the session, if any */
+  error?: unknown;
+  /** Authentication configuration of the client */
+  authConfig: AuthConfig;
+  /** Device information of the client */
+  deviceInfo: DeviceInfo;
+  /** Aborted when the client is disposed */
+  signal: AbortSignal;
+}
+
+/**
+ * Logs the driver in again when the refresh token is dead. Register providers with
+ * {@link BoltDriverAPI.addReauthProvider}; they are tried in order until one succeeds.
+ * Providers may only call the login endpoints; requests that need a session wait for the
+ * provider to finish.
+ *
+ * @example
+ * ```typescript
+ * api.addReauthProvider({
+ *   method: 'pager',
+ *   authenticate: async ({ api, authConfig, deviceInfo }) => {
+ *     const flow = new AuthFlow(api, authConfig, deviceInfo);
+ *     await flow.sendCode('+48500123456');
+ *     await flow.submitCode(await pager.ask('Bolt login code?'));
+ *   }
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface ReauthProvider {
+  /** Name used in logs and events; `otp` and `magic-link` are matched by `handleTokenFailure` */
+  readonly method: string;
+  /**
+   * Log in again. Resolves once the client holds new credentials.
+   * @param context - Client, reason and abort signal
+   */
+  authenticate(context: ReauthContext): Promise<void>;
+}
+
+/**
+ * Options for {@link OtpReauthProvider}.
+ *
+ * @since 1.1.0
+ */
+export interface OtpReauthOptions {
+  /** Phone number to send the code to */
+  phone: string;
+  /** Supplies the code that was sent, e.g. by prompting or reading an SMS gateway */
+  getCode: (state: AuthFlowState, signal: AbortSignal) => Promise<string>;
+  /** Codes to try before giving up (default: 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * Options for {@link MagicLinkReauthProvider}.
+ *
+ * @since 1.1.0
+ */
+export interface MagicLinkReauthOptions {
+  /** Email address to send the magic link to */
+  email: string;
+  /** Supplies the URL of the emailed link, e.g. by prompting or watching a mailbox */
+  getMagicLink: (email: string, signal: AbortSignal) => Promise<string>;
+  /** Location sent with the login */
+  gpsInfo: GpsInfo;
+}
+
+/**
+ * Re-authentication through an SMS code, supplied by a callback.
+ *
+ * @example
+ * ```typescript
+ * api.addReauthProvider(new OtpReauthProvider({
+ *   phone: '+48500123456',
+ *   getCode: ({ codeTarget }) => smsGateway.waitForCode(codeTarget)
+ * }));
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class OtpReauthProvider implements ReauthProvider {
+  public readonly method = "otp";
+
+  /**
+   * Creates a new OtpReauthProvider.
+   *
+   * @param options - Phone number and code supplier
+   */
+  constructor(private readonly options: OtpReauthOptions) {}
+
+  /**
+   * Send a code and confirm it, asking for another one when a code is rejected
+   * @param context - Client, reason and abort signal
+   * @throws {InvalidSmsCodeError} When every supplied code was rejected
+   * @throws {SmsLimitError} When Bolt refused to send or check more codes
+   */
+  async authenticate({ api, authConfig, deviceInfo, signal }: ReauthContext): Promise<void> {
+    const flow = new AuthFlow(api, authConfig, deviceInfo);
+    await flow.sendCode(this.options.phone);
+
+    const maxAttempts = this.options.maxAttempts ?? 3;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await flow.submitCode(await this.options.getCode(flow.getState(), signal));
+        return;
+      } catch (error) {
+        if (!(error instanceof InvalidSmsCodeError) || attempt >= maxAttempts) {
+          throw error;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Re-authentication through a magic link, whose URL is supplied by a callback.
+ *
+ * @example
+ * ```typescript
+ * api.addReauthProvider(new MagicLinkReauthProvider({
+ *   email: 'driver@example.com',
+ *   gpsInfo,
+ *   getMagicLink: () => prompt('Paste the link from the email: ')
+ * }));
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class MagicLinkReauthProvider implements ReauthProvider {
+  public readonly method = "magic-link";
+
+  /**
+   * Creates a new MagicLinkReauthProvider.
+   *
+   * @param options - Email address, link supplier and location
+   */
+  constructor(private readonly options: MagicLinkReauthOptions) {}
+
+  /**
+   * Send a magic link and log in with the supplied URL
+   * @param context - Client, reason and abort signal
+   * @throws {ValidationError} When the supplied URL holds no token
+   */
+  async authenticate({ api, deviceInfo, signal }: ReauthContext): Promise<void> {
+    await api.sendMagicLink(this.options.email, { signal });
+    const url = await this.options.getMagicLink(this.options.email, signal);
+    await api.authenticateWithMagicLink(
+      BoltDriverAPI.extractTokenFromMagicLink(url),
+      deviceInfo,
+      this.options.gpsInfo,
+      { signal }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { EndpointName } from "./Endpoints";
+import { ResponseSchema } from "./types";
+
+const string = (): ResponseSchema => ({ type: "string" });
+const number = (): ResponseSchema => ({ type: "number" });
+const boolean = (): ResponseSchema => ({ type: "boolean" });
+const unknown = (): ResponseSchema => ({ type: "unknown" });
+const array = (items: ResponseSchema): ResponseSchema => ({ type: "array", items });
+const object = (properties: Record<string, ResponseSchema>): ResponseSchema => ({ type: "object", properties });
+const record = (values: ResponseSchema): ResponseSchema => ({ type: "record", values });
+const optional = (schema: ResponseSchema): ResponseSchema => ({ ...schema, optional: true });
+
+/** Objects discriminated by their `type` property */
+const oneOf = (variants: Record<string, Record<string, ResponseSchema>>): ResponseSchema => ({
+  type: "union",
+  discriminator: "type",
+  variants: Object.fromEntries(
+    Object.entries(variants).map(([type, properties]) => [type, object({ type: string(), ...properties })])
+  ),
+});
+
+const location = object({ lat: number(), lng: number() });
+
+const orderHandle = object({ orderId: string(), cityId: number(), orderSystem: string() });
+
+const iconUrl = object({ type: string(), lightUrl: object({ url: string() }) });
+
+const rideStop = object({ address: string(), lat: optional(number()), lng: optional(number()) });
+
+const screenBlock = oneOf({
+  header: { title: string(), subtitle: optional(string()) },
+  amount: { title: string(), amount_str: string(), subtitle: optional(string()) },
+  chart: {
+    title: optional(string()),
+    bars: array(object({ label: string(), value: number(), amount_str: optional(string()) })),
+  },
+  list: {
+    title: optional(string()),
+    rows: array(
+      object({ title: string(), subtitle: optional(string()), value_str: optional(string()), url: optional(string()) })
+    ),
+  },
+  banner: { title: string(), description: optional(string()), url: optional(string()) },
+  button: { title: string(), url: optional(string()), action: optional(string()) },
+});
+
+const blockScreen = { title: optional(string()), blocks: array(screenBlock) };
+
+/**
+ * Runtime schemas of the response types in `src/types`, by type name.
+ *
+ * @since 1.1.0
+ */
+export const SCHEMAS = {
+  DriverState: object({
+    driver_status: string(),
+    next_polling_in_sec: optional(number()),
+    active_order_handle: optional(orderHandle),
+  }),
+  HomeScreenData: object({
+    layout: object({ maxRow: number(), maxColumn: number() }),
+    items: array(
+      object({
+        type: string(),
+        id: string(),
+        layout: object({ x: number(), y: number(), width: number(), height: number() }),
+        data: record(unknown()),
+      })
+    ),
+    pollIntervalSec: number(),
+    driverSidebarHash: string(),
+  }),
+  WorkingTimeInfo: object({
+    daily_online_duration_seconds: number(),
+    daily_driving_duration_seconds: number(),
+    weekly_online_duration_seconds: number(),
+    weekly_driving_duration_seconds: number(),
+  }),
+  DispatchPreferences: object({
+    is_dispatch_enabled: boolean(),
+    categories: array(object({ id: string(), name: string(), is_enabled: boolean() })),
+  }),
+  RideDetails: object({
+    state: string(),
+    pickup_address: string(),
+    pickup_location: location,
+    destination_address: string(),
+    destination_location: location,
+    route_info: object({ distance_km: number(), duration_min: number(), eta: string() }),
+    passenger_info: object({ name: string(), rating: number(), phone: optional(string()) }),
+    payment_info: object({ type: string(), amount: string(), currency: string() }),
+  }),
+  OrderHistoryData: object({
+    orders: array(
+      object({
+        address: string(),
+        state: string(),
+        created: string(),
+        payment_type: string(),
+        price_str: optional(string()),
+        order_handle: orderHandle,
+      })
+    ),
+    limit: number(),
+    offset: number(),
+    total: number(),
+  }),
+  NavBarBadges: object({ is_help_badge_present: boolean() }),
+  ExternalHelpProvider: object({ external_help_provider: unknown() }),
+  OtherActiveDrivers: object({ list: array(unknown()) }),
+  ModalInfo: object({ data: unknown() }),
+  MapsConfig: object({
+    tile_collections: object({
+      surge_heatmap: object({
+        show_on_picker: boolean(),
+        tiles_collection_id: string(),
+        label_per_category: record(string()),
+        default_properties: record(unknown()),
+        icons: record(unknown()),
+      }),
+    }),
+    tile_collections_picker_ui: object({
+      options: array(
+        object({
+          tileCollection: string(),
+          pickerOptionIcon: iconUrl,
+          isDefault: boolean(),
+          badgeIcon: optional(iconUrl),
+          title: string(),
+          description: string(),
+        })
+      ),
+    }),
+  }),
+  ScheduledRideRequests: object({
+    scheduled_requests: array(
+      object({
+        order_handle: orderHandle,
+        scheduled_at: number(),
+        pickup: rideStop,
+        destination: optional(rideStop),
+        price_str: optional(string()),
+        category_name: optional(string()),
+        status: optional(string()),
+      })
+    ),
+  }),
+  ActivityRides: object({
+    activity_rides: array(
+      object({
+        order_handle: orderHandle,
+        state: string(),
+        created: string(),
+        address: optional(string()),
+        price_str: optional(string()),
+        distance_str: optional(string()),
+        duration_str: optional(string()),
+      })
+    ),
+    summary: optional(
+      object({
+        rides_count: optional(number()),
+        online_time_str: optional(string()),
+        earnings_str: optional(string()),
+      })
+    ),
+  }),
+  DriverPhoneDetails: object({
+    phone: string(),
+    country_code: optional(string()),
+    is_verified: optional(boolean()),
+  }),
+  EarningLandingScreen: object(blockScreen),
+  EarnMoreDetails: object(blockScreen),
+  HelpDetails: object(blockScreen),
+  ScoreOverview: object({ ...blockScreen, score: optional(number()), rating: optional(number()) }),
+  DriverSidebar: object({
+    profile: optional(object({ name: string(), rating: optional(number()), photoUrl: optional(string()) })),
+    menuItems: array(
+      oneOf({
+        screen: { id: string(), title: string(), screen: string(), badge: optional(string()) },
+        url: { id: string(), title: string(), url: string(), badge: optional(string()) },
+        separator: {},
+      })
+    ),
+  }),
+  StartAuthData: object({
+    verification_token: string(),
+    verification_code_channel: string(),
+    verification_code_target: string(),
+    verification_code_length: number(),
+    resend_wait_time_seconds: number(),
+    available_verification_code_channels: array(string()),
+  }),
+  ConfirmAuthData: object({
+    type: string(),
+    token: object({ refresh_token: string(), token_type: string() }),
+  }),
+  MagicLinkVerificationData: object({ refresh_token: string() }),
+} satisfies Record<string, ResponseSchema>;
+
+/**
+ * Schema of the payload each endpoint returns: the `data` of a successful API envelope,
+ * or the body itself when the endpoint does not wrap it. Endpoints without a typed
+ * response are not listed and are not checked.
+ *
+ * @since 1.1.0
+ */
+export const RESPONSE_SCHEMAS: Partial<Record<EndpointName, ResponseSchema>> = {
+  startAuthentication: SCHEMAS.StartAuthData,
+  confirmAuthentication: SCHEMAS.ConfirmAuthData,
+  authenticateWithMagicLink: SCHEMAS.MagicLinkVerificationData,
+  getDriverState: SCHEMAS.DriverState,
+  getDriverHomeScreen: SCHEMAS.HomeScreenData,
+  getWorkingTimeInfo: SCHEMAS.WorkingTimeInfo,
+  getDispatchPreferences: SCHEMAS.DispatchPreferences,
+  getDriverNavBarBadges: SCHEMAS.NavBarBadges,
+  getModal: SCHEMAS.ModalInfo,
+  getOtherActiveDrivers: SCHEMAS.OtherActiveDrivers,
+  getOrderHistoryPaginated: SCHEMAS.OrderHistoryData,
+  getRideDetails: SCHEMAS.RideDetails,
+  getMapsConfigs: SCHEMAS.MapsConfig,
+  getEmergencyAssistProvider: SCHEMAS.ExternalHelpProvider,
+  getScheduledRideRequests: SCHEMAS.ScheduledRideRequests,
+  getActivityRides: SCHEMAS.ActivityRides,
+  getDriverPhoneDetails: SCHEMAS.DriverPhoneDetails,
+  getEarningLandingScreen: SCHEMAS.EarningLandingScreen,
+  getEarnMoreDetails: SCHEMAS.EarnMoreDetails,
+  getHelpDetails: SCHEMAS.HelpDetails,
+  getScoreOverview: SCHEMAS.ScoreOverview,
+  getDriverSidebar: SCHEMAS.DriverSidebar,
+};
@@ -0,0 +1,311 @@
+import {
+  RetryConfig,
+  RequestOptions,
+  BoltApiError,
+  AuthenticationError,
+  NotAuthorizedError,
+  DatabaseError,
+  RequestAbortedError,
+  RetryEvent,
+} from "./types";
+import { Logger } from "./Logger";
+
+/** Bolt API code returned for transient backend failures (DATABASE_ERROR) */
+const DATABASE_ERROR_CODE = 1000;
+
+/** HTTP methods that can be repeated without side effects */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Describes the request a retried operation belongs to.
+ *
+ * @since 1.1.0
+ */
+export interface RetryContext {
+  /** Human-readable operation name used in log output (e.g. 'getDriverState') */
+  operation: string;
+  /** HTTP method of the underlying request */
+  method: string;
+  /** Mark a non-idempotent method as safe to retry at this call site */
+  idempotent?: boolean;
+}
+
+/**
+ * Retry policy with exponential backoff, jitter and idempotency rules.
+ *
+ * Failures are retried only when they are transient: network errors, HTTP 5xx,
+ * HTTP 429 and the Bolt `DATABASE_ERROR` (code 1000). Authentication failures are
+ * never retried. Requests whose method is not idempotent (e.g. the POST to
+ * `/startAuthentication`) are retried only when explicitly marked safe, either at
+ * the call site or through {@link RequestOptions.idempotent}.
+ *
+ * A `Retry-After` header sent by the server replaces the computed backoff delay.
+ * If the server asks to wait longer than `maxDelayMs`, the error is surfaced
+ * immediately instead of blocking the caller. Aborting {@link RequestOptions.signal}
+ * stops the loop, including a pending backoff delay.
+ *
+ * @example
+ * ```typescript
+ * const policy = new RetryPolicy({ retries: 3, baseDelayMs: 500 }, logger);
+ *
+ * const state = await policy.execute(
+ *   { operation: 'getDriverState', method: 'POST', idempotent: true },
+ *   () => fetchDriverState()
+ * );
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class RetryPolicy {
+  private config: RetryConfig;
+  private logger: Logger | undefined;
+  private onRetry: ((event: RetryEvent) => void) | undefined;
+
+  /**
+   * Creates a new RetryPolicy.
+   *
+   * @param config - Partial retry configuration; missing values fall back to defaults
+   * @param logger - Optional logger used to report retry attempts
+   * @param onRetry - Optional callback invoked before waiting for each retry
+   */
+  constructor(config: Partial<RetryConfig> = {}, logger?: Logger, onRetry?: (event: RetryEvent) => void) {
+    this.config = {
+      retries: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 10000,
+      jitter: true,
+      ...config,
+    };
+    this.logger = logger;
+    this.onRetry = onRetry;
+  }
+
+  /**
+   * Run an operation, retrying it according to the policy.
+   *
+   * @param context - Operation name, HTTP method and idempotency marker
+   * @param operation - Function performing the request; invoked once per attempt
+   * @param options - Per-call overrides
+   * @returns The result of the first successful attempt
+   * @throws The last error when the failure is not retryable or attempts are exhausted
+   */
+  async execute<T>(
+    context: RetryContext,
+    operation: () => Promise<T>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const maxRetries = Math.max(0, options.retries ?? this.config.retries);
+    const idempotent = this.isIdempotent(context, options);
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(options.signal);
+      try {
+        return await operation();
+      } catch (error) {
+        if (options.signal?.aborted && !(error instanceof RequestAbortedError)) {
+          throw new RequestAbortedError("Request aborted", error);
+        }
+        if (!idempotent || attempt >= maxRetries || !this.isRetryableError(error)) {
+          throw error;
+        }
+
+        const retryAfterMs = this.getRetryAfterMs(error);
+        if (retryAfterMs !== undefined && retryAfterMs > this.config.maxDelayMs) {
+          this.logger?.warn(
+            `Not retrying ${context.operation}: server asked to wait ${retryAfterMs}ms`
+          );
+          throw error;
+        }
+
+        const delayMs = retryAfterMs ?? this.getBackoffDelay(attempt + 1);
+        this.logger?.warn(
+          `Retrying ${context.operation} (attempt ${attempt + 1}/${maxRetries}) in ${delayMs}ms`,
+          {
+            method: context.method,
+            reason: error instanceof Error ? error.message : String(error),
+            retryAfterMs,
+          }
+        );
+        this.onRetry?.({
+          operation: context.operation,
+          method: context.method,
+          attempt: attempt + 1,
+          maxRetries,
+          delayMs,
+          ...(retryAfterMs !== undefined && { retryAfterMs }),
+          error,
+        });
+        await this.sleep(delayMs, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Check whether an error represents a transient failure worth retrying.
+   *
+   * @param error - Error thrown by the request
+   * @returns True for network errors, 5xx, 429 and DATABASE_ERROR
+   */
+  isRetryableError(error: unknown): boolean {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof NotAuthorizedError ||
+      error instanceof RequestAbortedError
+    ) {
+      return false;
+    }
+    if (error instanceof DatabaseError) {
+      return true;
+    }
+    if (error instanceof BoltApiError) {
+      return this.isRetryableStatus(error.statusCode);
+    }
+    return false;
+  }
+
+  /**
+   * Compute the exponential backoff delay for a retry attempt.
+   *
+   * @param attempt - 1-based retry attempt number
+   * @returns Delay in milliseconds
+   */
+  getBackoffDelay(attempt: number): number {
+    const exponential = Math.min(
+      this.config.maxDelayMs,
+      this.config.baseDelayMs * 2 ** Math.max(0, attempt - 1)
+    );
+    if (!this.config.jitter) {
+      return exponential;
+    }
+    // Equal jitter: keep half of the delay, randomize the other half
+    const half = exponential / 2;
+    return Math.round(half + Math.random() * half);
+  }
+
+  /**
+   * Get current retry configuration
+   * @returns Current retry configuration
+   */
+  getConfig(): RetryConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update retry configuration
+   * @param config - New configuration options
+   */
+  updateConfig(config: Partial<RetryConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  private isIdempotent(context: RetryContext, options: RequestOptions): boolean {
+    return (
+      options.idempotent ??
+      context.idempotent ??
+      IDEMPOTENT_METHODS.has(context.method.toUpperCase())
+    );
+  }
+
+  private isRetryableStatus(status: number): boolean {
+    return (
+      status === 0 ||
+      status === 429 ||
+      status === DATABASE_ERROR_CODE ||
+      (status >= 500 && status <= 599)
+    );
+  }
+
+  private getRetryAfterMs(error: unknown): number | undefined {
+    if (error instanceof BoltApiError) {
+      return error.retryAfterMs;
+    }
+    return undefined;
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RequestAbortedError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Wait for a promise unless the signal is aborted first.
+ *
+ * The promise itself keeps running; only the caller stops waiting for it, and its
+ * rejection is handled so it never goes unhandled.
+ *
+ * @param promise - Promise to wait for
+ * @param signal - Signal cancelling the wait
+ * @returns The value of the promise
+ * @throws {RequestAbortedError} When the signal is or becomes aborted
+ *
+ * @since 1.1.0
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.catch(() => undefined);
+    return Promise.reject(new RequestAbortedError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestAbortedError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestAbortedError();
+  }
+}
+
+/**
+ * Parse a `Retry-After` header value.
+ *
+ * @param value - Header value, either delay-seconds or an HTTP date
+ * @param now - Reference time for HTTP dates (defaults to Date.now())
+ * @returns Delay in milliseconds, or undefined if the header is missing or malformed
+ *
+ * @since 1.1.0
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value === "number") {
+    return value >= 0 ? value * 1000 : undefined;
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
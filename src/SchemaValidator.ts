@@ -0,0 +1,253 @@
+import { Logger } from "./Logger";
+import { RESPONSE_SCHEMAS } from "./ResponseSchemas";
+import {
+  ResponseSchema,
+  SchemaDriftEntry,
+  SchemaDriftReport,
+  SchemaIssue,
+  SchemaMismatchError,
+  SchemaValidationMode,
+  TransportMiddleware,
+} from "./types";
+
+/**
+ * Checks responses against {@link RESPONSE_SCHEMAS} and keeps a per-endpoint report of
+ * schema drift: required fields that went missing, fields the SDK does not know about
+ * and fields whose type changed.
+ *
+ * In `report` mode every newly seen difference is logged once per endpoint. In `strict`
+ * mode responses with missing or mistyped fields are rejected with
+ * {@link SchemaMismatchError}; unknown fields are only reported, since additions do not
+ * break the typed result. Error envelopes (non-zero `code`) are not checked.
+ *
+ * @example
+ * ```typescript
+ * const api = new BoltDriverAPI(deviceInfo, authConfig, { schemaValidation: 'report' });
+ * await api.getDriverHomeScreen(gpsInfo);
+ *
+ * api.getSchemaDriftReport();
+ * // { getDriverHomeScreen: { checked: 1, mismatched: 1, missing: [], unknown: ['items[].badge'], invalid: [] } }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class SchemaValidator {
+  private readonly drift = new Map<string, SchemaDriftEntry>();
+
+  /**
+   * Creates a new SchemaValidator.
+   *
+   * @param mode - Validation mode
+   * @param logger - Logger receiving drift warnings
+   * @param schemas - Payload schema per endpoint
+   */
+  constructor(
+    public readonly mode: SchemaValidationMode,
+    private readonly logger: Logger,
+    private readonly schemas: Partial<Record<string, ResponseSchema>> = RESPONSE_SCHEMAS
+  ) {}
+
+  /**
+   * Transport middleware checking every successful response of a known endpoint
+   */
+  readonly validate: TransportMiddleware = async (request, next) => {
+    const response = await next(request);
+    if (request.endpoint) {
+      this.check(request.endpoint, response.data);
+    }
+    return response;
+  };
+
+  /**
+   * Check a response body and record its drift.
+   *
+   * @param endpoint - Endpoint that returned the body
+   * @param body - Response body, either an API envelope or the bare payload
+   * @returns Differences between the payload and the endpoint's schema
+   * @throws {SchemaMismatchError} In `strict` mode, for missing or mistyped fields
+   */
+  check(endpoint: string, body: unknown): SchemaIssue[] {
+    const schema = this.schemas[endpoint];
+    if (this.mode === "off" || !schema) {
+      return [];
+    }
+
+    let payload = body;
+    if (isEnvelope(body)) {
+      if (body.code !== 0) {
+        return [];
+      }
+      payload = body.data;
+    }
+
+    const issues = validateSchema(schema, payload);
+    this.record(endpoint, issues);
+
+    const breaking = issues.filter((issue) => issue.problem !== "unknown");
+    if (this.mode === "strict" && breaking.length > 0) {
+      throw new SchemaMismatchError(
+        `Response of ${endpoint} does not match its schema: ${breaking.map(describeIssue).join(", ")}`,
+        endpoint,
+        breaking,
+        body
+      );
+    }
+    return issues;
+  }
+
+  /**
+   * Schema drift seen so far, by endpoint. Endpoints without differences are included
+   * with empty lists.
+   *
+   * @returns Copy of the report
+   */
+  getReport(): SchemaDriftReport {
+    const report: SchemaDriftReport = {};
+    for (const [endpoint, entry] of this.drift) {
+      report[endpoint] = {
+        ...entry,
+        missing: [...entry.missing],
+        unknown: [...entry.unknown],
+        invalid: [...entry.invalid],
+      };
+    }
+    return report;
+  }
+
+  /**
+   * Forget the drift seen so far.
+   */
+  clear(): void {
+    this.drift.clear();
+  }
+
+  private record(endpoint: string, issues: SchemaIssue[]): void {
+    let entry = this.drift.get(endpoint);
+    if (!entry) {
+      entry = { checked: 0, mismatched: 0, missing: [], unknown: [], invalid: [] };
+      this.drift.set(endpoint, entry);
+    }
+    entry.checked++;
+    if (issues.length === 0) {
+      return;
+    }
+    entry.mismatched++;
+    entry.lastMismatchAt = new Date().toISOString();
+
+    const added: string[] = [];
+    for (const issue of issues) {
+      const list = issue.problem === "missing" ? entry.missing : issue.problem === "unknown" ? entry.unknown : entry.invalid;
+      const value = issue.problem === "type" ? `${issue.path} (${issue.expected}, got ${issue.received})` : issue.path;
+      if (!list.includes(value)) {
+        list.push(value);
+        added.push(describeIssue(issue));
+      }
+    }
+    // Polled endpoints would repeat the same warning every few seconds
+    if (added.length > 0) {
+      this.logger.warn(`Schema drift in ${endpoint} response: ${added.join(", ")}`, { endpoint, issues });
+    }
+  }
+}
+
+/**
+ * Compare a value with a schema.
+ *
+ * @param schema - Expected shape
+ * @param value - Value to check
+ * @param path - Path of the value, for nested checks
+ * @returns Every difference found, one per distinct path
+ *
+ * @since 1.1.0
+ */
+export function validateSchema(schema: ResponseSchema, value: unknown, path = ""): SchemaIssue[] {
+  if (value === undefined) {
+    return schema.optional ? [] : [{ path, problem: "missing", expected: schema.type }];
+  }
+  if (schema.type === "unknown" || (value === null && schema.nullable)) {
+    return [];
+  }
+
+  const received = typeOf(value);
+  const expected = schema.type === "record" || schema.type === "union" ? "object" : schema.type;
+  if (received !== expected) {
+    return [{ path, problem: "type", expected, received }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  switch (schema.type) {
+    case "array":
+      for (const item of value as unknown[]) {
+        issues.push(...validateSchema(schema.items, item, `${path}[]`));
+      }
+      break;
+    case "object": {
+      const fields = value as Record<string, unknown>;
+      for (const [key, property] of Object.entries(schema.properties)) {
+        issues.push(...validateSchema(property, fields[key], join(path, key)));
+      }
+      for (const key of Object.keys(fields)) {
+        if (!(key in schema.properties)) {
+          issues.push({ path: join(path, key), problem: "unknown", received: typeOf(fields[key]) });
+        }
+      }
+      break;
+    }
+    case "record":
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        issues.push(...validateSchema(schema.values, item, join(path, key)));
+      }
+      break;
+    case "union": {
+      const variant = String((value as Record<string, unknown>)[schema.discriminator]);
+      const variantSchema = schema.variants[variant];
+      // A new variant is an addition, like an unknown field
+      issues.push(
+        ...(variantSchema
+          ? validateSchema(variantSchema, value, `${path}<${variant}>`)
+          : [{ path: `${path}<${variant}>`, problem: "unknown" as const, received }])
+      );
+      break;
+    }
+    default:
+      break;
+  }
+  return unique(issues);
+}
+
+function isEnvelope(body: unknown): body is { code: unknown; message: unknown; data: unknown } {
+  return typeof body === "object" && body !== null && "code" in body && "message" in body && "data" in body;
+}
+
+function typeOf(value: unknown): string {
+  return value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/** Array elements share one path, so each difference is kept once */
+function unique(issues: SchemaIssue[]): SchemaIssue[] {
+  const seen = new Set<string>();
+  return issues.filter((issue) => {
+    const key = `${issue.problem}:${issue.path}:${issue.received}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function describeIssue(issue: SchemaIssue): string {
+  const at = issue.path || "response";
+  switch (issue.problem) {
+    case "missing":
+      return `${at} is missing`;
+    case "unknown":
+      return `${at} is unknown`;
+    case "type":
+      return `${at} is ${issue.received}, expected ${issue.expected}`;
+  }
+}
@@ -0,0 +1,52 @@
+import { BlockScreen, DriverSidebar, ScreenBlock, SidebarMenuItem, UnsupportedBlock } from "./types";
+
+/** Block types modeled by {@link ScreenBlock} */
+export const SCREEN_BLOCK_TYPES = ["header", "amount", "chart", "list", "banner", "button"] as const;
+
+/** Menu item types modeled by {@link SidebarMenuItem} */
+export const SIDEBAR_ITEM_TYPES = ["screen", "url", "separator"] as const;
+
+/**
+ * Replace blocks of unknown types in a server-driven screen with {@link UnsupportedBlock}.
+ *
+ * @param screen - Screen as received
+ * @returns The screen with only modeled block types
+ *
+ * @since 1.1.0
+ */
+export function normalizeScreen<T extends BlockScreen>(screen: T): T {
+  if (!Array.isArray(screen?.blocks)) {
+    return screen;
+  }
+  return { ...screen, blocks: normalizeList<ScreenBlock>(screen.blocks, SCREEN_BLOCK_TYPES) };
+}
+
+/**
+ * Replace sidebar menu items of unknown types with {@link UnsupportedBlock}.
+ *
+ * @param sidebar - Sidebar as received
+ * @returns The sidebar with only modeled item types
+ *
+ * @since 1.1.0
+ */
+export function normalizeSidebar(sidebar: DriverSidebar): DriverSidebar {
+  if (!Array.isArray(sidebar?.menuItems)) {
+    return sidebar;
+  }
+  return { ...sidebar, menuItems: normalizeList<SidebarMenuItem>(sidebar.menuItems, SIDEBAR_ITEM_TYPES) };
+}
+
+function normalizeList<T>(items: unknown[], known: readonly string[]): T[] {
+  return items.map((item) => {
+    const type = (item as { type?: unknown } | null)?.type;
+    if (typeof type === "string" && known.includes(type)) {
+      return item as T;
+    }
+    const unsupported: UnsupportedBlock = {
+      type: "unsupported",
+      originalType: typeof type === "string" ? type : "",
+      raw: item && typeof item === "object" ? (item as Record<string, unknown>) : { value: item },
+    };
+    return unsupported as T;
+  });
+}
@@ -0,0 +1,137 @@
+import { SessionManagerOptions } from "./types";
+
+/**
+ * Owns the `session_id` sent with every request.
+ *
+ * The driver app mints one session id per app session in the form
+ * `<deviceId>d<unix seconds>.<fraction>` and sends the same value until the session ends.
+ * The manager reproduces that lifecycle: the id is minted lazily, stays stable across
+ * requests and token refreshes, and is replaced when the driver logs in again or the app
+ * returns to the foreground after being in the background.
+ *
+ * @example
+ * ```typescript
+ * const sessions = new SessionManager(deviceInfo.deviceId);
+ *
+ * sessions.getSessionId();                   // '8179B265-...d1735000000.1366549'
+ * sessions.updateAppState('background');
+ * sessions.updateAppState('foreground');     // true: a new session id was minted
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class SessionManager {
+  private readonly deviceId: string;
+  private readonly backgroundTimeoutMs: number;
+  private sessionId: string | undefined;
+  private appState: string | undefined;
+  private backgroundedAt: number | undefined;
+
+  /**
+   * Creates a new SessionManager.
+   *
+   * @param deviceId - Device identifier the session ids are derived from
+   * @param options - Rotation settings
+   */
+  constructor(deviceId: string, options: SessionManagerOptions = {}) {
+    this.deviceId = deviceId;
+    this.backgroundTimeoutMs = options.backgroundTimeoutMs ?? 0;
+  }
+
+  /**
+   * Get the id of the current session, minting one if no session is active.
+   *
+   * @returns Session id
+   */
+  getSessionId(): string {
+    if (!this.sessionId) {
+      this.sessionId = this.mint();
+    }
+    return this.sessionId;
+  }
+
+  /**
+   * Whether a session id has been minted or restored.
+   *
+   * @returns True if a session is active
+   */
+  hasSession(): boolean {
+    return this.sessionId !== undefined;
+  }
+
+  /**
+   * Resume a session persisted earlier. Empty values are ignored.
+   *
+   * @param sessionId - Stored session id
+   */
+  restore(sessionId: string | undefined): void {
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+  }
+
+  /**
+   * Start a new session.
+   *
+   * @returns The new session id
+   */
+  rotate(): string {
+    let sessionId = this.mint();
+    while (sessionId === this.sessionId) {
+      sessionId = this.mint();
+    }
+    this.sessionId = sessionId;
+    return sessionId;
+  }
+
+  /**
+   * Track the app state reported to the API and rotate the session when the app returns
+   * to the foreground after at least `backgroundTimeoutMs` in the background.
+   *
+   * @param appState - App state sent with the request (e.g. 'background', 'foreground')
+   * @returns True if the session was rotated
+   */
+  updateAppState(appState: string): boolean {
+    const previous = this.appState;
+    this.appState = appState;
+
+    if (appState === "background") {
+      if (previous !== "background") {
+        this.backgroundedAt = Date.now();
+      }
+      return false;
+    }
+
+    const backgroundedAt = this.backgroundedAt;
+    this.backgroundedAt = undefined;
+    if (
+      previous === "background" &&
+      backgroundedAt !== undefined &&
+      this.sessionId !== undefined &&
+      Date.now() - backgroundedAt >= this.backgroundTimeoutMs
+    ) {
+      this.rotate();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * End the current session; the next call to {@link getSessionId} mints a new one.
+   */
+  clear(): void {
+    this.sessionId = undefined;
+    this.appState = undefined;
+    this.backgroundedAt = undefined;
+  }
+
+  private mint(): string {
+    const now = Date.now();
+    const seconds = Math.floor(now / 1000);
+    // Sub-second part with the app's seven-digit precision
+    const fraction =
+      String(now % 1000).padStart(3, "0") +
+      String(Math.floor(Math.random() * 10000)).padStart(4, "0");
+    return `${this.deviceId}d${seconds}.${fraction}`;
+  }
+}
@@ -1,6 +1,7 @@
+import { randomUUID } from 'crypto';
 import { promises as fs } from 'fs';
 import { join } from 'path';
-import { TokenStorage, SessionInfo } from './types';
+import { TokenStorage, SessionInfo, FileTokenStorageOptions } from './types';
 
 /**
  * File-based token storage implementation for persistent authentication.
@@ -17,6 +18,9 @@ import { TokenStorage, SessionInfo } from './types';
  * // Custom file location
  * const customStorage = new FileTokenStorage('/path/to/custom/token.json');
  *
+ * // Shared by several worker processes: refreshes are serialized through a lock file
+ * const sharedStorage = new FileTokenStorage('/path/to/shared/token.json', { lock: true });
+ *
  * // Save token after authentication
  * await storage.saveToken('jwt-token-123', {
  *   sessionId: 'session-123',
@@ -33,11 +37,13 @@ import { TokenStorage, SessionInfo } from './types';
  */
 export class FileTokenStorage implements TokenStorage {
   public filePath = join(process.cwd(), '.bolt-token.json');
+  private options: Required<FileTokenStorageOptions>;
 
   /**
    * Creates a new FileTokenStorage instance.
    *
    * @param filePath - Optional custom path for the token file. Defaults to '.bolt-token.json' in the current working directory.
+   * @param options - Optional locking behaviour for token files shared between processes
    *
    * @example
    * ```typescript
@@ -50,8 +56,22 @@ export class FileTokenStorage implements TokenStorage {
    *
    * @since 1.0.0
    */
-  constructor(filePath?: string) {
+  constructor(filePath?: string, options: FileTokenStorageOptions = {}) {
     this.filePath = filePath || join(process.cwd(), '.bolt-token.json');
+    this.options = {
+      lock: false,
+      lockTimeoutMs: 10000,
+      staleLockMs: 30000,
+      lockRetryIntervalMs: 50,
+      ...options
+    };
+  }
+
+  /**
+   * Path of the lock file guarding token refreshes
+   */
+  get lockPath(): string {
+    return `${this.filePath}.lock`;
   }
 
   /**
@@ -155,6 +175,133 @@ export class FileTokenStorage implements TokenStorage {
     const tokenData = await this.loadToken();
     return tokenData !== null;
   }
+
+  /**
+   * Run an operation while holding the cross-process token lock.
+   *
+   * When locking is disabled the operation runs immediately. Otherwise a lock file is
+   * created exclusively next to the token file; other processes wait until it is removed
+   * or becomes stale. Its modification time is refreshed while the operation runs, so a
+   * slow refresh is never mistaken for an abandoned lock.
+   *
+   * @param operation - Operation to run exclusively
+   * @returns Result of the operation
+   * @throws {Error} When the lock cannot be acquired within `lockTimeoutMs`
+   */
+  async withLock<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.options.lock) {
+      return operation();
+    }
+
+    const owner = await this.acquireLock();
+    const heartbeat = setInterval(() => void this.touchLock(owner), this.options.staleLockMs / 3);
+    heartbeat.unref();
+    try {
+      return await operation();
+    } finally {
+      clearInterval(heartbeat);
+      await this.releaseLock(owner);
+    }
+  }
+
+  /**
+   * Acquire the lock file, waiting for other holders and removing stale locks
+   * @returns Nonce identifying this holder in the lock file
+   * @private
+   */
+  private async acquireLock(): Promise<string> {
+    const deadline = Date.now() + this.options.lockTimeoutMs;
+    const owner = randomUUID();
+
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        try {
+          await handle.writeFile(JSON.stringify({ pid: process.pid, owner, acquiredAt: new Date().toISOString() }), 'utf8');
+        } finally {
+          await handle.close();
+        }
+        return owner;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new Error(`Failed to acquire token lock: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      // Read before checking the age: a lock replaced in between must not be removed.
+      // An unreadable lock (e.g. a directory) is waited on like a held one
+      const content = await this.readLock();
+      if (content !== undefined && (await this.isLockStale())) {
+        await this.removeLock((current) => current === content);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for token lock ${this.lockPath}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.lockRetryIntervalMs));
+    }
+  }
+
+  /**
+   * Check whether the current lock file was abandoned by a crashed holder
+   * @private
+   */
+  private async isLockStale(): Promise<boolean> {
+    try {
+      const stats = await fs.stat(this.lockPath);
+      return Date.now() - stats.mtimeMs > this.options.staleLockMs;
+    } catch (error) {
+      // Lock disappeared in the meantime, try again right away
+      return true;
+    }
+  }
+
+  /**
+   * Refresh the modification time of the lock file while this owner still holds it
+   * @param owner - Nonce written when the lock was acquired
+   * @private
+   */
+  private async touchLock(owner: string): Promise<void> {
+    // A lock taken over as stale belongs to its new holder and must be left to age
+    const content = await this.readLock();
+    if (content !== undefined && lockOwner(content) === owner) {
+      const now = new Date();
+      await fs.utimes(this.lockPath, now, now).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Read the raw content of the lock file
+   * @returns The content, or undefined when there is no lock file
+   * @private
+   */
+  private async readLock(): Promise<string | undefined> {
+    return fs.readFile(this.lockPath, 'utf8').catch(() => undefined);
+  }
+
+  /**
+   * Remove the lock file if its current content passes a check
+   * @param check - Decides from the lock file content whether to remove it
+   * @private
+   */
+  private async removeLock(check: (content: string) => boolean): Promise<void> {
+    const content = await this.readLock();
+    if (content !== undefined && check(content)) {
+      await fs.unlink(this.lockPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Remove the lock file if it is still held by this owner
+   * @param owner - Nonce written when the lock was acquired
+   * @private
+   */
+  private async releaseLock(owner: string): Promise<void> {
+    // The lock may have been taken over by another process that considered it stale
+    await this.removeLock((content) => lockOwner(content) === owner);
+  }
 }
 
 /**
@@ -235,3 +382,16 @@ export class MemoryTokenStorage implements TokenStorage {
     return this.tokenData !== null;
   }
 }
+
+/**
+ * Owner nonce recorded in a lock file
+ * @param content - Raw lock file content
+ * @returns The nonce, or undefined for locks without a readable owner
+ */
+function lockOwner(content: string): string | undefined {
+  try {
+    return (JSON.parse(content) as { owner?: string }).owner;
+  } catch (error) {
+    return undefined;
+  }
+}
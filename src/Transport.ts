@@ -0,0 +1,387 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  TransportMiddleware,
+  TransportOptions,
+  MemoryTransportRoute,
+  HttpMethod,
+  BoltApiError,
+  RequestAbortedError,
+} from "./types";
+
+/**
+ * Transport backed by an axios instance. This is the default transport of {@link BoltDriverAPI}.
+ *
+ * @example
+ * ```typescript
+ * const transport = new AxiosTransport({ timeout: 10000 });
+ * const response = await transport.request({
+ *   method: 'GET',
+ *   url: 'https://partnerdriver.live.boltsvc.net/partnerDriver/getDriverHomeScreen',
+ *   params: { version: 'DI.116.0' },
+ *   headers: {}
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class AxiosTransport implements Transport {
+  /** Underlying axios instance, e.g. for adding agents or interceptors */
+  public readonly client: AxiosInstance;
+  private readonly defaultHeaders: Record<string, string>;
+
+  /**
+   * Creates a new AxiosTransport with its own axios instance.
+   *
+   * @param options - Base URL, default timeout and default headers of the instance
+   */
+  constructor(options: TransportOptions = {}) {
+    this.defaultHeaders = { ...options.headers };
+
+    const config: AxiosRequestConfig = { headers: this.defaultHeaders };
+    if (options.baseURL) {
+      config.baseURL = options.baseURL;
+    }
+    if (options.timeout !== undefined) {
+      config.timeout = options.timeout;
+    }
+    this.client = axios.create(config);
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    let response: AxiosResponse<T>;
+    try {
+      response = await this.send<T>(request, this.toAxiosConfig(request));
+    } catch (error) {
+      return this.fromError<T>(error);
+    }
+    return toTransportResponse(response);
+  }
+
+  /**
+   * Dispatch the request. The config is only passed when it sets something the
+   * instance defaults do not already cover.
+   * @private
+   */
+  private send<T>(request: TransportRequest, config: AxiosRequestConfig | undefined): Promise<AxiosResponse<T>> {
+    const { url } = request;
+    switch (request.method) {
+      case "GET":
+        return config ? this.client.get<T>(url, config) : this.client.get<T>(url);
+      case "POST":
+        return config
+          ? this.client.post<T>(url, request.data ?? {}, config)
+          : this.client.post<T>(url, request.data ?? {});
+      case "PUT":
+        return config
+          ? this.client.put<T>(url, request.data, config)
+          : this.client.put<T>(url, request.data);
+    }
+  }
+
+  /**
+   * Translate a transport request into axios request settings
+   * @private
+   */
+  private toAxiosConfig(request: TransportRequest): AxiosRequestConfig | undefined {
+    const config: AxiosRequestConfig = {};
+    if (request.params) {
+      config.params = request.params;
+    }
+    const headers = Object.entries(request.headers).filter(
+      ([name, value]) => this.defaultHeaders[name] !== value
+    );
+    if (headers.length > 0) {
+      config.headers = Object.fromEntries(headers);
+    }
+    if (request.timeout !== undefined) {
+      config.timeout = request.timeout;
+    }
+    if (request.signal) {
+      config.signal = request.signal;
+    }
+    if (request.responseType === "arraybuffer") {
+      config.responseType = "arraybuffer";
+    }
+    return Object.keys(config).length > 0 ? config : undefined;
+  }
+
+  /**
+   * Turn an axios failure into the transport contract
+   * @private
+   */
+  private fromError<T>(error: unknown): TransportResponse<T> {
+    if (axios.isCancel(error)) {
+      throw new RequestAbortedError("Request aborted", error);
+    }
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        throw new BoltApiError(`Network error: ${error.message}`, 0);
+      }
+      // axios rejects non-2xx statuses; they are ordinary responses to the SDK's middleware
+      if (error.response.status >= 300) {
+        return toTransportResponse(error.response as AxiosResponse<T>);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Transport backed by the native `fetch` of Node.js 18+ (undici).
+ *
+ * @example
+ * ```typescript
+ * const api = new BoltDriverAPI(deviceInfo, authConfig, {
+ *   transport: new FetchTransport({ timeout: 10000 })
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class FetchTransport implements Transport {
+  private readonly options: TransportOptions;
+
+  /**
+   * Creates a new FetchTransport.
+   *
+   * @param options - Base URL, default timeout and default headers
+   */
+  constructor(options: TransportOptions = {}) {
+    this.options = options;
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    if (request.signal?.aborted) {
+      throw new RequestAbortedError();
+    }
+
+    const url = buildUrl(resolveUrl(this.options.baseURL, request.url), request.params);
+    const headers: Record<string, string> = { ...this.options.headers, ...request.headers };
+    const init: RequestInit = { method: request.method, headers };
+    if (request.method !== "GET") {
+      init.body = JSON.stringify(request.data ?? {});
+      if (!Object.keys(headers).some((name) => name.toLowerCase() === "content-type")) {
+        headers["Content-Type"] = "application/json";
+      }
+    }
+
+    // One controller for both the caller's signal and the timeout
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener("abort", onAbort, { once: true });
+    const timeout = request.timeout ?? this.options.timeout;
+    let timedOut = false;
+    const timer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+    init.signal = controller.signal;
+
+    try {
+      const response = await fetch(url, init);
+      const data =
+        request.responseType === "arraybuffer"
+          ? await response.arrayBuffer()
+          : parseBody(await response.text());
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name] = value;
+      });
+      return { status: response.status, headers: responseHeaders, data: data as T };
+    } catch (error) {
+      if (timedOut) {
+        throw new BoltApiError(`Network error: timeout of ${timeout}ms exceeded`, 0);
+      }
+      if (request.signal?.aborted) {
+        throw new RequestAbortedError("Request aborted", error);
+      }
+      throw new BoltApiError(`Network error: ${describeFetchError(error)}`, 0);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+/**
+ * In-memory transport for tests: requests are answered by registered routes and recorded
+ * instead of being sent over the network.
+ *
+ * Routes are matched on the method and either the exact path or full URL (strings) or the
+ * URL without its query string (regular expressions). The most recently registered matching
+ * route wins; unmatched requests get a 404 response.
+ *
+ * @example
+ * ```typescript
+ * const transport = new MemoryTransport()
+ *   .on('GET', '/partnerDriver/getDriverHomeScreen', { data: { code: 0, message: 'OK', data: {} } })
+ *   .on('POST', /getAccessToken$/, (request) => ({ status: 401, data: { code: 503 } }));
+ *
+ * const api = new BoltDriverAPI(deviceInfo, authConfig, { transport });
+ * await api.getDriverHomeScreen(gpsInfo);
+ *
+ * transport.requests[0].params; // query parameters the SDK sent
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class MemoryTransport implements Transport {
+  /** Every request received, oldest first */
+  public readonly requests: TransportRequest[] = [];
+  private routes: MemoryTransportRoute[] = [];
+
+  /**
+   * Register a route.
+   *
+   * @param method - HTTP method to match
+   * @param path - Path or full URL, or a pattern tested against the URL without its query string
+   * @param reply - Response to return, or a function computing it from the request
+   * @returns This transport, for chaining
+   */
+  on(
+    method: HttpMethod,
+    path: string | RegExp,
+    reply: MemoryTransportRoute["reply"]
+  ): this {
+    this.routes.push({ method, path, reply });
+    return this;
+  }
+
+  /**
+   * Remove all routes and recorded requests.
+   */
+  reset(): void {
+    this.routes = [];
+    this.requests.length = 0;
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    if (request.signal?.aborted) {
+      throw new RequestAbortedError();
+    }
+    this.requests.push(request);
+
+    const route = [...this.routes].reverse().find((candidate) => this.matches(candidate, request));
+    if (!route) {
+      return {
+        status: 404,
+        headers: {},
+        data: { code: 404, message: `No route for ${request.method} ${request.url}` } as T,
+      };
+    }
+
+    const reply = typeof route.reply === "function" ? await route.reply(request) : route.reply;
+    return {
+      status: reply.status ?? 200,
+      headers: reply.headers ?? {},
+      data: reply.data as T,
+    };
+  }
+
+  private matches(route: MemoryTransportRoute, request: TransportRequest): boolean {
+    if (route.method !== request.method) {
+      return false;
+    }
+    const url = request.url.split("?")[0] ?? request.url;
+    if (route.path instanceof RegExp) {
+      return route.path.test(url);
+    }
+    return url === route.path || new URL(url, "http://localhost").pathname === route.path;
+  }
+}
+
+/**
+ * Wrap a transport in middleware. The first middleware is the outermost: it sees the
+ * request first and the response last.
+ *
+ * @param transport - Transport sending the requests
+ * @param middleware - Middleware, outermost first
+ * @returns Transport running every request through the middleware
+ *
+ * @since 1.1.0
+ */
+export function applyMiddleware(transport: Transport, middleware: TransportMiddleware[]): Transport {
+  const dispatch = middleware.reduceRight<(request: TransportRequest) => Promise<TransportResponse>>(
+    (next, step) => (request) => step(request, next),
+    (request) => transport.request(request)
+  );
+  return {
+    request: <T>(request: TransportRequest) => dispatch(request) as Promise<TransportResponse<T>>,
+  };
+}
+
+function toTransportResponse<T>(response: AxiosResponse<T>): TransportResponse<T> {
+  return {
+    data: response.data,
+    status: response.status,
+    headers: normalizeHeaders(response.headers),
+  };
+}
+
+function normalizeHeaders(headers: unknown): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  if (!headers || typeof headers !== "object") {
+    return normalized;
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && value !== null) {
+      normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(", ") : String(value);
+    }
+  }
+  return normalized;
+}
+
+function resolveUrl(baseURL: string | undefined, url: string): string {
+  if (!baseURL || /^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+    return url;
+  }
+  return `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+}
+
+/** Serialize query parameters the way axios does */
+export function buildUrl(url: string, params: object | undefined): string {
+  if (!params) {
+    return url;
+  }
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((item) => search.append(`${name}[]`, String(item)));
+    } else {
+      search.append(name, String(value));
+    }
+  }
+  const query = search.toString();
+  if (!query) {
+    return url;
+  }
+  return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+}
+
+function parseBody(text: string): unknown {
+  if (!text) {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function describeFetchError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  // undici reports the underlying socket error (ECONNREFUSED, ENOTFOUND...) as the cause
+  const { cause } = error as { cause?: unknown };
+  return cause instanceof Error ? cause.message : error.message;
+}
@@ -0,0 +1,33 @@
+import { PendingVerification, ValidationError, VerificationCooldownError } from "./types";
+
+/**
+ * Compute when a new code may be requested after Bolt sent one, the cooldown shared by
+ * `BoltDriverAPI` and `AuthFlow`
+ * @param resendWaitSeconds - `resend_wait_time_seconds` of the startAuthentication response
+ * @returns Unix timestamp in milliseconds
+ */
+export function resendDeadline(resendWaitSeconds = 0): number {
+  return Date.now() + resendWaitSeconds * 1000;
+}
+
+/**
+ * Check that a new verification code may be requested, shared by
+ * `BoltDriverAPI.resendVerificationCode` and `AuthFlow.resendCode`
+ * @param verification - Channels and resend deadline of the pending code
+ * @param channel - Requested channel; defaults to Bolt's choice
+ * @throws {ValidationError} When the channel is not available
+ * @throws {VerificationCooldownError} When the resend wait has not passed yet
+ */
+export function assertResendAllowed(
+  verification: Partial<Pick<PendingVerification, "availableChannels" | "resendAvailableAt">>,
+  channel?: string
+): void {
+  const { availableChannels = [], resendAvailableAt = 0 } = verification;
+  if (channel && availableChannels.length > 0 && !availableChannels.includes(channel)) {
+    throw new ValidationError(`Verification code channel '${channel}' is not available`, 400);
+  }
+  const waitMs = resendAvailableAt - Date.now();
+  if (waitMs > 0) {
+    throw new VerificationCooldownError(waitMs);
+  }
+}
@@ -2,6 +2,26 @@
 export { BoltDriverAPI } from './BoltDriverAPI';
 export { FileTokenStorage, MemoryTokenStorage } from './TokenStorage';
 export { Logger } from './Logger';
+export { RetryPolicy, parseRetryAfter } from './RetryPolicy';
+export type { RetryContext } from './RetryPolicy';
+export { ENDPOINTS } from './Endpoints';
+export { HostRegistry, DEFAULT_HOSTS } from './HostRegistry';
+export { DeviceProfile, DEVICE_PRESETS, PLATFORM_PROFILES } from './DeviceProfile';
+export { SessionManager } from './SessionManager';
+export { AxiosTransport, FetchTransport, MemoryTransport, applyMiddleware } from './Transport';
+export { HarRecorder } from './HarRecorder';
+export { HarReplayTransport } from './HarReplayTransport';
+export { SchemaValidator, validateSchema } from './SchemaValidator';
+export { SCHEMAS, RESPONSE_SCHEMAS } from './ResponseSchemas';
+export { normalizeScreen, normalizeSidebar, SCREEN_BLOCK_TYPES, SIDEBAR_ITEM_TYPES } from './ScreenBlocks';
+export { parseCarName } from './DriverConfiguration';
+export { FeatureFlags } from './FeatureFlags';
+export { AuthFlow, FileAuthFlowStore, MemoryAuthFlowStore } from './AuthFlow';
+export { OtpReauthProvider, MagicLinkReauthProvider } from './Reauthentication';
+export type { ReauthProvider, ReauthContext, OtpReauthOptions, MagicLinkReauthOptions } from './Reauthentication';
+export { MagicLinkWatcher } from './MagicLinkWatcher';
+export { MaildirMailboxSource, MboxMailboxSource, ImapMailboxSource } from './MailboxSources';
+export type { EndpointName } from './Endpoints';
 export * from './types';
 
 // Re-export commonly used types for convenience
@@ -21,5 +41,8 @@ export type {
 export {
   BoltApiError,
   AuthenticationError,
-  ValidationError
+  ValidationError,
+  RequestAbortedError,
+  UnmatchedRequestError,
+  SchemaMismatchError
 } from './types';
@@ -0,0 +1,653 @@
+import { createHmac, randomBytes } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { ENDPOINTS, EndpointName } from "../Endpoints";
+import { ScenarioRunner, validateScenario } from "./Scenario";
+import {
+  ApiResponse,
+  EndpointHost,
+  FakeBoltServerOptions,
+  FakeDriver,
+  FakeServerRequest,
+  FaultScenario,
+  HostMap,
+  MemoryTransportReply,
+  OrderHistoryItem,
+} from "../types";
+
+/** Handler answering a request to a catalogued endpoint */
+type FakeEndpointHandler = (request: FakeServerRequest, driver: FakeDriver | undefined) => MemoryTransportReply;
+
+/** Path prefix each named host is served under, mirroring the real base URLs */
+const HOST_PREFIXES: Record<EndpointHost, string> = {
+  auth: "/partnerDriver",
+  partnerDriver: "/partnerDriver",
+  driver: "",
+  company: "/company",
+  search: "/node",
+  sinch: "/sinch",
+};
+
+/** Messages of the error codes the fake server returns */
+const ERROR_MESSAGES: Record<number, string> = {
+  293: "SMS_CODE_NOT_FOUND",
+  299: "SMS_LIMIT_REACHED",
+  404: "NOT_FOUND",
+  503: "NOT_AUTHORIZED",
+  1000: "DATABASE_ERROR",
+  17500: "PARSING_PHONE_FAILED",
+};
+
+/** A 1x1 transparent PNG, served as every map tile */
+const TILE_PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64"
+);
+
+interface Route {
+  endpoint: EndpointName;
+  method: string;
+  pattern: RegExp;
+}
+
+interface IssuedToken {
+  driverId: number;
+  kind: "access" | "refresh";
+  expiresAt: number;
+}
+
+/**
+ * Local stand-in for the Bolt backend, for integration tests over real HTTP.
+ *
+ * The server implements every endpoint of {@link ENDPOINTS} under the paths the SDK
+ * calls, keeps stateful fake drivers, issues HS256 JWTs with real `exp` claims and returns
+ * the documented error codes: SMS_LIMIT_REACHED (299), SMS_CODE_NOT_FOUND (293),
+ * PARSING_PHONE_FAILED (17500), DATABASE_ERROR (1000) and NOT_AUTHORIZED (503).
+ *
+ * @example
+ * ```typescript
+ * const server = new FakeBoltServer({ verificationCode: '111111' });
+ * await server.start();
+ * server.addDriver({ phone: '+48123456789' });
+ *
+ * const api = new BoltDriverAPI(deviceInfo, authConfig, { hosts: server.hosts });
+ * const { data } = await api.startAuthentication(authConfig, deviceInfo, credentials);
+ * await api.confirmAuthentication(authConfig, deviceInfo, { ...credentials, verification_token: data.verification_token }, '111111');
+ *
+ * server.failNext('getDriverState', 1000); // DATABASE_ERROR on the next poll
+ * await server.stop();
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class FakeBoltServer {
+  /** Registered drivers, by phone number */
+  public readonly drivers = new Map<string, FakeDriver>();
+  /** Every request received, oldest first */
+  public readonly requests: FakeServerRequest[] = [];
+  /** Magic link URLs "emailed" by `sendMagicLink`, by email address */
+  public readonly magicLinks = new Map<string, string>();
+
+  private readonly options: Required<FakeBoltServerOptions>;
+  private readonly secret = randomBytes(32);
+  private readonly routes: Route[];
+  private readonly handlers: Partial<Record<EndpointName, FakeEndpointHandler>> = {};
+  private readonly failures: Partial<Record<EndpointName, MemoryTransportReply[]>> = {};
+  private readonly tokens = new Map<string, IssuedToken>();
+  private readonly verifications = new Map<string, string>();
+  private readonly magicTokens = new Map<string, string>();
+  private server: Server | undefined;
+  private baseUrl: string | undefined;
+  private scenario: ScenarioRunner | undefined;
+  private nextDriverId = 1000;
+
+  /**
+   * Creates a new FakeBoltServer. Call {@link start} to listen.
+   *
+   * @param options - Port, SMS settings and token lifetimes
+   */
+  constructor(options: FakeBoltServerOptions = {}) {
+    this.options = {
+      port: 0,
+      hostname: "127.0.0.1",
+      verificationCode: "123456",
+      smsLimit: 5,
+      verificationChannels: ["sms"],
+      accessTokenTtlSeconds: 3600,
+      refreshTokenTtlSeconds: 30 * 24 * 3600,
+      autoRegister: true,
+      ...options,
+    };
+
+    this.routes = (Object.keys(ENDPOINTS) as EndpointName[]).map((endpoint) => {
+      const { host, method, path } = ENDPOINTS[endpoint];
+      const source = `${HOST_PREFIXES[host]}${path}`
+        .replace(/[.*+?^$()|[\]\\]/g, "\\$&")
+        .replace(/\{[^}]+\}/g, "[^/]+");
+      return { endpoint, method, pattern: new RegExp(`^${source}$`) };
+    });
+  }
+
+  /**
+   * Base URL of the running server.
+   *
+   * @throws {Error} When the server is not running
+   */
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error("FakeBoltServer is not running");
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Host overrides pointing every named host at this server, for `BoltApiConfig.hosts`.
+   */
+  get hosts(): HostMap {
+    const url = this.url;
+    const hosts = {} as HostMap;
+    for (const [host, prefix] of Object.entries(HOST_PREFIXES) as [EndpointHost, string][]) {
+      hosts[host] = `${url}${prefix}`;
+    }
+    return hosts;
+  }
+
+  /**
+   * Start listening.
+   *
+   * @returns Base URL of the server
+   */
+  async start(): Promise<string> {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ code: 500, message: error instanceof Error ? error.message : String(error) }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.hostname, () => resolve());
+    });
+    this.server = server;
+    const { port } = server.address() as AddressInfo;
+    this.baseUrl = `http://${this.options.hostname}:${port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening and close open connections.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    this.baseUrl = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Register a driver. Omitted fields get generated defaults, including a ride history.
+   *
+   * @param driver - Driver fields; `phone` identifies the driver
+   * @returns The stored driver
+   */
+  addDriver(driver: Partial<FakeDriver> & { phone: string }): FakeDriver {
+    const driverId = driver.driverId ?? this.nextDriverId++;
+    const stored: FakeDriver = {
+      driverId,
+      partnerId: driverId + 5000,
+      companyId: 1,
+      companyCityId: 1,
+      email: `driver${driverId}@example.com`,
+      status: "inactive",
+      orders: createOrderHistory(driverId, 25),
+      workingTime: {
+        daily_online_duration_seconds: 0,
+        daily_driving_duration_seconds: 0,
+        weekly_online_duration_seconds: 0,
+        weekly_driving_duration_seconds: 0,
+      },
+      smsSent: 0,
+      ...driver,
+    };
+    this.drivers.set(stored.phone, stored);
+    return stored;
+  }
+
+  /**
+   * Replace the built-in behavior of an endpoint.
+   *
+   * @param endpoint - Endpoint to answer
+   * @param handler - Computes the response from the request and the authenticated driver
+   * @returns This server, for chaining
+   */
+  on(endpoint: EndpointName, handler: FakeEndpointHandler): this {
+    this.handlers[endpoint] = handler;
+    return this;
+  }
+
+  /**
+   * Make the next request to an endpoint fail with an API error code.
+   *
+   * @param endpoint - Endpoint to fail
+   * @param code - Error code, e.g. 1000 for DATABASE_ERROR
+   * @param message - Error message (defaults to the code's name)
+   * @returns This server, for chaining
+   */
+  failNext(endpoint: EndpointName, code: number, message?: string): this {
+    (this.failures[endpoint] ??= []).push({ data: envelope(code, undefined, message) });
+    return this;
+  }
+
+  /**
+   * Inject the faults of a scenario into the following requests: latency spikes,
+   * connection resets, truncated bodies, HTTP statuses, API error codes, expired
+   * tokens and patched responses. Call counts and time windows start now.
+   *
+   * @param scenario - Scenario, e.g. from {@link loadScenario}; `undefined` removes the current one
+   * @returns This server, for chaining
+   * @throws {ValidationError} When the scenario is invalid
+   */
+  useScenario(scenario: FaultScenario | undefined): this {
+    this.scenario = scenario ? new ScenarioRunner(validateScenario(scenario)) : undefined;
+    return this;
+  }
+
+  /**
+   * Invalidate every token issued so far, as if the backend revoked the sessions.
+   *
+   * @param kind - Only revoke access or refresh tokens (default: both)
+   */
+  revokeTokens(kind?: "access" | "refresh"): void {
+    for (const [token, issued] of this.tokens) {
+      if (!kind || issued.kind === kind) {
+        this.tokens.delete(token);
+      }
+    }
+  }
+
+  /**
+   * Issue a signed JWT for a driver.
+   *
+   * @param driver - Driver the token belongs to
+   * @param kind - Access or refresh token
+   * @param ttlSeconds - Lifetime (defaults to the configured one)
+   * @returns The JWT
+   */
+  issueToken(driver: FakeDriver, kind: "access" | "refresh" = "access", ttlSeconds?: number): string {
+    const now = Math.floor(Date.now() / 1000);
+    const ttl =
+      ttlSeconds ?? (kind === "access" ? this.options.accessTokenTtlSeconds : this.options.refreshTokenTtlSeconds);
+    const payload = {
+      data: {
+        driver_id: driver.driverId,
+        partner_id: driver.partnerId,
+        company_id: driver.companyId,
+        company_city_id: driver.companyCityId,
+      },
+      token_kind: kind,
+      jti: randomBytes(8).toString("hex"),
+      iat: now,
+      exp: now + ttl,
+    };
+    const unsigned = `${base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))}.${base64url(JSON.stringify(payload))}`;
+    const token = `${unsigned}.${base64url(createHmac("sha256", this.secret).update(unsigned).digest())}`;
+    this.tokens.set(token, { driverId: driver.driverId, kind, expiresAt: payload.exp * 1000 });
+    return token;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const request: FakeServerRequest = {
+      method: req.method ?? "GET",
+      url: req.url ?? "/",
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(
+        Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value.join(", ") : value ?? ""])
+      ),
+      body: parseBody(await readBody(req)),
+    };
+    const route = this.routes.find((candidate) => candidate.method === request.method && candidate.pattern.test(url.pathname));
+    if (route) {
+      request.endpoint = route.endpoint;
+    }
+    this.requests.push(request);
+
+    const faults = this.scenario?.next(route?.endpoint) ?? [];
+    let reply: MemoryTransportReply | undefined;
+    let truncate: number | "half" | undefined;
+    for (const fault of faults) {
+      switch (fault.type) {
+        case "latency":
+          await new Promise((resolve) => setTimeout(resolve, fault.ms));
+          break;
+        case "reset":
+          req.socket.destroy();
+          return;
+        case "expireToken":
+          this.expireToken(request);
+          break;
+        case "status":
+          reply ??= {
+            status: fault.status,
+            headers: fault.retryAfter !== undefined ? { "Retry-After": String(fault.retryAfter) } : {},
+            data: fault.body ?? envelope(fault.status),
+          };
+          break;
+        case "error":
+          reply ??= { data: envelope(fault.code, undefined, fault.message) };
+          break;
+        default:
+          break;
+      }
+    }
+
+    reply ??= route ? this.dispatch(route.endpoint, request) : { status: 404, data: envelope(404) };
+    for (const fault of faults) {
+      if (fault.type === "patch") {
+        reply = { ...reply, data: patch(reply.data, fault.set) };
+      } else if (fault.type === "truncate") {
+        truncate = fault.bytes ?? "half";
+      }
+    }
+    send(res, reply, truncate);
+  }
+
+  private dispatch(endpoint: EndpointName, request: FakeServerRequest): MemoryTransportReply {
+    const failure = this.failures[endpoint]?.shift();
+    if (failure) {
+      return failure;
+    }
+
+    const driver = this.authenticate(request);
+    if (ENDPOINTS[endpoint].requiresAuth && !driver) {
+      return { data: envelope(503) };
+    }
+
+    const handler = this.handlers[endpoint] ?? this.builtInHandler(endpoint);
+    return handler(request, driver);
+  }
+
+  /**
+   * Driver identified by a valid, unexpired bearer token
+   * @private
+   */
+  private authenticate(request: FakeServerRequest): FakeDriver | undefined {
+    const match = /^Bearer (.+)$/.exec(request.headers["authorization"] ?? "");
+    const issued = match?.[1] ? this.tokens.get(match[1]) : undefined;
+    if (!issued || Date.now() >= issued.expiresAt) {
+      return undefined;
+    }
+    return this.findDriver(issued.driverId);
+  }
+
+  /**
+   * Expire the bearer token of a request, as if its lifetime ran out
+   * @private
+   */
+  private expireToken(request: FakeServerRequest): void {
+    const match = /^Bearer (.+)$/.exec(request.headers["authorization"] ?? "");
+    const issued = match?.[1] ? this.tokens.get(match[1]) : undefined;
+    if (issued) {
+      issued.expiresAt = Date.now();
+    }
+  }
+
+  private builtInHandler(endpoint: EndpointName): FakeEndpointHandler {
+    switch (endpoint) {
+      case "startAuthentication":
+        return (request) => this.startAuthentication(request);
+      case "confirmAuthentication":
+        return (request) => this.confirmAuthentication(request);
+      case "sendMagicLink":
+        return (request) => this.sendMagicLink(request);
+      case "authenticateWithMagicLink":
+        return (request) => {
+          const token = String(field(request, "token"));
+          const phone = this.magicTokens.get(token);
+          const driver = phone ? this.drivers.get(phone) : undefined;
+          if (!driver) {
+            return { data: envelope(503) };
+          }
+          this.magicTokens.delete(token);
+          return { data: envelope(0, { refresh_token: this.issueToken(driver, "refresh") }) };
+        };
+      case "exchangeRefreshTokenForJWT":
+        return (request) => {
+          const issued = this.tokens.get(String(field(request, "refresh_token")));
+          const driver = issued && this.findDriver(issued.driverId);
+          if (!issued || !driver || issued.kind !== "refresh" || Date.now() >= issued.expiresAt) {
+            return { data: envelope(503) };
+          }
+          return { data: envelope(0, this.accessTokenPayload(driver)) };
+        };
+      case "getAccessToken":
+        return (_request, driver) => (driver ? { data: envelope(0, this.accessTokenPayload(driver)) } : { data: envelope(503) });
+      case "getDriverState":
+        return (_request, driver) => ({
+          data: envelope(0, {
+            driver_status: driver?.status,
+            next_polling_in_sec: 5,
+            ...(driver?.activeOrder ? { active_order_handle: driver.activeOrder } : {}),
+          }),
+        });
+      case "getDriverHomeScreen":
+        return () => ({
+          data: envelope(0, {
+            layout: { maxRow: 2, maxColumn: 2 },
+            items: [{ type: "earnings", id: "earnings", layout: { x: 0, y: 0, width: 2, height: 1 }, data: {} }],
+            pollIntervalSec: 30,
+            driverSidebarHash: "fake",
+          }),
+        });
+      case "getWorkingTimeInfo":
+        return (_request, driver) => ({ data: envelope(0, driver?.workingTime) });
+      case "getDispatchPreferences":
+        return () => ({
+          data: envelope(0, {
+            is_dispatch_enabled: true,
+            categories: [{ id: "bolt", name: "Bolt", is_enabled: true }],
+          }),
+        });
+      case "getDriverNavBarBadges":
+        return () => ({ data: envelope(0, { is_help_badge_present: false }) });
+      case "getOtherActiveDrivers":
+        return () => ({ data: envelope(0, { list: [] }) });
+      case "getOrderHistoryPaginated":
+        return (request, driver) => {
+          const orders = driver?.orders ?? [];
+          const limit = Number(request.query["limit"] ?? 10);
+          const offset = Number(request.query["offset"] ?? 0);
+          return { data: envelope(0, { orders: orders.slice(offset, offset + limit), limit, offset, total: orders.length }) };
+        };
+      case "getRideDetails":
+        return (request, driver) => {
+          const order = driver?.orders.find((item) => item.order_handle.orderId === request.query["order_id"]);
+          return order ? { data: envelope(0, rideDetails(order)) } : { data: envelope(404) };
+        };
+      case "getMapTile":
+        return () => ({ headers: { "Content-Type": "image/png" }, data: TILE_PNG });
+      case "updatePushProfile":
+        return () => ({ data: {} });
+      default:
+        return () => ({ data: envelope(0, {}) });
+    }
+  }
+
+  private startAuthentication(request: FakeServerRequest): MemoryTransportReply {
+    const phone = String(field(request, "phone") ?? "");
+    if (!/^\+\d{8,15}$/.test(phone)) {
+      return { data: envelope(17500) };
+    }
+    const driver = this.drivers.get(phone) ?? (this.options.autoRegister ? this.addDriver({ phone }) : undefined);
+    if (!driver) {
+      return { data: envelope(17500, undefined, "DRIVER_NOT_FOUND") };
+    }
+    if (driver.smsSent >= this.options.smsLimit) {
+      return { data: envelope(299) };
+    }
+    driver.smsSent++;
+
+    const channels = this.options.verificationChannels;
+    const requested = field(request, "verification_code_channel");
+    const channel = channels.find((candidate) => candidate === requested) ?? channels[0] ?? "sms";
+
+    const verificationToken = randomBytes(16).toString("hex");
+    this.verifications.set(verificationToken, phone);
+    return {
+      data: envelope(0, {
+        verification_token: verificationToken,
+        verification_code_channel: channel,
+        verification_code_target: `${phone.slice(0, 4)}*****${phone.slice(-2)}`,
+        verification_code_length: this.options.verificationCode.length,
+        resend_wait_time_seconds: 30,
+        available_verification_code_channels: channels,
+      }),
+    };
+  }
+
+  private confirmAuthentication(request: FakeServerRequest): MemoryTransportReply {
+    const phone = this.verifications.get(String(field(request, "verification_token")));
+    const driver = phone ? this.drivers.get(phone) : undefined;
+    if (!phone || !driver || field(request, "verification_code") !== this.options.verificationCode) {
+      return { data: envelope(293) };
+    }
+    this.verifications.delete(String(field(request, "verification_token")));
+    return {
+      data: envelope(0, {
+        type: "driver",
+        token: { refresh_token: this.issueToken(driver, "refresh"), token_type: "driver" },
+      }),
+    };
+  }
+
+  private sendMagicLink(request: FakeServerRequest): MemoryTransportReply {
+    const email = String(field(request, "email") ?? "");
+    let driver = [...this.drivers.values()].find((candidate) => candidate.email === email);
+    if (!driver && this.options.autoRegister) {
+      driver = this.addDriver({ phone: `+4800${this.nextDriverId}`, email });
+    }
+    if (driver) {
+      const token = randomBytes(16).toString("hex");
+      this.magicTokens.set(token, driver.phone);
+      this.magicLinks.set(email, `https://partners.bolt.eu/driverapp/magic-login?token=${token}`);
+    }
+    // Like the real backend, unknown addresses are not disclosed
+    return { data: envelope(0) };
+  }
+
+  private accessTokenPayload(driver: FakeDriver) {
+    const accessToken = this.issueToken(driver, "access");
+    const expiresInSeconds = this.options.accessTokenTtlSeconds;
+    return {
+      access_token: accessToken,
+      expires_in_seconds: expiresInSeconds,
+      expires_timestamp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    };
+  }
+
+  private findDriver(driverId: number): FakeDriver | undefined {
+    return [...this.drivers.values()].find((driver) => driver.driverId === driverId);
+  }
+}
+
+function envelope(code: number, data?: unknown, message?: string): ApiResponse {
+  return { code, message: message ?? (code === 0 ? "OK" : ERROR_MESSAGES[code] ?? "ERROR"), data: data ?? {} };
+}
+
+function field(request: FakeServerRequest, name: string): unknown {
+  const body = request.body;
+  return body && typeof body === "object" ? (body as Record<string, unknown>)[name] : undefined;
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Write a reply, optionally cut after `truncate` bytes ("half" keeps half of the body)
+ */
+function send(res: ServerResponse, reply: MemoryTransportReply, truncate?: number | "half"): void {
+  let body = Buffer.isBuffer(reply.data) ? reply.data : Buffer.from(JSON.stringify(reply.data ?? {}));
+  if (truncate !== undefined) {
+    body = body.subarray(0, truncate === "half" ? Math.floor(body.length / 2) : truncate);
+  }
+  res.writeHead(reply.status ?? 200, {
+    "Content-Type": "application/json; charset=utf-8",
+    ...reply.headers,
+  });
+  res.end(body);
+}
+
+/**
+ * Copy of a JSON response with fields overwritten by dotted path, e.g. `data.items`
+ */
+function patch(data: unknown, set: Record<string, unknown>): unknown {
+  if (!data || typeof data !== "object" || Buffer.isBuffer(data)) {
+    return data;
+  }
+  const patched = JSON.parse(JSON.stringify(data)) as Record<string, unknown>;
+  for (const [path, value] of Object.entries(set)) {
+    const keys = path.split(".");
+    const last = keys.pop() as string;
+    let target = patched;
+    for (const key of keys) {
+      const next = target[key];
+      target = (target[key] = next && typeof next === "object" ? next : {}) as Record<string, unknown>;
+    }
+    target[last] = value;
+  }
+  return patched;
+}
+
+function createOrderHistory(driverId: number, count: number): OrderHistoryItem[] {
+  const addresses = ["Marszałkowska 1, Warszawa", "Nowy Świat 15, Warszawa", "Aleje Jerozolimskie 54, Warszawa"];
+  return Array.from({ length: count }, (_, index) => ({
+    address: addresses[index % addresses.length] ?? "",
+    state: index % 7 === 3 ? "cancelled" : "finished",
+    created: new Date(Date.now() - (index + 1) * 3600000).toISOString(),
+    payment_type: index % 2 === 0 ? "cash" : "card",
+    price_str: `${(12 + index * 1.5).toFixed(2)} zł`,
+    order_handle: { orderId: `${driverId}-${index + 1}`, cityId: 1, orderSystem: "taxify" },
+  }));
+}
+
+function rideDetails(order: OrderHistoryItem) {
+  return {
+    state: order.state,
+    pickup_address: order.address,
+    pickup_location: { lat: 52.2297, lng: 21.0122 },
+    destination_address: "Plac Defilad 1, Warszawa",
+    destination_location: { lat: 52.2319, lng: 21.0067 },
+    route_info: { distance_km: 3.2, duration_min: 11, eta: order.created },
+    passenger_info: { name: "Passenger", rating: 4.9 },
+    payment_info: { type: order.payment_type, amount: order.price_str ?? "", currency: "PLN" },
+  };
+}
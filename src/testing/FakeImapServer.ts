@@ -0,0 +1,271 @@
+import { AddressInfo, createServer, Server, Socket } from "net";
+import { FakeImapServerOptions, ImapMailboxOptions } from "../types";
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+interface StoredMessage {
+  uid: number;
+  receivedAt: Date;
+  raw: string;
+}
+
+/** Login and mailbox state of one client connection */
+interface Session {
+  authenticated: boolean;
+  selected: boolean;
+}
+
+/**
+ * Local stand-in for an IMAP server, for testing {@link ImapMailboxSource} and the
+ * {@link MagicLinkWatcher} without a real mailbox.
+ *
+ * The server speaks plain-text IMAP4rev1 with a single `INBOX` and supports `CAPABILITY`,
+ * `NOOP`, `LOGIN`, `SELECT`, `UID SEARCH` (`ALL` and `SINCE`), `UID FETCH` and `LOGOUT`.
+ * Other commands get a `BAD` response.
+ *
+ * @example
+ * ```typescript
+ * const imap = new FakeImapServer();
+ * await imap.start();
+ * imap.addMessage('To: driver@example.com\r\n\r\nhttps://partners.bolt.eu/driverapp/magic-login?token=abc');
+ *
+ * const source = new ImapMailboxSource(imap.mailboxOptions);
+ * await imap.stop();
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class FakeImapServer {
+  /** Every command received, oldest first, without tags */
+  public readonly commands: string[] = [];
+
+  private readonly options: Required<FakeImapServerOptions>;
+  private readonly messages: StoredMessage[] = [];
+  private readonly sockets = new Set<Socket>();
+  private server: Server | undefined;
+  private listeningPort: number | undefined;
+  private nextUid = 1;
+
+  /**
+   * Creates a new FakeImapServer. Call {@link start} to listen.
+   *
+   * @param options - Port and accepted credentials
+   */
+  constructor(options: FakeImapServerOptions = {}) {
+    this.options = { port: 0, hostname: "127.0.0.1", user: "driver", password: "secret", ...options };
+  }
+
+  /**
+   * Options connecting an {@link ImapMailboxSource} to the running server.
+   *
+   * @throws {Error} When the server is not running
+   */
+  get mailboxOptions(): ImapMailboxOptions {
+    if (this.listeningPort === undefined) {
+      throw new Error("FakeImapServer is not running");
+    }
+    return {
+      host: this.options.hostname,
+      port: this.listeningPort,
+      secure: false,
+      user: this.options.user,
+      password: this.options.password,
+    };
+  }
+
+  /**
+   * Start listening.
+   *
+   * @returns Port of the server
+   */
+  async start(): Promise<number> {
+    if (this.listeningPort !== undefined) {
+      return this.listeningPort;
+    }
+    const server = createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.hostname, () => resolve());
+    });
+    this.server = server;
+    this.listeningPort = (server.address() as AddressInfo).port;
+    return this.listeningPort;
+  }
+
+  /**
+   * Stop listening and close open connections.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    this.listeningPort = undefined;
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Deliver a message to the inbox.
+   *
+   * @param raw - Full RFC 822 message
+   * @param receivedAt - Internal date of the message (default: now)
+   * @returns UID of the message
+   */
+  addMessage(raw: string, receivedAt: Date = new Date()): number {
+    const uid = this.nextUid++;
+    this.messages.push({ uid, receivedAt, raw });
+    return uid;
+  }
+
+  private accept(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+    socket.on("error", () => socket.destroy());
+
+    const session: Session = { authenticated: false, selected: false };
+    let buffer = "";
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        this.respond(socket, session, line);
+      }
+    });
+    socket.write("* OK [CAPABILITY IMAP4rev1] FakeImapServer ready\r\n");
+  }
+
+  private respond(socket: Socket, session: Session, line: string): void {
+    const [, tag = "*", command = ""] = /^(\S+) ?(.*)$/.exec(line) ?? [];
+    this.commands.push(command);
+    const words = tokenize(command);
+    const name = (words[0] ?? "").toUpperCase();
+    const reply = (text: string): void => {
+      socket.write(`${text}\r\n`);
+    };
+
+    switch (name) {
+      case "CAPABILITY":
+        reply("* CAPABILITY IMAP4rev1");
+        return reply(`${tag} OK CAPABILITY completed`);
+      case "NOOP":
+        return reply(`${tag} OK NOOP completed`);
+      case "LOGIN":
+        if (words[1] !== this.options.user || words[2] !== this.options.password) {
+          return reply(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials`);
+        }
+        session.authenticated = true;
+        return reply(`${tag} OK LOGIN completed`);
+      case "SELECT":
+        if (!session.authenticated) {
+          return reply(`${tag} NO Not logged in`);
+        }
+        if ((words[1] ?? "").toUpperCase() !== "INBOX") {
+          return reply(`${tag} NO Mailbox does not exist`);
+        }
+        session.selected = true;
+        reply(`* ${this.messages.length} EXISTS`);
+        reply("* OK [UIDVALIDITY 1] UIDs valid");
+        reply(`* OK [UIDNEXT ${this.nextUid}] Predicted next UID`);
+        return reply(`${tag} OK [READ-ONLY] SELECT completed`);
+      case "UID":
+        if (!session.selected) {
+          return reply(`${tag} NO No mailbox selected`);
+        }
+        return this.uidCommand(words.slice(1), tag, reply);
+      case "LOGOUT":
+        reply("* BYE FakeImapServer logging out");
+        reply(`${tag} OK LOGOUT completed`);
+        socket.end();
+        return;
+      default:
+        return reply(`${tag} BAD Unknown command`);
+    }
+  }
+
+  private uidCommand(words: string[], tag: string, reply: (text: string) => void): void {
+    const name = (words[0] ?? "").toUpperCase();
+
+    if (name === "SEARCH") {
+      const criteria = words.slice(1).map((word) => word.toUpperCase());
+      let matches = this.messages;
+      if (criteria[0] === "SINCE") {
+        const since = parseImapDate(words[2] ?? "");
+        if (!since) {
+          return reply(`${tag} BAD Invalid date`);
+        }
+        // SINCE compares dates only, ignoring the time of day
+        matches = matches.filter((message) => startOfDay(message.receivedAt) >= since.getTime());
+      } else if (criteria[0] !== "ALL") {
+        return reply(`${tag} BAD Unsupported search criteria`);
+      }
+      reply(`* SEARCH${matches.map((message) => ` ${message.uid}`).join("")}`);
+      return reply(`${tag} OK SEARCH completed`);
+    }
+
+    if (name === "FETCH") {
+      const uids = parseUidSet(words[1] ?? "", this.nextUid - 1);
+      this.messages.forEach((message, index) => {
+        if (!uids.has(message.uid)) {
+          return;
+        }
+        const raw = message.raw.replace(/\r?\n/g, "\r\n");
+        reply(
+          `* ${index + 1} FETCH (UID ${message.uid} INTERNALDATE "${formatInternalDate(message.receivedAt)}" ` +
+            `BODY[] {${Buffer.byteLength(raw)}}\r\n${raw})`
+        );
+      });
+      return reply(`${tag} OK FETCH completed`);
+    }
+
+    reply(`${tag} BAD Unsupported UID command`);
+  }
+}
+
+/** Split a command into atoms and quoted strings */
+function tokenize(command: string): string[] {
+  const words: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|(\([^)]*\))|(\S+)/g;
+  for (const match of command.matchAll(pattern)) {
+    words.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, "$1") : (match[2] ?? match[3] ?? ""));
+  }
+  return words;
+}
+
+function parseUidSet(set: string, highest: number): Set<number> {
+  const uids = new Set<number>();
+  for (const range of set.split(",")) {
+    const [first = "", last = first] = range.split(":");
+    const from = first === "*" ? highest : Number(first);
+    const to = last === "*" ? highest : Number(last);
+    for (let uid = Math.min(from, to); uid <= Math.max(from, to); uid++) {
+      uids.add(uid);
+    }
+  }
+  return uids;
+}
+
+function parseImapDate(value: string): Date | undefined {
+  const match = /^(\d{1,2})-(\w{3})-(\d{4})$/.exec(value);
+  const month = MONTHS.indexOf(match?.[2] ?? "");
+  if (!match || month === -1) {
+    return undefined;
+  }
+  return new Date(Date.UTC(Number(match[3]), month, Number(match[1])));
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function formatInternalDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const day = `${pad(date.getUTCDate())}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
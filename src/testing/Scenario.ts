@@ -0,0 +1,197 @@
+import { readFileSync } from "fs";
+import { load as loadYaml } from "js-yaml";
+import { extname } from "path";
+import { ENDPOINTS } from "../Endpoints";
+import { FaultAction, FaultRule, FaultScenario, ValidationError } from "../types";
+
+/** Fault types and the fields each of them requires */
+const FAULT_FIELDS: Record<FaultAction["type"], string[]> = {
+  latency: ["ms"],
+  reset: [],
+  truncate: [],
+  status: ["status"],
+  error: ["code"],
+  expireToken: [],
+  patch: ["set"],
+};
+
+/**
+ * Parse a fault scenario from YAML or JSON text and validate it.
+ *
+ * @param text - Scenario source
+ * @param format - Source format (default: JSON when the text starts with `{`, YAML otherwise)
+ * @returns The validated scenario
+ * @throws {ValidationError} Listing every problem found in the scenario
+ *
+ * @since 1.1.0
+ */
+export function parseScenario(text: string, format?: "yaml" | "json"): FaultScenario {
+  const json = format ? format === "json" : text.trimStart().startsWith("{");
+  return validateScenario(json ? JSON.parse(text) : loadYaml(text));
+}
+
+/**
+ * Load a fault scenario from a `.yaml`, `.yml` or `.json` file.
+ *
+ * @param path - Path of the scenario file
+ * @returns The validated scenario
+ * @throws {ValidationError} Listing every problem found in the scenario
+ *
+ * @since 1.1.0
+ */
+export function loadScenario(path: string): FaultScenario {
+  const extension = extname(path).toLowerCase();
+  const format = extension === ".json" ? "json" : extension === ".yaml" || extension === ".yml" ? "yaml" : undefined;
+  return parseScenario(readFileSync(path, "utf8"), format);
+}
+
+/**
+ * Check the shape of a scenario, e.g. one built in code or parsed from a file.
+ *
+ * @param value - Candidate scenario
+ * @returns The scenario
+ * @throws {ValidationError} Listing every problem found in the scenario
+ *
+ * @since 1.1.0
+ */
+export function validateScenario(value: unknown): FaultScenario {
+  const problems: string[] = [];
+  const scenario = value as Partial<FaultScenario> | null;
+  if (!scenario || typeof scenario !== "object" || !Array.isArray(scenario.rules)) {
+    throw new ValidationError("Invalid fault scenario: `rules` must be a list", 400, ["rules must be a list"]);
+  }
+  if (scenario.seed !== undefined && !Number.isInteger(scenario.seed)) {
+    problems.push("seed must be an integer");
+  }
+
+  scenario.rules.forEach((rule: Partial<FaultRule> | null, index) => {
+    const at = `rules[${index}]`;
+    if (!rule || typeof rule !== "object") {
+      problems.push(`${at} must be an object`);
+      return;
+    }
+    const endpoints = rule.endpoint === undefined ? [] : ([] as string[]).concat(rule.endpoint);
+    for (const endpoint of endpoints) {
+      if (!(endpoint in ENDPOINTS)) {
+        problems.push(`${at}.endpoint: unknown endpoint ${endpoint}`);
+      }
+    }
+    for (const key of ["calls", "windowMs"] as const) {
+      const range = rule[key];
+      if (range !== undefined && !isRange(range)) {
+        problems.push(`${at}.${key} must be [from] or [from, to] with from <= to`);
+      }
+    }
+    if (rule.probability !== undefined && !(rule.probability >= 0 && rule.probability <= 1)) {
+      problems.push(`${at}.probability must be between 0 and 1`);
+    }
+    if (rule.times !== undefined && !(Number.isInteger(rule.times) && rule.times > 0)) {
+      problems.push(`${at}.times must be a positive integer`);
+    }
+
+    const fault = rule.fault as Partial<FaultAction> | undefined;
+    const required = fault?.type ? FAULT_FIELDS[fault.type] : undefined;
+    if (!fault || !required) {
+      problems.push(`${at}.fault.type must be one of ${Object.keys(FAULT_FIELDS).join(", ")}`);
+      return;
+    }
+    for (const field of required) {
+      if ((fault as Record<string, unknown>)[field] === undefined) {
+        problems.push(`${at}.fault: ${fault.type} requires ${field}`);
+      }
+    }
+  });
+
+  if (problems.length > 0) {
+    const name = scenario.name ? ` "${scenario.name}"` : "";
+    throw new ValidationError(`Invalid fault scenario${name}: ${problems.join("; ")}`, 400, problems);
+  }
+  return scenario as FaultScenario;
+}
+
+/**
+ * Decides which faults of a scenario apply to each request. Rules keep their own
+ * counters and the random generator is seeded, so a scenario replays identically
+ * for the same sequence of requests.
+ *
+ * @since 1.1.0
+ */
+export class ScenarioRunner {
+  private readonly startedAt: number;
+  private readonly random: () => number;
+  /** Rules with the requests they matched and the times they fired */
+  private readonly rules: { rule: FaultRule; matched: number; fired: number }[];
+
+  /**
+   * Creates a new ScenarioRunner; time windows start now.
+   *
+   * @param scenario - Validated scenario
+   * @param now - Clock, for tests
+   */
+  constructor(
+    public readonly scenario: FaultScenario,
+    private readonly now: () => number = Date.now
+  ) {
+    this.startedAt = now();
+    this.random = mulberry32(scenario.seed ?? 1);
+    this.rules = scenario.rules.map((rule) => ({ rule, matched: 0, fired: 0 }));
+  }
+
+  /**
+   * Faults to inject into a request, in rule order.
+   *
+   * @param endpoint - Endpoint the request was routed to, if any
+   * @returns Faults of every rule that fires
+   */
+  next(endpoint: string | undefined): FaultAction[] {
+    const elapsed = this.now() - this.startedAt;
+    const faults: FaultAction[] = [];
+
+    for (const state of this.rules) {
+      const { rule } = state;
+      if (rule.endpoint !== undefined && (!endpoint || !([] as string[]).concat(rule.endpoint).includes(endpoint))) {
+        continue;
+      }
+      if (rule.windowMs && !inRange(elapsed, rule.windowMs)) {
+        continue;
+      }
+      state.matched++;
+      if (rule.calls && !inRange(state.matched, rule.calls)) {
+        continue;
+      }
+      if (rule.times !== undefined && state.fired >= rule.times) {
+        continue;
+      }
+      if (rule.probability !== undefined && this.random() >= rule.probability) {
+        continue;
+      }
+      state.fired++;
+      faults.push(rule.fault);
+    }
+    return faults;
+  }
+}
+
+function isRange(value: unknown): value is [number, number?] {
+  if (!Array.isArray(value) || value.length < 1 || value.length > 2) {
+    return false;
+  }
+  const [from, to] = value as unknown[];
+  return typeof from === "number" && (to === undefined || (typeof to === "number" && from <= to));
+}
+
+function inRange(value: number, [from, to]: [number, number?]): boolean {
+  return value >= from && (to === undefined || value <= to);
+}
+
+/** Small seeded PRNG, so `probability` rules are reproducible */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
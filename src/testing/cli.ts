@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+import { FakeBoltServer } from "./FakeBoltServer";
+import { loadScenario } from "./Scenario";
+import { FakeBoltServerOptions } from "../types";
+
+/**
+ * Command line entry point of the local Bolt stand-in server.
+ *
+ * @example
+ * ```bash
+ * npm run fake-server -- --port 8080 --driver +48123456789 --code 111111
+ * npm run fake-server -- --driver +48123456789 --scenario ./scenarios/flaky-network.yaml
+ * ```
+ */
+
+const USAGE = `Usage: bolt-fake-server [options]
+
+Options:
+  --port <port>          Port to listen on (default: 8080)
+  --hostname <host>      Interface to listen on (default: 127.0.0.1)
+  --driver <phone>       Register a driver; repeat for several drivers
+  --code <code>          SMS code accepted by confirmAuthentication (default: 123456)
+  --sms-limit <count>    SMS codes per phone before SMS_LIMIT_REACHED (default: 5)
+  --token-ttl <seconds>  Access token lifetime (default: 3600)
+  --scenario <file>      Inject the faults of a YAML or JSON scenario file
+  --help                 Show this help`;
+
+async function main(args: string[]): Promise<void> {
+  const options: FakeBoltServerOptions = { port: 8080 };
+  const phones: string[] = [];
+  let scenarioPath: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === "--help" || flag === "-h") {
+      console.log(USAGE);
+      return;
+    }
+    const value = args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}\n\n${USAGE}`);
+    }
+    switch (flag) {
+      case "--port":
+        options.port = Number(value);
+        break;
+      case "--hostname":
+        options.hostname = value;
+        break;
+      case "--driver":
+        phones.push(value);
+        break;
+      case "--code":
+        options.verificationCode = value;
+        break;
+      case "--sms-limit":
+        options.smsLimit = Number(value);
+        break;
+      case "--token-ttl":
+        options.accessTokenTtlSeconds = Number(value);
+        break;
+      case "--scenario":
+        scenarioPath = value;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}\n\n${USAGE}`);
+    }
+  }
+
+  const server = new FakeBoltServer(options);
+  const scenario = scenarioPath ? loadScenario(scenarioPath) : undefined;
+  const url = await server.start();
+  for (const phone of phones) {
+    const driver = server.addDriver({ phone });
+    console.log(`Registered driver ${driver.driverId} (${phone})`);
+  }
+
+  if (scenario) {
+    server.useScenario(scenario);
+    console.log(`Injecting faults of scenario ${scenario.name ?? scenarioPath} (${scenario.rules.length} rules)`);
+  }
+
+  console.log(`Fake Bolt server listening on ${url}`);
+  console.log("Point the SDK at it with:");
+  console.log(JSON.stringify({ hosts: server.hosts }, null, 2));
+
+  const shutdown = () => {
+    server.stop().then(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
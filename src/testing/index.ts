@@ -0,0 +1,5 @@
+// Testing exports, published as `bolt-driver-api/testing` so the stand-in servers stay
+// out of the main entry point
+export { FakeBoltServer } from './FakeBoltServer';
+export { FakeImapServer } from './FakeImapServer';
+export { parseScenario, loadScenario, validateScenario, ScenarioRunner } from './Scenario';
@@ -34,6 +34,71 @@ export interface DeviceInfo {
   appVersion: string;
 }
 
+/** Mobile platform a device runs on */
+export type DevicePlatform = "ios" | "android";
+
+/** Push notification service used by a platform */
+export type PushProvider = "apns" | "fcm";
+
+/**
+ * Platform-wide settings shared by every device of that platform.
+ *
+ * @since 1.1.0
+ */
+export interface PlatformProfile {
+  /** Value sent as `DeviceInfo.deviceType` */
+  deviceType: DeviceInfo["deviceType"];
+  /** Value sent as the `app_platform_provider` query parameter */
+  appPlatformProvider: string;
+  /** Push notification service registered with Sinch */
+  pushProvider: PushProvider;
+  /** Bundle identifier (iOS) or package name (Android) of the driver app */
+  bundleId: string;
+  /** Prefix of `DeviceInfo.deviceOsVersion` (e.g. "iOS") */
+  osVersionPrefix: string;
+  /** Prefix of `DeviceInfo.appVersion` (e.g. "DI.") */
+  appVersionPrefix: string;
+  /** User-Agent template; `{placeholders}` are filled from the device, build and OS tokens */
+  userAgentTemplate: string;
+  /** Build number of every known app version */
+  appBuilds: Record<string, string>;
+  /** Extra User-Agent tokens of every known OS version */
+  osVersions: Record<string, Record<string, string>>;
+}
+
+/**
+ * A named device model preset.
+ *
+ * @since 1.1.0
+ */
+export interface DevicePreset {
+  /** Platform of the device */
+  platform: DevicePlatform;
+  /** Model identifier sent as `DeviceInfo.deviceName` (e.g. "iPhone17,3", "Pixel 8") */
+  deviceName: string;
+  /** OS versions the model can run, oldest first */
+  osVersions: string[];
+}
+
+/**
+ * Options for generating a device profile from a preset or a seed.
+ *
+ * @since 1.1.0
+ */
+export interface DeviceProfileOptions {
+  /** Device identifier (a UUID is generated when omitted) */
+  deviceId?: string;
+  /** OS version (defaults to the newest one the preset supports) */
+  osVersion?: string;
+  /** App version (defaults to the newest known build) */
+  appVersion?: string;
+}
+
+/** Platform-specific query parameters */
+export interface PlatformParams {
+  app_platform_provider: string;
+}
+
 // GPS and Location Information
 
 /**
@@ -272,6 +337,285 @@ export interface OrderHistoryData {
   total: number;
 }
 
+// Driver Screens
+
+export interface RideStop {
+  address: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface ScheduledRideRequest {
+  order_handle: OrderHandle;
+  /** Requested pickup time, Unix seconds */
+  scheduled_at: number;
+  pickup: RideStop;
+  destination?: RideStop;
+  price_str?: string;
+  category_name?: string;
+  status?: string;
+}
+
+export interface ScheduledRideRequests {
+  scheduled_requests: ScheduledRideRequest[];
+}
+
+export interface ActivityRide {
+  order_handle: OrderHandle;
+  state: string;
+  created: string;
+  address?: string;
+  price_str?: string;
+  distance_str?: string;
+  duration_str?: string;
+}
+
+export interface ActivityRides {
+  activity_rides: ActivityRide[];
+  summary?: {
+    rides_count?: number;
+    online_time_str?: string;
+    earnings_str?: string;
+  };
+}
+
+export interface DriverPhoneDetails {
+  phone: string;
+  country_code?: string;
+  is_verified?: boolean;
+}
+
+/**
+ * Server-driven screens (earnings, earn more, help, score) are lists of UI blocks,
+ * discriminated by `type`. Blocks of a type the SDK does not know yet are returned as
+ * {@link UnsupportedBlock}, so a `switch` over `type` stays exhaustive.
+ *
+ * @example
+ * ```typescript
+ * const { blocks } = await api.getEarningLandingScreen(gpsInfo);
+ * for (const block of blocks) {
+ *   switch (block.type) {
+ *     case 'amount':
+ *       console.log(block.title, block.amount_str);
+ *       break;
+ *     case 'unsupported':
+ *       console.log('New block type', block.originalType);
+ *       break;
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export type ScreenBlock =
+  | HeaderBlock
+  | AmountBlock
+  | ChartBlock
+  | ListBlock
+  | BannerBlock
+  | ButtonBlock
+  | UnsupportedBlock;
+
+export interface HeaderBlock {
+  type: "header";
+  title: string;
+  subtitle?: string;
+}
+
+export interface AmountBlock {
+  type: "amount";
+  title: string;
+  amount_str: string;
+  subtitle?: string;
+}
+
+export interface ChartBlock {
+  type: "chart";
+  title?: string;
+  bars: Array<{
+    label: string;
+    value: number;
+    amount_str?: string;
+  }>;
+}
+
+export interface ListBlock {
+  type: "list";
+  title?: string;
+  rows: Array<{
+    title: string;
+    subtitle?: string;
+    value_str?: string;
+    url?: string;
+  }>;
+}
+
+export interface BannerBlock {
+  type: "banner";
+  title: string;
+  description?: string;
+  url?: string;
+}
+
+export interface ButtonBlock {
+  type: "button";
+  title: string;
+  url?: string;
+  action?: string;
+}
+
+/**
+ * UI block or menu item of a type the SDK does not model, with the original payload.
+ *
+ * @since 1.1.0
+ */
+export interface UnsupportedBlock {
+  type: "unsupported";
+  /** `type` sent by the server */
+  originalType: string;
+  /** The block as received */
+  raw: Record<string, unknown>;
+}
+
+/** Screen made of UI blocks */
+export interface BlockScreen {
+  title?: string;
+  blocks: ScreenBlock[];
+}
+
+export type EarningLandingScreen = BlockScreen;
+
+export type EarnMoreDetails = BlockScreen;
+
+export type HelpDetails = BlockScreen;
+
+export interface ScoreOverview extends BlockScreen {
+  score?: number;
+  rating?: number;
+}
+
+/**
+ * Entry of the driver sidebar menu, discriminated by `type`.
+ *
+ * @since 1.1.0
+ */
+export type SidebarMenuItem =
+  | { type: "screen"; id: string; title: string; screen: string; badge?: string }
+  | { type: "url"; id: string; title: string; url: string; badge?: string }
+  | { type: "separator" }
+  | UnsupportedBlock;
+
+export interface DriverSidebar {
+  profile?: {
+    name: string;
+    rating?: number;
+    photoUrl?: string;
+  };
+  menuItems: SidebarMenuItem[];
+}
+
+// Driver Configuration
+
+/**
+ * Where a {@link DriverConfiguration} comes from: the configuration endpoint, the
+ * identifiers in the access token when the endpoint could not be reached, or nothing
+ * when the client is not logged in.
+ *
+ * @since 1.1.0
+ */
+export type DriverConfigurationSource = "api" | "jwt" | "none";
+
+/**
+ * Parts of a vehicle name such as `"WA 12345 • Toyota Prius"`, as far as they can be
+ * recognized. See {@link parseCarName}.
+ *
+ * @since 1.1.0
+ */
+export interface ParsedCarName {
+  make?: string;
+  model?: string;
+  licensePlate?: string;
+  year?: number;
+}
+
+/**
+ * Profile, company and vehicle of the logged in driver. Fields the source does not
+ * provide are left out.
+ *
+ * @since 1.1.0
+ */
+export interface DriverConfiguration {
+  dataSource: DriverConfigurationSource;
+  driver_info: {
+    /** Identifiers are present unless `dataSource` is `none` */
+    driver_id?: number;
+    partner_id?: number;
+    company_id?: number;
+    company_city_id?: number;
+    first_name?: string;
+    last_name?: string;
+    email?: string;
+    phone?: string;
+  };
+  company_info: {
+    country?: string;
+    city?: string;
+  };
+  vehicle_info: {
+    selected_car_id?: number;
+    /** Vehicle name as sent by the server */
+    selected_car_name?: string;
+    make?: string;
+    model?: string;
+    license_plate?: string;
+    year?: number;
+  };
+  app_config: Record<string, unknown>;
+  features: Record<string, unknown>;
+}
+
+// Feature Flags
+
+/**
+ * Settings of {@link FeatureFlags}.
+ *
+ * @since 1.1.0
+ */
+export interface FeatureFlagsOptions {
+  /** Interval between re-fetches after `start()`, in milliseconds (default: 300000) */
+  refreshIntervalMs?: number;
+}
+
+/**
+ * A flag or setting whose value differs from the previous fetch.
+ *
+ * @since 1.1.0
+ */
+export interface FeatureFlagChange {
+  /** Key of the flag in its block */
+  name: string;
+  /** Block of the driver configuration the flag belongs to */
+  source: "features" | "app_config";
+  /** Value before the fetch; absent for flags that were added */
+  previous?: unknown;
+  /** Value after the fetch; absent for flags that were removed */
+  current?: unknown;
+  /** Whether the flag is enabled after the fetch, as reported by `isEnabled()` */
+  enabled: boolean;
+}
+
+/**
+ * Map of events emitted by {@link FeatureFlags} to their listener signatures.
+ *
+ * @since 1.1.0
+ */
+export interface FeatureFlagsEvents {
+  /** A flag was added, removed or changed its value */
+  change: (change: FeatureFlagChange) => void;
+  /** A scheduled re-fetch failed; the cached flags are kept */
+  refreshError: (error: unknown) => void;
+}
+
 // API Response Types
 
 /**
@@ -354,6 +698,85 @@ export interface MagicLinkVerificationResponse {
   };
 }
 
+// Magic Link Inbox
+
+/**
+ * A raw email as stored by a {@link MailboxSource}.
+ *
+ * @since 1.1.0
+ */
+export interface MailboxMessage {
+  /** Identifier that is stable across polls (file name, mbox offset or IMAP UID) */
+  id: string;
+  /** When the mailbox received the message (Maildir file name, mbox `From ` line or IMAP INTERNALDATE) */
+  receivedAt: Date;
+  /** Full RFC 822 message, headers included */
+  raw: string;
+}
+
+/**
+ * A mailbox the {@link MagicLinkWatcher} polls for magic link emails.
+ *
+ * @since 1.1.0
+ */
+export interface MailboxSource {
+  /**
+   * List the messages received since a point in time. Sources may return older messages
+   * as well; the watcher filters them out.
+   * @param since - Earliest time of interest
+   */
+  fetchMessages(since: Date): Promise<MailboxMessage[]>;
+}
+
+/**
+ * Options for {@link MagicLinkWatcher}.
+ *
+ * @since 1.1.0
+ */
+export interface MagicLinkWatcherOptions {
+  /** Interval between mailbox polls, in milliseconds (default: 5000) */
+  pollIntervalMs?: number;
+  /** How long to wait for the email, in milliseconds (default: 300000) */
+  timeoutMs?: number;
+  /** How far the mailbox clock may be behind the local one, in milliseconds (default: 0) */
+  clockSkewMs?: number;
+}
+
+/**
+ * Options for {@link ImapMailboxSource}.
+ *
+ * @since 1.1.0
+ */
+export interface ImapMailboxOptions {
+  host: string;
+  /** Port (default: 993, or 143 without TLS) */
+  port?: number;
+  /** Connect over TLS (default: true) */
+  secure?: boolean;
+  user: string;
+  password: string;
+  /** Mailbox to search (default: 'INBOX') */
+  mailbox?: string;
+  /** Socket inactivity timeout, in milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for {@link FakeImapServer}.
+ *
+ * @since 1.1.0
+ */
+export interface FakeImapServerOptions {
+  /** Port to listen on (default: 0, a free port) */
+  port?: number;
+  /** Interface to listen on (default: '127.0.0.1') */
+  hostname?: string;
+  /** Accepted user name (default: 'driver') */
+  user?: string;
+  /** Accepted password (default: 'secret') */
+  password?: string;
+}
+
 // Navigation Bar Badges
 export interface NavBarBadges {
   is_help_badge_present: boolean;
@@ -374,12 +797,18 @@ export interface MapTileRequest {
 
 // Push Profile Request
 export interface PushProfileRequest {
-  apn: Array<{
+  /** Apple push registrations (iOS devices) */
+  apn?: Array<{
     bundleId: string;
     deviceToken: string;
     environment: string;
     tokenType: string;
   }>;
+  /** Firebase push registrations (Android devices) */
+  fcm?: Array<{
+    packageName: string;
+    deviceToken: string;
+  }>;
   maxPayloadSize: number;
 }
 
@@ -473,6 +902,24 @@ export interface ConfirmAuthResponse {
   };
 }
 
+/**
+ * Verification code requested by the last successful `startAuthentication` call that
+ * has not been confirmed yet.
+ *
+ * @since 1.1.0
+ */
+export interface PendingVerification {
+  phone: string;
+  /** Latest verification token; `confirmAuthentication` uses it when none is passed */
+  verificationToken: string;
+  /** Channel the code was sent through, e.g. `sms` */
+  channel: string;
+  /** Channels a new code can be requested through */
+  availableChannels: string[];
+  /** Time from which a new code may be requested, in milliseconds */
+  resendAvailableAt: number;
+}
+
 // Credentials interface for authentication
 export interface Credentials {
   driver_id: string;
@@ -480,18 +927,699 @@ export interface Credentials {
   phone: string;
   verification_token?: string;
   verification_code?: string;
+  /** Channel to send the verification code through, one of `available_verification_code_channels` */
+  verification_code_channel?: string;
   refresh_token?: string;
   access_token?: string;
 }
 
 // API Configuration
 export interface BoltApiConfig {
+  /** Base URL of the authentication endpoints (alias for `hosts.auth`) */
   baseUrl: string;
+  /** Base URL of the partner driver service (alias for `hosts.partnerDriver`) */
   driverBaseUrl?: string;
+  /** Base URL of the company service (alias for `hosts.company`) */
   companyBaseUrl?: string;
+  /** Base URL overrides per named host, e.g. `{ driver: 'http://localhost:8080' }` */
+  hosts?: Partial<HostMap>;
+  /** Region whose `regionHosts` entry is used (default: 'europe') */
+  region?: string;
+  /** Host defaults per region or per country code; none are built in */
+  regionHosts?: Record<string, Partial<HostMap>>;
   timeout: number;
+  /** Maximum number of retry attempts for retryable failures */
   retries: number;
+  /** Base delay for exponential backoff between retries, in milliseconds */
+  retryBaseDelayMs?: number;
+  /** Upper bound for a single backoff delay, in milliseconds */
+  retryMaxDelayMs?: number;
+  /** Time in the background after which returning to the foreground starts a new session, in milliseconds */
+  sessionBackgroundTimeoutMs?: number;
+  /** User-Agent header (defaults to the one matching the device profile) */
   userAgent: string;
+  /** HTTP transport used for every request (defaults to an {@link AxiosTransport}) */
+  transport?: Transport;
+  /** Receives every request and response, e.g. a {@link HarRecorder} */
+  recorder?: TrafficRecorder;
+  /** Check responses against their schemas: log drift (`report`) or throw (`strict`); default `off` */
+  schemaValidation?: SchemaValidationMode;
+}
+
+// Retry Configuration
+
+/**
+ * Retry policy settings used by {@link RetryPolicy}.
+ *
+ * @since 1.1.0
+ */
+export interface RetryConfig {
+  /** Maximum number of retry attempts (0 disables retrying) */
+  retries: number;
+  /** Base delay for exponential backoff, in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, in milliseconds */
+  maxDelayMs: number;
+  /** Apply full jitter to the computed backoff delay */
+  jitter: boolean;
+}
+
+/**
+ * Per-call options accepted by every endpoint method.
+ *
+ * @example
+ * ```typescript
+ * // Give up after a single retry for this call only
+ * await api.getDriverState(gpsInfo, 'foreground', { retries: 1 });
+ *
+ * // Allow a POST endpoint to be retried
+ * await api.setDeviceToken(token, { idempotent: true });
+ *
+ * // Cancel a tile download when the map moves on
+ * const controller = new AbortController();
+ * const tile = api.getMapTile(gpsInfo, collectionId, x, y, zoom, {
+ *   signal: controller.signal,
+ *   timeout: 5000
+ * });
+ * controller.abort();
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface RequestOptions {
+  /** Maximum number of retry attempts for this call (overrides BoltApiConfig.retries) */
+  retries?: number;
+  /** Mark a non-GET request as safe to retry */
+  idempotent?: boolean;
+  /** Cancels the call, including pending retries and waits for a token refresh */
+  signal?: AbortSignal;
+  /** Timeout of each attempt in milliseconds (overrides BoltApiConfig.timeout) */
+  timeout?: number;
+  /** Extra headers sent with the request */
+  headers?: Record<string, string>;
+  /** Send the request without validating, refreshing or attaching the access token */
+  skipAuth?: boolean;
+}
+
+/**
+ * Options for `getLoggedInDriverConfiguration`.
+ *
+ * @since 1.1.0
+ */
+export interface DriverConfigurationOptions extends RequestOptions {
+  /** Throw when the configuration endpoint fails instead of falling back to the token identifiers */
+  strict?: boolean;
+}
+
+// Endpoint Catalogue
+
+/** Named host an endpoint is served from */
+export type EndpointHost = "auth" | "partnerDriver" | "company" | "driver" | "search" | "sinch";
+
+/** Base URL of every named host */
+export type HostMap = Record<EndpointHost, string>;
+
+/**
+ * Options for {@link HostRegistry}.
+ *
+ * Hosts are resolved in this order: explicit `hosts` overrides, the `regionHosts` entry
+ * for the driver's country, the `regionHosts` entry for the region, and finally the
+ * built-in defaults. No regional hosts are built in, so without `regionHosts` the
+ * region and country make no difference.
+ *
+ * @example
+ * ```typescript
+ * // Point everything served by driver.live.boltsvc.net at a local stand-in
+ * const registry = new HostRegistry({ hosts: { driver: 'http://localhost:8080' } });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface HostRegistryOptions {
+  /** Explicit base URL per host; always wins */
+  hosts?: Partial<HostMap>;
+  /** Region whose `regionHosts` entry is used (default: 'europe') */
+  region?: string;
+  /** ISO country code of the driver, used to look up its `regionHosts` entry */
+  country?: string;
+  /** Host defaults per region or per country code; none are built in */
+  regionHosts?: Record<string, Partial<HostMap>>;
+}
+
+/**
+ * How a response body is turned into the value returned by an endpoint method:
+ * - `data`: unwrap the `data` field of the {@link ApiResponse} envelope
+ * - `envelope`: return the whole envelope after checking its `code`
+ * - `binary`: return the raw body (e.g. map tiles) without inspecting it
+ */
+export type EndpointResponseType = "data" | "envelope" | "binary";
+
+/**
+ * Declarative description of a Bolt API endpoint.
+ *
+ * @example
+ * ```typescript
+ * const getModal: EndpointDefinition = {
+ *   host: 'partnerDriver',
+ *   path: '/modal',
+ *   method: 'GET',
+ *   requiresGps: true,
+ *   requiresAuth: true,
+ *   responseType: 'data',
+ *   description: 'get modal information'
+ * };
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface EndpointDefinition {
+  /** Host the path is resolved against */
+  host: EndpointHost;
+  /** Path relative to the host; `{name}` segments are filled from path parameters */
+  path: string;
+  /** HTTP method */
+  method: HttpMethod;
+  /** Whether the common query parameters include the driver's GPS position */
+  requiresGps: boolean;
+  /** Whether a valid session token is required (and refreshed) before the call */
+  requiresAuth: boolean;
+  /** How the response body is returned to the caller */
+  responseType: EndpointResponseType;
+  /** Mark a POST endpoint as read-only and therefore safe to retry */
+  idempotent?: boolean;
+  /** Short action used in log output and error messages (e.g. 'get ride details') */
+  description: string;
+}
+
+// HTTP Transport
+
+/** HTTP method used by the SDK */
+export type HttpMethod = "GET" | "POST" | "PUT";
+
+/**
+ * Transport-agnostic description of an HTTP request.
+ *
+ * @since 1.1.0
+ */
+export interface TransportRequest {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Absolute URL without the query string */
+  url: string;
+  /** Query parameters; undefined values are not sent */
+  params?: object;
+  /** Request body, sent as JSON */
+  data?: unknown;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Timeout in milliseconds (defaults to the transport's own timeout) */
+  timeout?: number;
+  /** Cancels the request */
+  signal?: AbortSignal;
+  /** How the body is read: parsed JSON (default) or raw bytes as an ArrayBuffer */
+  responseType?: "json" | "arraybuffer";
+  /** Send the request without the Authorization header; read by the SDK's middleware, ignored by transports */
+  skipAuth?: boolean;
+  /** Name of the catalogued endpoint the request belongs to (e.g. 'getDriverState') */
+  endpoint?: string;
+}
+
+/**
+ * Transport-agnostic HTTP response.
+ *
+ * @since 1.1.0
+ */
+export interface TransportResponse<T = unknown> {
+  /** HTTP status code */
+  status: number;
+  /** Response headers with lower-case names */
+  headers: Record<string, string>;
+  /** Parsed body */
+  data: T;
+}
+
+/**
+ * Sends HTTP requests on behalf of {@link BoltDriverAPI}.
+ *
+ * Transports resolve with a {@link TransportResponse} for every HTTP response, whatever
+ * its status; turning statuses into errors is left to the SDK's middleware. They reject
+ * with {@link RequestAbortedError} when the request's signal is aborted and with a
+ * {@link BoltApiError} with status code 0 when no response was received.
+ *
+ * @example
+ * ```typescript
+ * const api = new BoltDriverAPI(deviceInfo, authConfig, {
+ *   transport: new FetchTransport({ timeout: 10000 })
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface Transport {
+  /**
+   * Send a request.
+   *
+   * @param request - Request to send
+   * @returns Response of the server
+   */
+  request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Step wrapped around a {@link Transport}: it may change the request, call `next` to
+ * send it, and inspect, replace or reject the response.
+ *
+ * @since 1.1.0
+ */
+export type TransportMiddleware = (
+  request: TransportRequest,
+  next: (request: TransportRequest) => Promise<TransportResponse>
+) => Promise<TransportResponse>;
+
+/** Options of the built-in transports */
+export interface TransportOptions {
+  /** Base URL prepended to relative request URLs */
+  baseURL?: string;
+  /** Default timeout in milliseconds */
+  timeout?: number;
+  /** Headers sent with every request, below the request's own headers */
+  headers?: Record<string, string>;
+}
+
+/** Response returned by a {@link MemoryTransport} route */
+export interface MemoryTransportReply {
+  /** HTTP status code (default: 200) */
+  status?: number;
+  /** Response headers */
+  headers?: Record<string, string>;
+  /** Response body */
+  data?: unknown;
+}
+
+/** Route registered with {@link MemoryTransport.on} */
+export interface MemoryTransportRoute {
+  /** HTTP method to match */
+  method: HttpMethod;
+  /** Path or full URL, or a pattern tested against the URL without its query string */
+  path: string | RegExp;
+  /** Response to return, or a function computing it from the request */
+  reply:
+    | MemoryTransportReply
+    | ((request: TransportRequest) => MemoryTransportReply | Promise<MemoryTransportReply>);
+}
+
+// Middleware
+
+/**
+ * State of one request, shared by the hooks of every {@link ApiMiddleware}.
+ *
+ * Hooks communicate by changing the context: `onRequest` may edit `request` or set
+ * `response` to answer without sending anything, `onError` may set `response` to recover
+ * or replace `error`, and `onResponse` may replace `response`.
+ *
+ * @since 1.1.0
+ */
+export interface MiddlewareContext {
+  /** Name of the endpoint being called (e.g. 'getDriverState') */
+  endpoint: string;
+  /** Request about to be sent (before the default and Authorization headers are added) */
+  request: TransportRequest;
+  /** Query parameters built by the SDK; the same object as `request.params` */
+  params: Partial<RequestParams> | undefined;
+  /** Response; `data` is the parsed body, i.e. the {@link ApiResponse} envelope for Bolt endpoints */
+  response?: TransportResponse;
+  /** Error the request failed with */
+  error?: unknown;
+  /** Storage shared by the hooks of one request (e.g. a start time for metrics) */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Plugin hooks run around every request, registered with `api.use()`.
+ *
+ * Hooks run in registration order. `onResponse` sees successful responses only; HTTP error
+ * statuses reach `onError` already mapped to SDK errors (e.g. {@link ValidationError}).
+ *
+ * @example
+ * ```typescript
+ * api.use({
+ *   onRequest: ({ request }) => {
+ *     request.headers['X-Trace-Id'] = randomUUID();
+ *   },
+ *   onResponse: ({ endpoint, response }) => {
+ *     metrics.increment(`bolt.${endpoint}.${response.status}`);
+ *   },
+ *   onError: ({ endpoint, error }) => {
+ *     audit.log(endpoint, error);
+ *   }
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface ApiMiddleware {
+  /** Called before the request is sent */
+  onRequest?(context: MiddlewareContext): void | Promise<void>;
+  /** Called with every successful response */
+  onResponse?(context: MiddlewareContext & { response: TransportResponse }): void | Promise<void>;
+  /** Called when the request failed */
+  onError?(context: MiddlewareContext & { error: unknown }): void | Promise<void>;
+}
+
+// Traffic Recording
+
+/**
+ * Receives every request exactly as sent over the transport, after the default and
+ * Authorization headers were added, and its raw response. Set it as
+ * `BoltApiConfig.recorder`; {@link HarRecorder} is the built-in implementation.
+ *
+ * @since 1.1.0
+ */
+export interface TrafficRecorder {
+  /** Middleware run directly in front of the transport */
+  record: TransportMiddleware;
+}
+
+/** Options of {@link HarRecorder} */
+export interface HarRecorderOptions {
+  /** Replace tokens, phone numbers and emails with `[REDACTED]` (default: true) */
+  redact?: boolean;
+  /** Additional query, body and header names whose values are redacted */
+  redactFields?: string[];
+  /** Application recorded in the HAR `creator` field */
+  creator?: HarCreator;
+}
+
+/** HAR 1.2 `creator` object */
+export interface HarCreator {
+  name: string;
+  version: string;
+}
+
+/** HAR 1.2 name/value pair used for headers and query parameters */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/** HAR 1.2 request */
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+/** HAR 1.2 response */
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+/** HAR 1.2 timings, in milliseconds; -1 marks phases that were not measured */
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+/** One recorded request/response pair */
+export interface HarEntry {
+  startedDateTime: string;
+  /** Total time of the request in milliseconds */
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  /** Catalogued endpoint the request belongs to (custom field) */
+  _endpoint?: string;
+  /** Why no response was received, e.g. a network error or an abort (custom field) */
+  _error?: string;
+}
+
+/** HAR 1.2 document */
+export interface HarLog {
+  log: {
+    version: "1.2";
+    creator: HarCreator;
+    entries: HarEntry[];
+  };
+}
+
+/** Options of {@link HarReplayTransport} */
+export interface HarReplayOptions {
+  /** Query parameters compared when matching; by default all except the ignored ones */
+  matchQuery?: string[];
+  /** Query parameters never compared (default: `gps_timestamp`, `session_id`) */
+  ignoreQuery?: string[];
+  /** Reject unmatched requests with {@link UnmatchedRequestError} (default: true); otherwise answer 404 */
+  strict?: boolean;
+}
+
+// Local Test Server
+
+/**
+ * Options of {@link FakeBoltServer}.
+ *
+ * @since 1.1.0
+ */
+export interface FakeBoltServerOptions {
+  /** Port to listen on (default: 0, a free port) */
+  port?: number;
+  /** Interface to listen on (default: '127.0.0.1') */
+  hostname?: string;
+  /** SMS code accepted by `confirmAuthentication` (default: '123456') */
+  verificationCode?: string;
+  /** SMS codes a phone number can request before SMS_LIMIT_REACHED (default: 5) */
+  smsLimit?: number;
+  /** Channels verification codes can be sent through; the first is used by default (default: ['sms']) */
+  verificationChannels?: string[];
+  /** Lifetime of issued access tokens in seconds (default: 3600) */
+  accessTokenTtlSeconds?: number;
+  /** Lifetime of issued refresh tokens in seconds (default: 30 days) */
+  refreshTokenTtlSeconds?: number;
+  /** Register unknown phone numbers and emails as new drivers on first login (default: true) */
+  autoRegister?: boolean;
+}
+
+/**
+ * Driver account kept by {@link FakeBoltServer}. Changes to it are visible in the next response.
+ *
+ * @since 1.1.0
+ */
+export interface FakeDriver {
+  driverId: number;
+  partnerId: number;
+  companyId: number;
+  companyCityId: number;
+  phone: string;
+  email: string;
+  /** Status returned by `getDriverState` (e.g. 'inactive', 'waiting_orders', 'has_order') */
+  status: string;
+  /** Order handle returned by `getDriverState` while the driver has an order */
+  activeOrder?: OrderHandle;
+  /** Ride history, newest first */
+  orders: OrderHistoryItem[];
+  workingTime: WorkingTimeInfo;
+  /** SMS codes requested so far */
+  smsSent: number;
+}
+
+/**
+ * Request received by {@link FakeBoltServer}.
+ *
+ * @since 1.1.0
+ */
+export interface FakeServerRequest {
+  /** Catalogued endpoint the request was routed to, if any */
+  endpoint?: string;
+  method: string;
+  /** Path and query string */
+  url: string;
+  /** Decoded query parameters; repeated parameters keep their last value */
+  query: Record<string, string>;
+  /** Request headers, lower-cased */
+  headers: Record<string, string>;
+  /** Parsed JSON body */
+  body: unknown;
+}
+
+// Response Validation
+
+/**
+ * How responses are checked against their schemas.
+ *
+ * - `off`: no checks
+ * - `report`: record and log missing, unknown and mistyped fields per endpoint
+ * - `strict`: like `report`, and throw {@link SchemaMismatchError} for missing or mistyped fields
+ *
+ * @since 1.1.0
+ */
+export type SchemaValidationMode = "off" | "report" | "strict";
+
+/** Flags shared by every schema node */
+export interface SchemaModifiers {
+  /** The field may be absent */
+  optional?: boolean;
+  /** The field may be `null` */
+  nullable?: boolean;
+}
+
+/**
+ * Runtime description of a response payload, mirroring its TypeScript type.
+ *
+ * `object` nodes list every known property, so extra properties are reported as unknown;
+ * `record` nodes accept any keys whose values match `values`; `union` nodes pick the
+ * variant named by the `discriminator` property and report other values as unknown.
+ *
+ * @since 1.1.0
+ */
+export type ResponseSchema = SchemaModifiers &
+  (
+    | { type: "string" | "number" | "boolean" | "unknown" }
+    | { type: "array"; items: ResponseSchema }
+    | { type: "object"; properties: Record<string, ResponseSchema> }
+    | { type: "record"; values: ResponseSchema }
+    | { type: "union"; discriminator: string; variants: Record<string, ResponseSchema> }
+  );
+
+/**
+ * Difference between a response and its schema.
+ *
+ * @since 1.1.0
+ */
+export interface SchemaIssue {
+  /** Dotted path of the field; array elements appear as `[]` and union variants as `<type>`, e.g. `blocks[]<amount>.title` */
+  path: string;
+  /** The field is required but absent, not described by the schema, or of another type */
+  problem: "missing" | "unknown" | "type";
+  /** Expected type */
+  expected?: string;
+  /** Received type */
+  received?: string;
+}
+
+/**
+ * Schema drift seen for one endpoint since the client was created.
+ *
+ * @since 1.1.0
+ */
+export interface SchemaDriftEntry {
+  /** Responses checked */
+  checked: number;
+  /** Responses with at least one issue */
+  mismatched: number;
+  /** Required fields found absent */
+  missing: string[];
+  /** Fields the schema does not describe */
+  unknown: string[];
+  /** Fields with another type than expected, as `path (expected, got received)` */
+  invalid: string[];
+  /** Time of the last mismatched response, ISO 8601 */
+  lastMismatchAt?: string;
+}
+
+/**
+ * Schema drift per endpoint, as returned by `BoltDriverAPI.getSchemaDriftReport()`.
+ *
+ * @since 1.1.0
+ */
+export type SchemaDriftReport = Record<string, SchemaDriftEntry>;
+
+// Fault Scenarios
+
+/**
+ * Fault injected by a {@link FakeBoltServer} scenario.
+ *
+ * - `latency`: delay the response by `ms`
+ * - `reset`: destroy the connection without a response
+ * - `truncate`: cut the response body after `bytes` bytes (default: half of it)
+ * - `status`: answer with an HTTP status, optionally with `Retry-After` and a body
+ * - `error`: answer with an API error code, e.g. 503 (NOT_AUTHORIZED) or 1000 (DATABASE_ERROR)
+ * - `expireToken`: expire the caller's token on the server before handling the request
+ * - `patch`: overwrite fields of the JSON response, by dotted path (e.g. `data.items`)
+ *
+ * @since 1.1.0
+ */
+export type FaultAction =
+  | { type: "latency"; ms: number }
+  | { type: "reset" }
+  | { type: "truncate"; bytes?: number }
+  | { type: "status"; status: number; retryAfter?: number; body?: unknown }
+  | { type: "error"; code: number; message?: string }
+  | { type: "expireToken" }
+  | { type: "patch"; set: Record<string, unknown> };
+
+/**
+ * Rule of a fault scenario: which requests it applies to and what it injects.
+ *
+ * @since 1.1.0
+ */
+export interface FaultRule {
+  /** Endpoint name(s) the rule applies to (default: every endpoint) */
+  endpoint?: string | string[];
+  /** 1-based range of matching requests, inclusive; `[3]` means from the third on */
+  calls?: [number, number?];
+  /** Time window in milliseconds since the scenario started; `[5000]` means after 5 s */
+  windowMs?: [number, number?];
+  /** Chance of firing for each matching request, drawn from the scenario's seeded generator (default: 1) */
+  probability?: number;
+  /** Maximum number of times the rule fires */
+  times?: number;
+  /** Fault to inject */
+  fault: FaultAction;
+}
+
+/**
+ * Scripted faults for {@link FakeBoltServer}, usually written as YAML or JSON.
+ *
+ * @example
+ * ```yaml
+ * name: token expires mid-shift
+ * seed: 7
+ * rules:
+ *   - endpoint: getDriverState
+ *     calls: [3, 3]
+ *     fault: { type: expireToken }
+ *   - endpoint: [getWorkingTimeInfo, getDriverNavBarBadges]
+ *     probability: 0.3
+ *     fault: { type: status, status: 429, retryAfter: 1 }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface FaultScenario {
+  /** Name shown in logs and errors */
+  name?: string;
+  /** Seed of the random generator used for `probability` (default: 1) */
+  seed?: number;
+  /** Rules, applied in order; several rules can fire for one request */
+  rules: FaultRule[];
 }
 
 // Request Parameters - Updated to include all necessary properties
@@ -535,6 +1663,9 @@ export interface RequestParams {
 
 // Error Types
 export class BoltApiError extends Error {
+  /** Delay requested by the server via the Retry-After header, in milliseconds */
+  public retryAfterMs?: number;
+
   constructor(
     message: string,
     public statusCode: number,
@@ -569,6 +1700,41 @@ export class ValidationError extends BoltApiError {
   }
 }
 
+export class RequestAbortedError extends BoltApiError {
+  constructor(message: string = "Request aborted", response?: unknown) {
+    super(message, 0, response);
+    this.name = "RequestAbortedError";
+  }
+}
+
+/**
+ * Thrown by {@link HarReplayTransport} for a request that has no recorded response.
+ */
+export class UnmatchedRequestError extends BoltApiError {
+  constructor(
+    message: string,
+    public request: TransportRequest
+  ) {
+    super(message, 404);
+    this.name = "UnmatchedRequestError";
+  }
+}
+
+/**
+ * Thrown in `strict` schema validation mode for a response with missing or mistyped fields.
+ */
+export class SchemaMismatchError extends BoltApiError {
+  constructor(
+    message: string,
+    public endpoint: string,
+    public issues: SchemaIssue[],
+    response?: unknown
+  ) {
+    super(message, 200, response);
+    this.name = "SchemaMismatchError";
+  }
+}
+
 export class SmsLimitError extends BoltApiError {
   constructor(message: string, response?: unknown) {
     super(message, 200, response);
@@ -583,6 +1749,33 @@ export class InvalidSmsCodeError extends BoltApiError {
   }
 }
 
+/**
+ * Thrown when a new verification code is requested before the wait announced by Bolt
+ * (`resend_wait_time_seconds`) has passed. `retryAfterMs` holds the remaining wait.
+ *
+ * @since 1.1.0
+ */
+export class VerificationCooldownError extends BoltApiError {
+  constructor(retryAfterMs: number) {
+    super(`A new verification code can be requested in ${Math.ceil(retryAfterMs / 1000)} seconds`, 0);
+    this.name = "VerificationCooldownError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Thrown by {@link MagicLinkWatcher} when no magic link arrived in time. `response` holds
+ * the last mailbox error, if polling failed.
+ *
+ * @since 1.1.0
+ */
+export class MagicLinkTimeoutError extends BoltApiError {
+  constructor(timeoutMs: number, lastError?: unknown) {
+    super(`No magic link arrived within ${Math.round(timeoutMs / 1000)} seconds`, 0, lastError);
+    this.name = "MagicLinkTimeoutError";
+  }
+}
+
 export class InvalidPhoneError extends BoltApiError {
   constructor(message: string, response?: unknown) {
     super(message, 200, response);
@@ -597,18 +1790,315 @@ export class DatabaseError extends BoltApiError {
   }
 }
 
+// Session Lifecycle
+
+/**
+ * Options for {@link SessionManager}.
+ *
+ * @since 1.1.0
+ */
+export interface SessionManagerOptions {
+  /**
+   * Minimum time in the background, in milliseconds, after which returning to the
+   * foreground starts a new session (default: 0, every return starts one)
+   */
+  backgroundTimeoutMs?: number;
+}
+
 // Token Persistence
 export interface TokenStorage {
   saveToken(token: string, sessionInfo: SessionInfo): Promise<void>;
   loadToken(): Promise<{ token: string; sessionInfo: SessionInfo } | null>;
   clearToken(): Promise<void>;
   hasValidToken(): Promise<boolean>;
+  /**
+   * Optional exclusive section used while refreshing tokens. Implementations shared by
+   * several processes should guarantee that only one of them runs `operation` at a time.
+   */
+  withLock?<T>(operation: () => Promise<T>): Promise<T>;
 }
 
 export interface FileTokenStorage extends TokenStorage {
   filePath: string;
 }
 
+/**
+ * Options for {@link FileTokenStorage}.
+ *
+ * @example
+ * ```typescript
+ * // Several workers sharing one token file
+ * const storage = new FileTokenStorage('/var/lib/bolt/token.json', { lock: true });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface FileTokenStorageOptions {
+  /** Guard token refreshes with a cross-process lock file (`<filePath>.lock`) */
+  lock?: boolean;
+  /** Maximum time to wait for the lock, in milliseconds (default: 10000) */
+  lockTimeoutMs?: number;
+  /** Age after which an abandoned lock file is removed, in milliseconds (default: 30000); the holder refreshes it every third of this */
+  staleLockMs?: number;
+  /** Interval between lock acquisition attempts, in milliseconds (default: 50) */
+  lockRetryIntervalMs?: number;
+}
+
+// Client Events
+
+/**
+ * Payload of the `authLost` event, emitted when stored credentials can no longer be
+ * refreshed and have been cleared. The app should send the driver through login again.
+ *
+ * @since 1.1.0
+ */
+export interface AuthLostEvent {
+  /** Why the session was lost */
+  reason: string;
+  /** Error returned by the rejected refresh, if any */
+  error?: unknown;
+}
+
+/**
+ * Payload of the `tokenRefreshed` event, emitted when the client has a new access token.
+ *
+ * @since 1.1.0
+ */
+export interface TokenRefreshedEvent {
+  /** `refresh` when the token endpoint issued it, `storage` when another process sharing the token storage did */
+  source: "refresh" | "storage";
+  /** Expiry of the new token in milliseconds, when the token carries one */
+  expiresAt?: number;
+}
+
+/**
+ * Payload of the `sessionRestored` event, emitted when credentials were loaded from the
+ * token storage.
+ *
+ * @since 1.1.0
+ */
+export interface SessionRestoredEvent {
+  driverId: number;
+  sessionId?: string;
+  /** Expiry of the restored session in milliseconds */
+  expiresAt?: number;
+  /** Whether the session can be refreshed once the access token expires */
+  hasRefreshToken: boolean;
+}
+
+/**
+ * Payload of the `request` event, emitted for every HTTP request the client sends,
+ * including retries.
+ *
+ * @since 1.1.0
+ */
+export interface RequestEvent {
+  /** Catalogued endpoint name */
+  endpoint: string;
+  method: HttpMethod;
+  url: string;
+}
+
+/**
+ * Payload of the `response` event, emitted when a request got a response or failed
+ * without one.
+ *
+ * @since 1.1.0
+ */
+export interface ResponseEvent extends RequestEvent {
+  /** HTTP status, absent when no response was received */
+  status?: number;
+  durationMs: number;
+  /** Network failure or abort, when no response was received */
+  error?: unknown;
+}
+
+/**
+ * Payload of the `retry` event, emitted before waiting to retry a failed request.
+ *
+ * @since 1.1.0
+ */
+export interface RetryEvent {
+  /** Operation being retried, usually the endpoint name */
+  operation: string;
+  method: string;
+  /** Number of the upcoming retry, starting at 1 */
+  attempt: number;
+  maxRetries: number;
+  /** Time until the retry, in milliseconds */
+  delayMs: number;
+  /** Wait requested by the server through `Retry-After`, in milliseconds */
+  retryAfterMs?: number;
+  /** Failure of the previous attempt */
+  error: unknown;
+}
+
+/**
+ * Payload of the `rateLimited` event, emitted for HTTP 429 responses.
+ *
+ * @since 1.1.0
+ */
+export interface RateLimitedEvent extends RequestEvent {
+  /** Wait requested by the server through `Retry-After`, in milliseconds */
+  retryAfterMs?: number;
+}
+
+/**
+ * Payload of the `reauthenticated` event, emitted when a registered re-authentication
+ * provider logged the driver in again after the session was lost.
+ *
+ * @since 1.1.0
+ */
+export interface ReauthenticatedEvent {
+  /** `method` of the provider that logged in */
+  method: string;
+  /** Why the session was lost */
+  reason: string;
+}
+
+/**
+ * Map of events emitted by {@link BoltDriverAPI} to their listener signatures.
+ *
+ * Listeners are called synchronously; exceptions they throw are logged and do not affect
+ * the request that emitted the event.
+ *
+ * @example
+ * ```typescript
+ * api.on('authLost', ({ reason }) => {
+ *   console.log(`Session lost (${reason}), please log in again`);
+ * });
+ * api.on('response', ({ endpoint, status, durationMs }) => {
+ *   metrics.timing(`bolt.${endpoint}.${status ?? 'error'}`, durationMs);
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface BoltDriverAPIEvents {
+  /** Stored credentials could not be refreshed and were cleared */
+  authLost: (event: AuthLostEvent) => void;
+  /** A new access token was obtained */
+  tokenRefreshed: (event: TokenRefreshedEvent) => void;
+  /** Credentials were loaded from the token storage */
+  sessionRestored: (event: SessionRestoredEvent) => void;
+  /** An HTTP request is about to be sent */
+  request: (event: RequestEvent) => void;
+  /** An HTTP request completed or failed */
+  response: (event: ResponseEvent) => void;
+  /** A failed request will be retried */
+  retry: (event: RetryEvent) => void;
+  /** The server answered HTTP 429 */
+  rateLimited: (event: RateLimitedEvent) => void;
+  /** A re-authentication provider logged the driver in again */
+  reauthenticated: (event: ReauthenticatedEvent) => void;
+  /** `dispose()` was called; pollers built on the client should stop */
+  disposed: () => void;
+}
+
+// Authentication Orchestration
+
+/**
+ * State of an {@link AuthFlow}.
+ *
+ * - `idle` - no code requested yet
+ * - `code_sent` - a code was sent and can be submitted
+ * - `verifying` - a submitted code is being confirmed
+ * - `authenticated` - the code was accepted and the client holds tokens
+ * - `locked_out` - Bolt refused to send or check more codes for now
+ *
+ * @since 1.1.0
+ */
+export type AuthFlowStatus = "idle" | "code_sent" | "verifying" | "authenticated" | "locked_out";
+
+/**
+ * Actions of an {@link AuthFlow}, as reported by `getAllowedActions()`.
+ *
+ * @since 1.1.0
+ */
+export type AuthFlowAction = "sendCode" | "resendCode" | "submitCode" | "reset";
+
+/**
+ * Snapshot of an {@link AuthFlow}, as persisted by an {@link AuthFlowStore}.
+ *
+ * @since 1.1.0
+ */
+export interface AuthFlowState {
+  status: AuthFlowStatus;
+  /** Phone number the code was requested for */
+  phone?: string;
+  /** Token returned by `startAuthentication`, required to confirm the code */
+  verificationToken?: string;
+  /** Channel the code was sent through, e.g. `sms` */
+  codeChannel?: string;
+  /** Masked destination of the code */
+  codeTarget?: string;
+  /** Number of digits of the code */
+  codeLength?: number;
+  /** Channels the code can be sent through */
+  availableChannels?: string[];
+  /** Time from which another code may be requested, in milliseconds */
+  resendAvailableAt?: number;
+  /** End of the lockout, in milliseconds */
+  lockedUntil?: number;
+  /** Number of rejected codes since the last code was sent */
+  failedAttempts: number;
+  /** Message of the last failure */
+  lastError?: string;
+  /** Time of the last transition, in milliseconds */
+  updatedAt: number;
+}
+
+/**
+ * Persistence for the intermediate state of an {@link AuthFlow}, so a restarted process
+ * can keep waiting for the code it already requested.
+ *
+ * @since 1.1.0
+ */
+export interface AuthFlowStore {
+  save(state: AuthFlowState): Promise<void>;
+  load(): Promise<AuthFlowState | null>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Options for {@link AuthFlow}.
+ *
+ * @since 1.1.0
+ */
+export interface AuthFlowOptions {
+  /** Where to persist the flow (default: in memory) */
+  store?: AuthFlowStore;
+  /** Age after which a persisted, unconfirmed code is discarded, in milliseconds (default: 600000) */
+  verificationTtlMs?: number;
+  /** Lockout used when Bolt does not say how long to wait, in milliseconds (default: 60000) */
+  lockoutMs?: number;
+}
+
+/**
+ * Map of events emitted by {@link AuthFlow} to their listener signatures.
+ *
+ * @since 1.1.0
+ */
+export interface AuthFlowEvents {
+  /** The flow moved to another state, or its state was restored from the store */
+  stateChange: (state: AuthFlowState, previous: AuthFlowStatus) => void;
+}
+
+/**
+ * Thrown by {@link AuthFlow} for an action that is not allowed in its current state.
+ *
+ * @since 1.1.0
+ */
+export class AuthFlowStateError extends BoltApiError {
+  constructor(
+    public action: AuthFlowAction,
+    public state: AuthFlowStatus
+  ) {
+    super(`Cannot ${action} while the authentication flow is ${state}`, 0);
+    this.name = "AuthFlowStateError";
+  }
+}
+
 // Enums for API parameters
 export enum ScheduledRideRequestGroupBy {
   Upcoming = "upcoming",
@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthFlow, FileAuthFlowStore, MemoryAuthFlowStore } from '../src/AuthFlow';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { AuthConfig, AuthFlowState, AuthFlowStateError, DeviceInfo, InvalidSmsCodeError, SmsLimitError } from '../src/types';
+
+function createJwt(expiresInSeconds: number): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = {
+    data: { driver_id: 123, partner_id: 456, company_id: 789, company_city_id: 101 },
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+  };
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('AuthFlow', () => {
+  let transport: MemoryTransport;
+  let api: BoltDriverAPI;
+  let tokenCounter: number;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const envelope = (code: number, message: string, data?: unknown, errorData?: unknown) => ({
+    data: { code, message, ...(data !== undefined && { data }), ...(errorData !== undefined && { error_data: errorData }) }
+  });
+
+  const codeSent = () =>
+    envelope(0, 'OK', {
+      verification_token: `verification-${++tokenCounter}`,
+      verification_code_channel: 'sms',
+      verification_code_target: '+485*****56',
+      verification_code_length: 6,
+      resend_wait_time_seconds: 30,
+      available_verification_code_channels: ['sms', 'call']
+    });
+
+  const acceptCode = (expectedToken = 'verification-1') => {
+    transport.on('POST', /confirmAuthentication$/, request => {
+      const body = request.data as { verification_token: string; verification_code: string };
+      return body.verification_code === '111111' && body.verification_token === expectedToken
+        ? envelope(0, 'OK', { type: 'driver', token: { refresh_token: createJwt(3600), token_type: 'driver' } })
+        : envelope(293, 'SMS_CODE_NOT_FOUND');
+    });
+  };
+
+  const createFlow = (options: ConstructorParameters<typeof AuthFlow>[3] = {}) =>
+    new AuthFlow(api, authConfig, deviceInfo, options);
+
+  beforeEach(() => {
+    tokenCounter = 0;
+    transport = new MemoryTransport();
+    api = new BoltDriverAPI(deviceInfo, authConfig, { transport, retries: 0 }, new MemoryTokenStorage(), { enabled: false });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should walk from idle to authenticated and expose the allowed actions', async () => {
+    transport.on('POST', /startAuthentication$/, codeSent);
+    acceptCode();
+    const flow = createFlow();
+    const transitions: string[] = [];
+    flow.on('stateChange', (state, previous) => transitions.push(`${previous}->${state.status}`));
+
+    expect(flow.getAllowedActions()).toEqual(['sendCode', 'reset']);
+    await expect(flow.submitCode('111111')).rejects.toThrow(AuthFlowStateError);
+
+    await expect(flow.sendCode('+48500123456')).resolves.toMatchObject({
+      status: 'code_sent',
+      phone: '+48500123456',
+      verificationToken: 'verification-1',
+      codeLength: 6,
+      availableChannels: ['sms', 'call']
+    });
+    expect(flow.getAllowedActions()).toEqual(['submitCode', 'reset']);
+
+    await expect(flow.submitCode('000000')).rejects.toBeInstanceOf(InvalidSmsCodeError);
+    expect(flow.getState()).toMatchObject({ status: 'code_sent', failedAttempts: 1, lastError: 'INVALID_SMS_CODE' });
+
+    await expect(flow.submitCode('111111')).resolves.toMatchObject({ status: 'authenticated', failedAttempts: 0 });
+    expect(api.isAuthenticated()).toBe(true);
+    expect(flow.getAllowedActions()).toEqual(['reset']);
+    expect(transitions).toEqual([
+      'idle->code_sent',
+      'code_sent->verifying',
+      'verifying->code_sent',
+      'code_sent->verifying',
+      'verifying->authenticated'
+    ]);
+  });
+
+  it('should allow resending only after the wait requested by Bolt', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T10:00:00Z') });
+    transport.on('POST', /startAuthentication$/, codeSent);
+    acceptCode('verification-2');
+    const flow = createFlow();
+
+    await flow.sendCode('+48500123456');
+    await expect(flow.resendCode()).rejects.toMatchObject({ name: 'VerificationCooldownError', retryAfterMs: 30000 });
+
+    jest.setSystemTime(new Date('2025-01-01T10:00:30Z'));
+    expect(flow.can('resendCode')).toBe(true);
+    await expect(flow.resendCode('whatsapp')).rejects.toThrow("Verification code channel 'whatsapp' is not available");
+    await expect(flow.resendCode('call')).resolves.toMatchObject({ verificationToken: 'verification-2' });
+    expect(transport.requests[1]?.data).toMatchObject({ phone: '+48500123456', verification_code_channel: 'call' });
+    await expect(flow.submitCode('111111')).resolves.toMatchObject({ status: 'authenticated' });
+  });
+
+  it('should lock out when Bolt refuses to send more codes', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T10:00:00Z') });
+    transport.on('POST', /startAuthentication$/, () =>
+      envelope(299, 'SMS_LIMIT_REACHED', undefined, { text: 'Please wait at least 2 minutes to resend a new code.' })
+    );
+    const store = new MemoryAuthFlowStore();
+    const flow = createFlow({ store });
+
+    await expect(flow.sendCode('+48500123456')).rejects.toBeInstanceOf(SmsLimitError);
+
+    expect(flow.getState()).toMatchObject({ status: 'locked_out', lockedUntil: Date.now() + 120000 });
+    expect(flow.getAllowedActions()).toEqual(['reset']);
+    await expect(store.load()).resolves.toMatchObject({ status: 'locked_out' });
+
+    jest.setSystemTime(new Date('2025-01-01T10:02:00Z'));
+    transport.reset();
+    transport.on('POST', /startAuthentication$/, codeSent);
+    expect(flow.getAllowedActions()).toEqual(['sendCode', 'reset']);
+    await expect(flow.sendCode()).resolves.toMatchObject({ status: 'code_sent', phone: '+48500123456' });
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'bolt-auth-flow-'));
+      filePath = join(dir, 'auth-flow.json');
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should resume waiting for the code after a restart', async () => {
+      transport.on('POST', /startAuthentication$/, codeSent);
+      acceptCode();
+      await createFlow({ store: new FileAuthFlowStore(filePath) }).sendCode('+48500123456');
+
+      const resumed = createFlow({ store: new FileAuthFlowStore(filePath) });
+      await expect(resumed.restore()).resolves.toMatchObject({ status: 'code_sent', verificationToken: 'verification-1' });
+      await expect(resumed.submitCode('111111')).resolves.toMatchObject({ status: 'authenticated' });
+      await expect(fs.access(filePath)).rejects.toThrow();
+    });
+
+    it('should resume an interrupted verification and discard expired codes', async () => {
+      const store = new FileAuthFlowStore(filePath);
+      const pending: AuthFlowState = {
+        status: 'verifying',
+        phone: '+48500123456',
+        verificationToken: 'verification-1',
+        failedAttempts: 0,
+        updatedAt: Date.now()
+      };
+
+      await store.save(pending);
+      await expect(createFlow({ store }).restore()).resolves.toMatchObject({ status: 'code_sent' });
+
+      await store.save({ ...pending, updatedAt: Date.now() - 600001 });
+      await expect(createFlow({ store }).restore()).resolves.toMatchObject({ status: 'idle' });
+      await expect(store.load()).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, AuthenticationError, BoltApiError, AuthLostEvent, DatabaseError } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+function createJwt(expiresInSeconds: number, driverId = 123): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = {
+    data: { driver_id: driverId, partner_id: 456, company_id: 789, company_city_id: 101 },
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+  };
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('Authentication Recovery', () => {
+  let api: BoltDriverAPI;
+  let storage: MemoryTokenStorage;
+  let currentToken: string;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const okResponse = (data: unknown) => ({ status: 200, data: { code: 0, message: 'OK', data } });
+  const notAuthorizedResponse = { status: 200, data: { code: 503, message: 'NOT_AUTHORIZED', data: null } };
+  const refreshCalls = () =>
+    mockClient.post.mock.calls.filter(([url]: any[]) => String(url).includes('getAccessToken'));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockClient as any);
+
+    storage = new MemoryTokenStorage();
+    api = new BoltDriverAPI(deviceInfo, authConfig, undefined, storage);
+
+    currentToken = createJwt(3600);
+    const sessionInfo = {
+      sessionId: 'session-123',
+      driverId: 123,
+      partnerId: 456,
+      accessToken: currentToken,
+      refreshToken: 'refresh-token',
+      expiresAt: Date.now() + 3600000
+    };
+    await storage.saveToken(currentToken, sessionInfo);
+    (api as any).accessToken = currentToken;
+    (api as any).refreshToken = 'refresh-token';
+    (api as any).sessionInfo = sessionInfo;
+  });
+
+  it('should refresh and replay a request rejected with NOT_AUTHORIZED', async () => {
+    const freshToken = createJwt(7200);
+    mockClient.get
+      .mockResolvedValueOnce(notAuthorizedResponse)
+      .mockResolvedValueOnce(okResponse({ helpTopics: ['payments'] }));
+    mockClient.post.mockResolvedValueOnce(okResponse({ access_token: freshToken, expires_timestamp: 0, expires_in_seconds: 3600 }));
+
+    const result = await api.getHelpDetails(gpsInfo);
+
+    expect(result).toEqual({ helpTopics: ['payments'] });
+    expect(mockClient.get).toHaveBeenCalledTimes(2);
+    expect(refreshCalls()).toHaveLength(1);
+    expect((api as any).accessToken).toBe(freshToken);
+    expect((await storage.loadToken())?.token).toBe(freshToken);
+  });
+
+  it('should refresh and replay a request rejected with HTTP 401', async () => {
+    mockClient.get
+      .mockRejectedValueOnce(new AuthenticationError('Authentication failed', 401))
+      .mockResolvedValueOnce(okResponse({ helpTopics: [] }));
+    mockClient.post.mockResolvedValueOnce(okResponse({ access_token: createJwt(7200), expires_timestamp: 0, expires_in_seconds: 3600 }));
+
+    await expect(api.getHelpDetails(gpsInfo)).resolves.toEqual({ helpTopics: [] });
+    expect(mockClient.get).toHaveBeenCalledTimes(2);
+    expect(refreshCalls()).toHaveLength(1);
+  });
+
+  it('should clear credentials and emit authLost when the refresh is rejected', async () => {
+    const listener = jest.fn<(event: AuthLostEvent) => void>();
+    api.on('authLost', listener);
+    mockClient.get.mockResolvedValue(notAuthorizedResponse);
+    mockClient.post.mockResolvedValueOnce(notAuthorizedResponse);
+
+    await expect(api.getHelpDetails(gpsInfo)).rejects.toThrow(AuthenticationError);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]?.[0].reason).toBe('Refresh token was rejected');
+    expect(api.isAuthenticated()).toBe(false);
+    expect(await storage.loadToken()).toBeNull();
+    expect(mockClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep credentials when the refresh fails for a transient reason', async () => {
+    const listener = jest.fn();
+    api.on('authLost', listener);
+    mockClient.get.mockResolvedValue(notAuthorizedResponse);
+    mockClient.post.mockRejectedValueOnce(new BoltApiError('Network error: ECONNRESET', 0));
+
+    await expect(api.getHelpDetails(gpsInfo)).rejects.toMatchObject({ statusCode: 0 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect((api as any).refreshToken).toBe('refresh-token');
+    expect((await storage.loadToken())?.token).toBe(currentToken);
+  });
+
+  it('should keep credentials when the refresh fails with DATABASE_ERROR', async () => {
+    const listener = jest.fn();
+    api.on('authLost', listener);
+    mockClient.get.mockResolvedValue(notAuthorizedResponse);
+    mockClient.post.mockResolvedValue({ status: 200, data: { code: 1000, message: 'DATABASE_ERROR', data: null } });
+
+    await expect(api.getHelpDetails(gpsInfo)).rejects.toBeInstanceOf(DatabaseError);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(api.isAuthenticated()).toBe(true);
+    expect((await storage.loadToken())?.token).toBe(currentToken);
+  });
+
+  it('should not replay authentication requests', async () => {
+    mockClient.post.mockRejectedValue(new AuthenticationError('Authentication failed', 401));
+
+    await expect(api.startAuthentication(authConfig, deviceInfo, {
+      driver_id: 'test_driver_id',
+      session_id: 'test_session_id',
+      phone: '+48123456789'
+    })).rejects.toThrow();
+
+    expect(mockClient.post).toHaveBeenCalledTimes(1);
+    expect(refreshCalls()).toHaveLength(0);
+  });
+
+  it('should stop notifying listeners removed with off', async () => {
+    const listener = jest.fn();
+    api.on('authLost', listener).off('authLost', listener);
+    (api as any).refreshToken = undefined;
+    (api as any).accessToken = createJwt(-60);
+
+    await expect(api.getHelpDetails(gpsInfo)).rejects.toThrow('Unable to refresh token');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
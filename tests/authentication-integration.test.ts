@@ -320,7 +320,8 @@ describe('Authentication Integration and Token Persistence', () => {
                 environment: 'production'
               })
             ])
-          })
+          }),
+          { signal: expect.any(AbortSignal) }
         );
       });
     });
@@ -0,0 +1,143 @@
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, SessionInfo } from '../src/types';
+
+function createJwt(expiresInSeconds: number): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = {
+    data: { driver_id: 123, partner_id: 456, company_id: 789, company_city_id: 101 },
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+  };
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('Client events', () => {
+  let transport: MemoryTransport;
+  let storage: MemoryTokenStorage;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const ok = (data: unknown) => ({ data: { code: 0, message: 'OK', data } });
+
+  const storeSession = async (accessToken: string, expiresAt: number) => {
+    const sessionInfo: SessionInfo = {
+      sessionId: 'session-123',
+      driverId: 123,
+      partnerId: 456,
+      companyId: 789,
+      companyCityId: 101,
+      accessToken,
+      refreshToken: 'refresh-token',
+      expiresAt
+    };
+    await storage.saveToken(accessToken, sessionInfo);
+  };
+
+  const createApi = (retries = 0) =>
+    new BoltDriverAPI(deviceInfo, authConfig, { transport, retries, retryBaseDelayMs: 1 }, storage, { enabled: false });
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    storage = new MemoryTokenStorage();
+  });
+
+  it('should emit sessionRestored and tokenRefreshed when loading an expired session', async () => {
+    const expiresAt = Date.now() - 1000;
+    await storeSession(createJwt(-60), expiresAt);
+    const accessToken = createJwt(3600);
+    transport.on('POST', /driver\/getAccessToken$/, ok({ access_token: accessToken, expires_in_seconds: 3600 }));
+    const api = createApi();
+    const restored = jest.fn();
+    const refreshed = jest.fn();
+    api.on('sessionRestored', restored).on('tokenRefreshed', refreshed);
+
+    await api.ready();
+
+    expect(restored).toHaveBeenCalledWith({ driverId: 123, sessionId: 'session-123', expiresAt, hasRefreshToken: true });
+    expect(refreshed).toHaveBeenCalledWith({ source: 'refresh', expiresAt: expect.any(Number) });
+    expect(refreshed.mock.calls[0][0].expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should emit request, response, rateLimited and retry events', async () => {
+    await storeSession(createJwt(3600), Date.now() + 3600000);
+    let calls = 0;
+    transport.on('GET', /getWorkingTimeInfo$/, () =>
+      ++calls === 1 ? { status: 429, headers: { 'retry-after': '0' }, data: {} } : ok({ daily_online_duration_seconds: 60 })
+    );
+    const api = createApi(1);
+    const events: [string, unknown][] = [];
+    for (const name of ['request', 'response', 'rateLimited', 'retry'] as const) {
+      api.on(name, (event: unknown) => events.push([name, event]));
+    }
+
+    await api.getWorkingTimeInfo(gpsInfo);
+
+    const request = { endpoint: 'getWorkingTimeInfo', method: 'GET', url: expect.stringMatching(/getWorkingTimeInfo$/) };
+    expect(events).toEqual([
+      ['request', request],
+      ['response', { ...request, status: 429, durationMs: expect.any(Number) }],
+      ['rateLimited', { ...request, retryAfterMs: 0 }],
+      ['retry', { operation: 'getWorkingTimeInfo', method: 'GET', attempt: 1, maxRetries: 1, delayMs: 0, retryAfterMs: 0, error: expect.any(Error) }],
+      ['request', request],
+      ['response', { ...request, status: 200, durationMs: expect.any(Number) }]
+    ]);
+  });
+
+  it('should report requests that fail without a response', async () => {
+    await storeSession(createJwt(3600), Date.now() + 3600000);
+    transport.on('GET', /getWorkingTimeInfo$/, () => {
+      throw new Error('socket hang up');
+    });
+    const api = createApi();
+    const responses = jest.fn();
+    api.on('response', responses);
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toThrow('socket hang up');
+
+    expect(responses).toHaveBeenCalledWith(expect.objectContaining({ endpoint: 'getWorkingTimeInfo', error: new Error('socket hang up') }));
+    expect(responses.mock.calls[0][0]).not.toHaveProperty('status');
+  });
+
+  it('should not let a failing listener break the request', async () => {
+    await storeSession(createJwt(3600), Date.now() + 3600000);
+    transport.on('GET', /getWorkingTimeInfo$/, ok({ daily_online_duration_seconds: 60 }));
+    const api = createApi();
+    const warn = jest.spyOn(api.getLogger(), 'warn');
+    api.on('request', () => {
+      throw new Error('listener bug');
+    });
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ daily_online_duration_seconds: 60 });
+    expect(warn).toHaveBeenCalledWith('Listener of the request event failed', new Error('listener bug'));
+  });
+});
@@ -0,0 +1,168 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { DeviceProfile, DEVICE_PRESETS } from '../src/DeviceProfile';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { AuthConfig, DeviceInfo, ValidationError } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  put: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+describe('Device Profile', () => {
+  describe('Presets', () => {
+    it('should generate a coherent profile for every preset', () => {
+      for (const name of Object.keys(DEVICE_PRESETS)) {
+        const profile = DeviceProfile.fromPreset(name);
+
+        expect(profile.preset).toBe(name);
+        expect(profile.validate()).toEqual([]);
+      }
+    });
+
+    it('should reproduce the iOS User-Agent of the stock iPhone configuration', () => {
+      const profile = DeviceProfile.fromPreset('iphone-16', { deviceId: 'ABC123' });
+
+      expect(profile.deviceInfo).toEqual({
+        deviceId: 'ABC123',
+        deviceType: 'iphone',
+        deviceName: 'iPhone17,3',
+        deviceOsVersion: 'iOS18.6',
+        appVersion: 'DI.116.0'
+      });
+      expect(profile.userAgent).toBe('Bolt Driver/179857746 CFNetwork/3826.600.31 Darwin/24.6.0');
+      expect(profile.getPlatformParams()).toEqual({ app_platform_provider: 'apple' });
+      expect(profile.pushProvider).toBe('apns');
+    });
+
+    it('should generate Android identities', () => {
+      const profile = DeviceProfile.fromPreset('pixel-8', { osVersion: 'Android14', appVersion: 'DA.115.0' });
+
+      expect(profile.deviceInfo).toMatchObject({ deviceType: 'android', deviceName: 'Pixel 8', deviceOsVersion: 'Android14' });
+      expect(profile.userAgent).toBe('Bolt Driver/DA.115.0 (115000) Android/14 (Pixel 8) okhttp/4.12.0');
+      expect(profile.getPlatformParams()).toEqual({ app_platform_provider: 'google' });
+      expect(profile.pushProvider).toBe('fcm');
+    });
+
+    it('should reject unknown presets and overrides that do not fit them', () => {
+      expect(() => DeviceProfile.fromPreset('nokia-3310')).toThrow(ValidationError);
+      expect(() => DeviceProfile.fromPreset('iphone-16', { osVersion: 'iOS17.6' })).toThrow('does not run iOS17.6');
+      expect(() => DeviceProfile.fromPreset('pixel-8', { appVersion: 'DI.116.0' })).toThrow('does not belong to the android app');
+    });
+  });
+
+  describe('Seeds', () => {
+    it('should derive the same profile from the same seed', () => {
+      const first = DeviceProfile.fromSeed('driver-42');
+      const second = DeviceProfile.fromSeed('driver-42');
+
+      expect(second.deviceInfo).toEqual(first.deviceInfo);
+      expect(second.userAgent).toBe(first.userAgent);
+      expect(DeviceProfile.fromSeed('driver-43').deviceInfo.deviceId).not.toBe(first.deviceInfo.deviceId);
+    });
+
+    it('should restrict the choice to the requested platform', () => {
+      for (const seed of ['a', 'b', 'c', 'd', 'e']) {
+        expect(DeviceProfile.fromSeed(seed, 'android').deviceInfo.deviceType).toBe('android');
+        expect(DeviceProfile.fromSeed(seed, 'ios').deviceInfo.deviceId).toMatch(/^[0-9A-F-]{36}$/);
+      }
+    });
+  });
+
+  describe('Validation', () => {
+    const android: DeviceInfo = {
+      deviceId: 'android-id',
+      deviceType: 'android',
+      deviceName: 'Pixel 8',
+      deviceOsVersion: 'Android15',
+      appVersion: 'DA.116.0'
+    };
+
+    it('should accept custom values that match a known device', () => {
+      expect(DeviceProfile.fromDeviceInfo(android).validate()).toEqual([]);
+    });
+
+    it('should report every mismatch', () => {
+      const profile = DeviceProfile.fromDeviceInfo({ ...android, deviceName: 'iPhone17,3', deviceOsVersion: 'iOS18.6' });
+
+      expect(profile.validate()).toEqual([
+        'OS version iOS18.6 does not belong to the android platform',
+        'Device iPhone17,3 belongs to the ios platform'
+      ]);
+    });
+
+    it('should report a User-Agent from another platform', () => {
+      const profile = DeviceProfile.fromDeviceInfo(android, 'Bolt Driver/179857746 CFNetwork/3826.600.31 Darwin/24.6.0');
+
+      expect(profile.validate()).toEqual(['User-Agent does not match Pixel 8 on Android15 with DA.116.0']);
+      expect(() => profile.assertValid()).toThrow(ValidationError);
+    });
+  });
+
+  describe('BoltDriverAPI Integration', () => {
+    const authConfig: AuthConfig = {
+      authMethod: 'phone',
+      brand: 'bolt',
+      country: 'ee',
+      language: 'et-EE',
+      theme: 'light'
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockedAxios.create.mockReturnValue(mockClient as any);
+    });
+
+    const createApi = () => {
+      const profile = DeviceProfile.fromPreset('galaxy-s24', { deviceId: 'android-id' });
+      const api = new BoltDriverAPI(profile.deviceInfo, authConfig, {}, new MemoryTokenStorage());
+      (api as any).accessToken = 'test-token';
+      (api as any).driverInfo = { driverId: 123, partnerId: 456, companyId: 789, companyCityId: 1 };
+      (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+      return { api, profile };
+    };
+
+    it('should default the User-Agent to the one of the device', () => {
+      const { profile } = createApi();
+
+      expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({
+        headers: expect.objectContaining({ 'User-Agent': profile.userAgent })
+      }));
+    });
+
+    it('should send the platform provider of the device', async () => {
+      const { api } = createApi();
+      mockClient.get.mockResolvedValueOnce({ status: 200, data: { code: 0, message: 'OK', data: {} } });
+
+      await api.getLoggedInDriverConfiguration();
+
+      expect(mockClient.get.mock.calls[0]?.[1]?.params).toEqual(
+        expect.objectContaining({ app_platform_provider: 'google', deviceType: 'android' })
+      );
+    });
+
+    it('should register Android devices with FCM', async () => {
+      const { api } = createApi();
+      mockClient.put.mockResolvedValueOnce({ data: {} });
+
+      await api.updatePushProfile('user-1', 'instance-1', 'fcm-token-123');
+
+      expect(mockClient.put).toHaveBeenCalledWith(expect.any(String), {
+        fcm: [{ packageName: 'ee.mtakso.driver', deviceToken: 'fcm-token-123' }],
+        maxPayloadSize: 4096
+      }, { signal: expect.any(AbortSignal) });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { parseCarName } from '../src/DriverConfiguration';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig } from '../src/types';
+
+describe('Driver configuration', () => {
+  let transport: MemoryTransport;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const driverInfo = { driverId: 123, partnerId: 456, companyId: 789, companyCityId: 1 };
+
+  const createApi = (loggedIn = true) => {
+    const api = new BoltDriverAPI(deviceInfo, authConfig, { transport, retries: 0 }, new MemoryTokenStorage(), { enabled: false });
+    if (loggedIn) {
+      (api as any).accessToken = 'test-token';
+      (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+      (api as any).driverInfo = driverInfo;
+    }
+    return api;
+  };
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+  });
+
+  it('should map the API payload and parse the car name', async () => {
+    transport.on('GET', /getLoggedInDriverConfigurationV2$/, {
+      data: {
+        code: 0,
+        message: 'OK',
+        data: {
+          user: { id: 123, partner_id: 456, name: 'Jan Maria Kowalski', username: 'jan@example.com', country: 'pl', city_name: 'Warsaw' },
+          car: { selected_car_id: 42, selected_car_name: 'WA 12345 • Toyota Prius' },
+          features: { scheduled_rides: true }
+        }
+      }
+    });
+
+    await expect(createApi().getLoggedInDriverConfiguration()).resolves.toEqual({
+      dataSource: 'api',
+      driver_info: {
+        driver_id: 123,
+        partner_id: 456,
+        company_id: 789,
+        company_city_id: 1,
+        first_name: 'Jan',
+        last_name: 'Maria Kowalski',
+        email: 'jan@example.com'
+      },
+      company_info: { country: 'pl', city: 'Warsaw' },
+      vehicle_info: {
+        selected_car_id: 42,
+        selected_car_name: 'WA 12345 • Toyota Prius',
+        make: 'Toyota',
+        model: 'Prius',
+        license_plate: 'WA 12345'
+      },
+      app_config: {},
+      features: { scheduled_rides: true }
+    });
+  });
+
+  it('should fall back to the token identifiers without placeholder values', async () => {
+    transport.on('GET', /getLoggedInDriverConfigurationV2$/, { status: 500, data: 'Internal Server Error' });
+
+    await expect(createApi().getLoggedInDriverConfiguration()).resolves.toEqual({
+      dataSource: 'jwt',
+      driver_info: { driver_id: 123, partner_id: 456, company_id: 789, company_city_id: 1 },
+      company_info: {},
+      vehicle_info: {},
+      app_config: {},
+      features: {}
+    });
+    await expect(createApi(false).getLoggedInDriverConfiguration()).resolves.toMatchObject({
+      dataSource: 'none',
+      driver_info: {}
+    });
+  });
+
+  it('should refresh an expired token before fetching the configuration', async () => {
+    transport
+      .on('POST', /driver\/getAccessToken$/, {
+        data: { code: 0, message: 'OK', data: { access_token: 'fresh-token', expires_in_seconds: 3600, expires_timestamp: 0 } }
+      })
+      .on('GET', /getLoggedInDriverConfigurationV2$/, { data: { code: 0, message: 'OK', data: { user: { id: 123 } } } });
+    const api = createApi();
+    (api as any).refreshToken = 'refresh-token';
+    (api as any).sessionInfo.expiresAt = Date.now() - 1000;
+
+    await expect(api.getLoggedInDriverConfiguration()).resolves.toMatchObject({ dataSource: 'api' });
+
+    expect(transport.requests.map(request => request.endpoint)).toEqual([
+      'exchangeRefreshTokenForJWT',
+      'getLoggedInDriverConfiguration'
+    ]);
+    expect(transport.requests[1]?.headers['Authorization']).toBe('Bearer fresh-token');
+  });
+
+  it.each([
+    ['WA 12345 • Toyota Prius', { make: 'Toyota', model: 'Prius', licensePlate: 'WA 12345' }],
+    ['Toyota Prius • WA12345', { make: 'Toyota', model: 'Prius', licensePlate: 'WA12345' }],
+    ['Škoda Octavia (ABC-123)', { make: 'Škoda', model: 'Octavia', licensePlate: 'ABC-123' }],
+    ['Toyota Corolla, 2019 - KDA 123A', { make: 'Toyota', model: 'Corolla', licensePlate: 'KDA 123A', year: 2019 }],
+    ['AB12 CDE | Ford Galaxy', { make: 'Ford', model: 'Galaxy', licensePlate: 'AB12 CDE' }],
+    ['Toyota Prius WA 12345', { make: 'Toyota', model: 'Prius', licensePlate: 'WA 12345' }],
+    ['Hyundai Ioniq 2021 ABC123', { make: 'Hyundai', model: 'Ioniq', licensePlate: 'ABC123', year: 2021 }],
+    ['Land Rover Discovery · 123 ABC', { make: 'Land Rover', model: 'Discovery', licensePlate: '123 ABC' }],
+    ['BMW 530e • LSD-123AB', { make: 'BMW', model: '530e', licensePlate: 'LSD-123AB' }],
+    ['Mercedes-Benz GLE 350', { make: 'Mercedes-Benz', model: 'GLE 350' }],
+    ['Peugeot 3008', { make: 'Peugeot', model: '3008' }],
+    ['Tesla', { make: 'Tesla' }],
+    ['  ', {}]
+  ])('should parse %j', (name, expected) => {
+    expect(parseCarName(name)).toEqual(expected);
+  });
+});
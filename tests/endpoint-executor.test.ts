@@ -0,0 +1,148 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { ENDPOINTS, EndpointName } from '../src/Endpoints';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, AuthenticationError, BoltApiError, ValidationError } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  put: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+describe('Endpoint Executor', () => {
+  let api: BoltDriverAPI;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockClient as any);
+
+    api = new BoltDriverAPI(deviceInfo, authConfig, { retries: 0 }, new MemoryTokenStorage());
+    (api as any).accessToken = 'test-token';
+    (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+  });
+
+  describe('Catalogue', () => {
+    it('should resolve every endpoint to an absolute URL', () => {
+      const pathParams = { userId: 'user-1', instanceId: 'instance-1' };
+
+      for (const name of Object.keys(ENDPOINTS) as EndpointName[]) {
+        expect((api as any).endpointUrl(name, pathParams)).toMatch(/^https:\/\/[^{}]+$/);
+      }
+    });
+
+    it('should fill and encode path parameters', () => {
+      expect((api as any).endpointUrl('updatePushProfile', { userId: 'a b', instanceId: 'c' }))
+        .toBe('https://ocra-bolt.api.sinch.com/ocra/v1/users/a%20b/instances/c/pushProfile');
+      expect(() => (api as any).endpointUrl('updatePushProfile', { userId: 'a' })).toThrow(ValidationError);
+    });
+
+    it('should resolve configured hosts', () => {
+      api = new BoltDriverAPI(deviceInfo, authConfig, {
+        driverBaseUrl: 'http://localhost:8080/partnerDriver',
+        companyBaseUrl: 'http://localhost:8081'
+      });
+
+      expect((api as any).endpointUrl('getModal')).toBe('http://localhost:8080/partnerDriver/modal');
+      expect((api as any).endpointUrl('getDriverState')).toBe('http://localhost:8081/polling/driver');
+    });
+  });
+
+  describe('Execution', () => {
+    it('should validate the session before calling authenticated endpoints', async () => {
+      (api as any).accessToken = undefined;
+      (api as any).sessionInfo = undefined;
+
+      await expect(api.getDriverState(gpsInfo)).rejects.toThrow(AuthenticationError);
+      await expect(api.getModal(gpsInfo)).rejects.toThrow(AuthenticationError);
+      expect(mockClient.post).not.toHaveBeenCalled();
+      expect(mockClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should merge endpoint parameters over the common ones', async () => {
+      mockClient.get.mockResolvedValueOnce({ status: 200, data: { code: 0, message: 'OK', data: {} } });
+
+      await api.getRideDetails(gpsInfo, { orderId: 'order-1', cityId: 1, orderSystem: 'default' });
+
+      expect(mockClient.get).toHaveBeenCalledWith(
+        'https://partnerdriver.live.boltsvc.net/partnerDriver/getOrderDetails',
+        {
+          params: expect.objectContaining({ order_id: 'order-1', gps_lat: gpsInfo.latitude, driver_id: 123 }),
+          headers: { Authorization: 'Bearer test-token' },
+          signal: expect.any(AbortSignal)
+        }
+      );
+    });
+
+    it('should request binary endpoints as an ArrayBuffer', async () => {
+      const tile = new ArrayBuffer(4);
+      mockClient.get.mockResolvedValueOnce({ status: 200, data: tile });
+
+      await expect(api.getMapTile(gpsInfo, 'collection', 1, 2, 3)).resolves.toBe(tile);
+      expect(mockClient.get).toHaveBeenCalledWith(
+        expect.stringContaining('/v2/getTile'),
+        expect.objectContaining({ responseType: 'arraybuffer', params: expect.objectContaining({ x: 1, y: 2, zoom: 3 }) })
+      );
+    });
+
+    it('should check the code of envelope responses', async () => {
+      mockClient.post.mockResolvedValueOnce({ status: 200, data: { code: 7, message: 'INVALID_TOKEN', data: null } });
+
+      await expect(api.setDeviceToken('device-token')).rejects.toMatchObject({
+        statusCode: 7,
+        message: 'API returned error code 7: INVALID_TOKEN'
+      });
+    });
+
+    it('should wrap unexpected failures with the endpoint description', async () => {
+      mockClient.get.mockRejectedValueOnce(new TypeError('boom'));
+
+      const error = await api.getDispatchPreferences(gpsInfo).catch(e => e);
+
+      expect(error).toBeInstanceOf(BoltApiError);
+      expect(error.message).toBe('Failed to get dispatch preferences: boom');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { FakeBoltServer } from '../src/testing/FakeBoltServer';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import {
+  DeviceInfo,
+  AuthConfig,
+  GpsInfo,
+  Credentials,
+  AuthenticationError,
+  InvalidSmsCodeError
+} from '../src/types';
+
+describe('FakeBoltServer', () => {
+  let server: FakeBoltServer;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const credentials: Credentials = {
+    driver_id: 'driver-1',
+    session_id: 'session-1',
+    phone: '+48123456789'
+  };
+
+  const createApi = () =>
+    new BoltDriverAPI(deviceInfo, authConfig, { hosts: server.hosts, retries: 0 }, new MemoryTokenStorage(), { enabled: false });
+
+  const login = async (api: BoltDriverAPI, phone = credentials.phone) => {
+    const started = await api.startAuthentication(authConfig, deviceInfo, { ...credentials, phone });
+    return api.confirmAuthentication(
+      authConfig,
+      deviceInfo,
+      { ...credentials, phone, verification_token: started.data.verification_token },
+      '123456'
+    );
+  };
+
+  const jwtPayload = (token: string) => JSON.parse(Buffer.from(token.split('.')[1]!, 'base64url').toString());
+
+  beforeEach(async () => {
+    server = new FakeBoltServer({ smsLimit: 2, accessTokenTtlSeconds: 600 });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should log a driver in by SMS and serve their state over HTTP', async () => {
+    const driver = server.addDriver({ phone: credentials.phone, status: 'waiting_orders' });
+    const api = createApi();
+
+    const confirmed = await login(api);
+
+    expect(jwtPayload(confirmed.data!.token.refresh_token)).toMatchObject({
+      data: { driver_id: driver.driverId, partner_id: driver.partnerId },
+      exp: expect.any(Number)
+    });
+    expect(api.isAuthenticated()).toBe(true);
+    await expect(api.getDriverState(gpsInfo)).resolves.toMatchObject({ driver_status: 'waiting_orders' });
+  });
+
+  it('should receive query parameters, headers and bodies as serialized by the SDK', async () => {
+    server.addDriver({ phone: credentials.phone });
+    const api = createApi();
+    await login(api);
+
+    const history = await api.getOrderHistoryPaginated(gpsInfo, 5, 10);
+    await api.getDriverState(gpsInfo, 'foreground');
+
+    expect(history).toMatchObject({ limit: 5, offset: 10, total: 25 });
+    expect((history as unknown as { orders: unknown[] }).orders).toHaveLength(5);
+
+    const [historyRequest, stateRequest] = server.requests.slice(-2);
+    expect(historyRequest).toMatchObject({
+      endpoint: 'getOrderHistoryPaginated',
+      method: 'GET',
+      query: expect.objectContaining({ limit: '5', offset: '10', gps_lat: '52.237049', deviceId: 'test-device-id' }),
+      headers: expect.objectContaining({ authorization: expect.stringMatching(/^Bearer ey/), 'accept-language': 'en-GB' })
+    });
+    expect(stateRequest).toMatchObject({ endpoint: 'getDriverState', method: 'POST', body: { app_state: 'foreground' } });
+  });
+
+  it('should return the documented authentication error codes', async () => {
+    server.addDriver({ phone: credentials.phone });
+    const api = createApi();
+
+    await expect(api.startAuthentication(authConfig, deviceInfo, { ...credentials, phone: '123' })).resolves.toMatchObject({
+      code: 17500,
+      message: 'PARSING_PHONE_FAILED'
+    });
+
+    const started = await api.startAuthentication(authConfig, deviceInfo, credentials);
+    await expect(
+      api.confirmAuthentication(authConfig, deviceInfo, { ...credentials, verification_token: started.data.verification_token }, '000000')
+    ).rejects.toThrow(InvalidSmsCodeError);
+
+    await api.startAuthentication(authConfig, deviceInfo, credentials);
+    await expect(api.startAuthentication(authConfig, deviceInfo, credentials)).resolves.toMatchObject({
+      code: 299,
+      message: 'SMS_LIMIT_REACHED'
+    });
+  });
+
+  it('should fail the next request with an injected error code', async () => {
+    server.addDriver({ phone: credentials.phone });
+    const api = createApi();
+    await login(api);
+
+    server.failNext('getDriverState', 1000);
+
+    await expect(api.getDriverState(gpsInfo)).rejects.toThrow('API returned error code 1000: DATABASE_ERROR');
+    await expect(api.getDriverState(gpsInfo)).resolves.toMatchObject({ driver_status: 'inactive' });
+  });
+
+  it('should log in with a magic link and refresh revoked access tokens', async () => {
+    const driver = server.addDriver({ phone: credentials.phone, email: 'driver@example.com' });
+    const api = createApi();
+
+    await api.sendMagicLink('driver@example.com');
+    const token = BoltDriverAPI.extractTokenFromMagicLink(server.magicLinks.get('driver@example.com')!);
+    await api.authenticateWithMagicLink(token, deviceInfo, gpsInfo);
+
+    expect(api.getDriverInfo()).toMatchObject({ driverId: driver.driverId, partnerId: driver.partnerId });
+
+    server.revokeTokens('access');
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual(driver.workingTime);
+    expect(server.requests.map(request => request.endpoint).slice(-3)).toEqual([
+      'getWorkingTimeInfo',
+      'exchangeRefreshTokenForJWT',
+      'getWorkingTimeInfo'
+    ]);
+  });
+
+  it('should issue access tokens expiring after the configured lifetime', async () => {
+    server.addDriver({ phone: credentials.phone, email: 'driver@example.com' });
+    const api = createApi();
+    await api.sendMagicLink('driver@example.com');
+    await api.authenticateWithMagicLink(
+      BoltDriverAPI.extractTokenFromMagicLink(server.magicLinks.get('driver@example.com')!),
+      deviceInfo,
+      gpsInfo
+    );
+
+    const accessToken = await api.getAccessToken();
+    const { iat, exp } = jwtPayload(accessToken);
+
+    expect(exp - iat).toBe(600);
+  });
+
+  it('should reject unauthenticated requests with NOT_AUTHORIZED and lose the session once refresh tokens are revoked', async () => {
+    server.addDriver({ phone: credentials.phone });
+    const api = createApi();
+    await login(api);
+    const authLost = jest.fn();
+    api.on('authLost', authLost);
+
+    server.revokeTokens();
+
+    await expect(api.getDriverState(gpsInfo)).rejects.toThrow(AuthenticationError);
+    expect(authLost).toHaveBeenCalled();
+    expect(server.requests.map(request => request.endpoint).slice(-2)).toEqual(['getDriverState', 'exchangeRefreshTokenForJWT']);
+  });
+
+  it('should serve map tiles as binary data', async () => {
+    server.addDriver({ phone: credentials.phone });
+    const api = createApi();
+    await login(api);
+
+    const tile = await api.getMapTile(gpsInfo, 'collection', 1, 2, 15);
+
+    expect(Array.from(new Uint8Array(tile).slice(1, 4))).toEqual([0x50, 0x4e, 0x47]); // "PNG"
+  });
+});
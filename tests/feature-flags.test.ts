@@ -0,0 +1,146 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { FeatureFlags } from '../src/FeatureFlags';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { BoltApiError, DriverConfiguration, FeatureFlagChange } from '../src/types';
+
+describe('FeatureFlags', () => {
+  const config = (
+    features: Record<string, unknown>,
+    appConfig: Record<string, unknown> = {},
+    dataSource: DriverConfiguration['dataSource'] = 'api'
+  ): DriverConfiguration => ({
+    dataSource,
+    driver_info: { driver_id: 123 },
+    company_info: {},
+    vehicle_info: {},
+    app_config: appConfig,
+    features
+  });
+
+  const createFlags = (...configs: DriverConfiguration[]) => {
+    const getLoggedInDriverConfiguration = jest.fn<Promise<DriverConfiguration>, []>();
+    for (const value of configs) {
+      getLoggedInDriverConfiguration.mockResolvedValueOnce(value);
+    }
+    const flags = new FeatureFlags({ getLoggedInDriverConfiguration }, { refreshIntervalMs: 1000 });
+    return { flags, getLoggedInDriverConfiguration };
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should look up flags and typed values in features and app config', async () => {
+    const { flags } = createFlags(
+      config(
+        { scheduled_rides: true, heatmap: 'enabled', tips: 0, chat: { is_enabled: true }, max_stops: 3 },
+        { polling: { interval_sec: 15 }, theme: 'dark' }
+      )
+    );
+
+    expect(flags.isEnabled('scheduled_rides')).toBe(false);
+    expect(flags.getLastUpdated()).toBeUndefined();
+
+    await flags.refresh();
+
+    expect(['scheduled_rides', 'heatmap', 'tips', 'chat', 'missing'].map(name => flags.isEnabled(name))).toEqual([
+      true,
+      true,
+      false,
+      true,
+      false
+    ]);
+    expect(flags.getValue('max_stops', 1)).toBe(3);
+    expect(flags.getValue('polling.interval_sec', 10)).toBe(15);
+    expect(flags.getValue('theme', 0)).toBe(0);
+    expect(flags.getValue('missing', 'light')).toBe('light');
+    expect(flags.has('polling')).toBe(true);
+    expect(flags.getLastUpdated()).toBeInstanceOf(Date);
+  });
+
+  it('should emit changes between fetches', async () => {
+    const { flags } = createFlags(
+      config({ scheduled_rides: false, heatmap: true }, { polling: { interval_sec: 15 } }),
+      config({ scheduled_rides: true, cash_out: 'on' }, { polling: { interval_sec: 15 } })
+    );
+    const changes: FeatureFlagChange[] = [];
+    flags.on('change', change => changes.push(change));
+
+    await expect(flags.refresh()).resolves.toEqual([]);
+    await flags.refresh();
+
+    expect(changes).toEqual([
+      { name: 'scheduled_rides', source: 'features', previous: false, current: true, enabled: true },
+      { name: 'heatmap', source: 'features', previous: true, enabled: false },
+      { name: 'cash_out', source: 'features', current: 'on', enabled: true }
+    ]);
+  });
+
+  it('should keep the cached flags when only the token fallback is available', async () => {
+    const { flags } = createFlags(config({ scheduled_rides: true }), config({}, {}, 'jwt'));
+    const listener = jest.fn();
+    flags.on('change', listener);
+
+    await flags.refresh();
+    await expect(flags.refresh()).resolves.toEqual([]);
+
+    expect(flags.isEnabled('scheduled_rides')).toBe(true);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should re-fetch on the interval until stopped and report failures', async () => {
+    jest.useFakeTimers();
+    const { flags, getLoggedInDriverConfiguration } = createFlags(
+      config({ scheduled_rides: false }),
+      config({ scheduled_rides: true })
+    );
+    getLoggedInDriverConfiguration.mockRejectedValueOnce(new Error('offline'));
+    const changes = jest.fn();
+    const errors = jest.fn();
+    flags.on('change', changes).on('refreshError', errors);
+
+    await flags.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(changes).toHaveBeenCalledWith(expect.objectContaining({ name: 'scheduled_rides', enabled: true }));
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(errors).toHaveBeenCalledWith(new Error('offline'));
+    expect(flags.isEnabled('scheduled_rides')).toBe(true);
+
+    flags.stop();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(getLoggedInDriverConfiguration).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report failed API fetches instead of the token fallback', async () => {
+    jest.useFakeTimers();
+    const transport = new MemoryTransport().on('GET', /getLoggedInDriverConfigurationV2$/, {
+      data: { code: 0, message: 'OK', data: { features: { scheduled_rides: true } } }
+    });
+    const api = new BoltDriverAPI(
+      { deviceId: 'test-device-id', deviceType: 'iphone', deviceName: 'iPhone17,3', deviceOsVersion: 'iOS18.6', appVersion: 'DI.116.0' },
+      { authMethod: 'phone', brand: 'bolt', country: 'pl', language: 'en-GB', theme: 'dark' },
+      { transport, retries: 0 },
+      new MemoryTokenStorage(),
+      { enabled: false }
+    );
+    (api as any).accessToken = 'test-token';
+    (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+    (api as any).driverInfo = { driverId: 123, partnerId: 456, companyId: 789, companyCityId: 1 };
+    const flags = new FeatureFlags(api, { refreshIntervalMs: 1000 });
+    const errors = jest.fn();
+    flags.on('refreshError', errors);
+
+    await flags.start();
+    transport.on('GET', /getLoggedInDriverConfigurationV2$/, { status: 500, data: 'Internal Server Error' });
+    await jest.advanceTimersByTimeAsync(1000);
+    flags.stop();
+
+    expect(errors).toHaveBeenCalledWith(expect.any(BoltApiError));
+    expect(errors.mock.calls[0]?.[0]).toMatchObject({ statusCode: 500 });
+    expect(flags.isEnabled('scheduled_rides')).toBe(true);
+    await expect(api.getLoggedInDriverConfiguration()).resolves.toMatchObject({ dataSource: 'jwt' });
+  });
+});
@@ -0,0 +1,186 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { HarRecorder } from '../src/HarRecorder';
+import { HarReplayTransport } from '../src/HarReplayTransport';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, HarLog, HarReplayOptions, Transport, UnmatchedRequestError } from '../src/types';
+
+describe('HarReplayTransport', () => {
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: 1700000000,
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const ok = (data: unknown) => ({ data: { code: 0, message: 'OK', data } });
+
+  const createApi = (transport: Transport, options: { recorder?: HarRecorder; sessionId?: string; device?: DeviceInfo } = {}) => {
+    const config = options.recorder ? { transport, retries: 0, recorder: options.recorder } : { transport, retries: 0 };
+    const client = new BoltDriverAPI(options.device ?? deviceInfo, authConfig, config, new MemoryTokenStorage());
+    (client as any).accessToken = 'test-token';
+    (client as any).sessionInfo = {
+      sessionId: options.sessionId ?? 'session-123',
+      driverId: 123,
+      partnerId: 456,
+      expiresAt: Date.now() + 3600000
+    };
+    return client;
+  };
+
+  /** Record a HAR by running `calls` against a MemoryTransport */
+  const record = async (
+    setup: (transport: MemoryTransport) => void,
+    calls: (api: BoltDriverAPI) => Promise<unknown>,
+    recorder = new HarRecorder()
+  ): Promise<HarLog> => {
+    const transport = new MemoryTransport();
+    setup(transport);
+    await calls(createApi(transport, { recorder }));
+    return recorder.toHar();
+  };
+
+  const replay = (har: HarLog, options?: HarReplayOptions) => {
+    const transport = new HarReplayTransport(har, options);
+    return { transport, api: createApi(transport, { sessionId: 'another-session' }) };
+  };
+
+  it('should serve recorded responses regardless of the timestamp and session', async () => {
+    const har = await record(
+      transport => transport
+        .on('GET', /getWorkingTimeInfo$/, ok({ minutes: 42 }))
+        .on('GET', /getDriverNavBarBadges$/, ok({ badges: [] })),
+      async api => {
+        await api.getWorkingTimeInfo(gpsInfo);
+        await api.getDriverNavBarBadges(gpsInfo);
+      }
+    );
+    const { api, transport } = replay(har);
+
+    await expect(api.getDriverNavBarBadges({ ...gpsInfo, timestamp: 1800000000 })).resolves.toEqual({ badges: [] });
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ minutes: 42 });
+    expect(transport.unmatched).toEqual([]);
+  });
+
+  it('should serve repeated requests in recorded order and then repeat the last response', async () => {
+    let polls = 0;
+    const har = await record(
+      transport => transport.on('GET', /getWorkingTimeInfo$/, () => ok({ poll: ++polls })),
+      async api => {
+        await api.getWorkingTimeInfo(gpsInfo);
+        await api.getWorkingTimeInfo(gpsInfo);
+      }
+    );
+    const { api } = replay(har);
+
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await api.getWorkingTimeInfo(gpsInfo));
+    }
+    expect(results).toEqual([{ poll: 1 }, { poll: 2 }, { poll: 2 }]);
+  });
+
+  it('should replay HTTP error statuses and recorded network failures', async () => {
+    const har = await record(
+      transport => transport
+        .on('GET', /getWorkingTimeInfo$/, { status: 400, data: { message: 'bad' } })
+        .on('GET', /getDriverNavBarBadges$/, () => {
+          throw new Error('socket hang up');
+        }),
+      async api => {
+        await api.getWorkingTimeInfo(gpsInfo).catch(() => undefined);
+        await api.getDriverNavBarBadges(gpsInfo).catch(() => undefined);
+      }
+    );
+    const { api } = replay(har);
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(api.getDriverNavBarBadges(gpsInfo)).rejects.toMatchObject({ statusCode: 0, message: 'socket hang up' });
+  });
+
+  it('should flag requests without a recorded match', async () => {
+    const har = await record(
+      transport => transport.on('GET', /getWorkingTimeInfo$/, ok({})),
+      api => api.getWorkingTimeInfo(gpsInfo)
+    );
+
+    const strict = replay(har);
+    await expect(strict.api.getWorkingTimeInfo({ ...gpsInfo, latitude: 50.06 })).rejects.toThrow(UnmatchedRequestError);
+    await expect(strict.api.getDriverNavBarBadges(gpsInfo)).rejects.toThrow(/No recorded response for GET .*getDriverNavBarBadges/);
+    expect(strict.transport.unmatched.map(request => request.endpoint)).toEqual(['getWorkingTimeInfo', 'getDriverNavBarBadges']);
+
+    const lenient = replay(har, { strict: false });
+    await expect(lenient.api.getDriverNavBarBadges(gpsInfo)).rejects.toMatchObject({ statusCode: 404 });
+    expect(lenient.transport.unmatched).toHaveLength(1);
+  });
+
+  it('should compare only the configured query parameters', async () => {
+    const har = await record(
+      transport => transport.on('GET', /getWorkingTimeInfo$/, ok({ minutes: 1 })),
+      api => api.getWorkingTimeInfo(gpsInfo)
+    );
+    const moved = { ...gpsInfo, latitude: 50.06, longitude: 19.94 };
+
+    await expect(replay(har, { matchQuery: ['version', 'country'] }).api.getWorkingTimeInfo(moved)).resolves.toEqual({ minutes: 1 });
+    await expect(
+      replay(har, { ignoreQuery: ['gps_timestamp', 'session_id', 'gps_lat', 'gps_lng'] }).api.getWorkingTimeInfo(moved)
+    ).resolves.toEqual({ minutes: 1 });
+    await expect(replay(har, { matchQuery: ['gps_lat'] }).api.getWorkingTimeInfo(moved)).rejects.toThrow(UnmatchedRequestError);
+  });
+
+  it('should match redacted recorded values against any value', async () => {
+    const har = await record(
+      transport => transport.on('GET', /getWorkingTimeInfo$/, ok({ minutes: 1 })),
+      api => api.getWorkingTimeInfo(gpsInfo),
+      new HarRecorder({ redactFields: ['deviceId'] })
+    );
+    const transport = new HarReplayTransport(har);
+    const api = createApi(transport, { device: { ...deviceInfo, deviceId: 'other-device' } });
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ minutes: 1 });
+  });
+
+  it('should load HAR files', async () => {
+    const har = await record(
+      transport => transport.on('GET', /getWorkingTimeInfo$/, ok({ minutes: 7 })),
+      api => api.getWorkingTimeInfo(gpsInfo)
+    );
+    const path = join(tmpdir(), `bolt-replay-${process.pid}.har`);
+    try {
+      await fs.writeFile(path, JSON.stringify(har));
+      const api = createApi(HarReplayTransport.fromFile(path));
+
+      await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ minutes: 7 });
+    } finally {
+      await fs.rm(path, { force: true });
+    }
+  });
+});
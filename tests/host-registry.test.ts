@@ -0,0 +1,146 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { HostRegistry, DEFAULT_HOSTS } from '../src/HostRegistry';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  put: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+describe('Host Registry', () => {
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  describe('Resolution', () => {
+    it('should fall back to the built-in hosts', () => {
+      const registry = new HostRegistry();
+
+      expect(registry.getHosts()).toEqual(DEFAULT_HOSTS);
+      expect(registry.getRegion()).toBe('europe');
+    });
+
+    it('should use the built-in hosts for any region or country without regionHosts', () => {
+      const registry = new HostRegistry({ region: 'africa', country: 'KE' });
+
+      expect(registry.getHosts()).toEqual(DEFAULT_HOSTS);
+      expect(registry.getRegion()).toBe('africa');
+    });
+
+    it('should prefer overrides, then country, then region defaults', () => {
+      const registry = new HostRegistry({
+        region: 'staging',
+        country: 'PL',
+        regionHosts: {
+          staging: { company: 'https://company.staging.test', search: 'https://search.staging.test' },
+          pl: { company: 'https://company.pl.staging.test' }
+        },
+        hosts: { search: 'http://localhost:9000/' }
+      });
+
+      expect(registry.resolve('company')).toBe('https://company.pl.staging.test');
+      expect(registry.resolve('search')).toBe('http://localhost:9000');
+      expect(registry.resolve('driver')).toBe(DEFAULT_HOSTS.driver);
+    });
+
+    it('should allow hosts to be changed at runtime', () => {
+      const registry = new HostRegistry();
+      registry.setHost('sinch', 'http://localhost:7000/');
+
+      expect(registry.resolve('sinch')).toBe('http://localhost:7000');
+    });
+  });
+
+  describe('BoltDriverAPI Integration', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockedAxios.create.mockReturnValue(mockClient as any);
+    });
+
+    const createApi = (config: Record<string, unknown>) => {
+      const api = new BoltDriverAPI(deviceInfo, authConfig, config, new MemoryTokenStorage());
+      (api as any).accessToken = 'test-token';
+      (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+      return api;
+    };
+
+    it('should send previously hard-coded endpoints to the overridden hosts', async () => {
+      const api = createApi({ hosts: { driver: 'http://localhost:8080', search: 'http://localhost:8081' } });
+      mockClient.get.mockResolvedValue({ status: 200, data: { code: 0, message: 'OK', data: {} } });
+
+      await api.getWorkingTimeInfo(gpsInfo);
+      await api.getDriverNavBarBadges(gpsInfo);
+      await api.getOtherActiveDrivers(gpsInfo);
+
+      const urls = mockClient.get.mock.calls.map(([url]: any[]) => url);
+      expect(urls).toEqual([
+        'http://localhost:8080/driver/v2/getWorkingTimeInfo',
+        'http://localhost:8080/driver/getDriverNavBarBadges',
+        'http://localhost:8081/search/driver/getOtherActiveDrivers'
+      ]);
+    });
+
+    it('should send the token exchange and magic link requests to the driver host', async () => {
+      const api = createApi({ hosts: { driver: 'http://localhost:8080' } });
+      (api as any).refreshToken = 'refresh-token';
+      mockClient.post.mockResolvedValueOnce({ status: 200, data: { code: 0, message: 'OK', data: { access_token: 'jwt' } } });
+      mockClient.post.mockResolvedValueOnce({ status: 200, data: { code: 0, message: 'OK', data: {} } });
+
+      await api.exchangeRefreshTokenForJWT(gpsInfo);
+      await api.sendMagicLink('driver@example.com');
+
+      expect(mockClient.post.mock.calls[0]?.[0]).toBe('http://localhost:8080/driver/getAccessToken');
+      expect(mockClient.post.mock.calls[1]?.[0]).toBe('http://localhost:8080/driver/sendMagicLink');
+    });
+
+    it('should keep the legacy URL options working', () => {
+      const api = createApi({ companyBaseUrl: 'http://localhost:8082', hosts: { sinch: 'http://localhost:8083' } });
+      const hosts = api.getHostRegistry().getHosts();
+
+      expect(hosts.company).toBe('http://localhost:8082');
+      expect(hosts.sinch).toBe('http://localhost:8083');
+      expect((api as any).config.companyBaseUrl).toBe('http://localhost:8082');
+    });
+  });
+});
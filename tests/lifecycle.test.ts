@@ -0,0 +1,165 @@
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { FeatureFlags } from '../src/FeatureFlags';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, RequestAbortedError, SessionInfo } from '../src/types';
+
+function createJwt(expiresInSeconds: number): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = {
+    data: { driver_id: 123, partner_id: 456, company_id: 789, company_city_id: 101 },
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+  };
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('Client lifecycle', () => {
+  let transport: MemoryTransport;
+  let storage: MemoryTokenStorage;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const storeSession = async (accessToken: string, expiresAt: number) => {
+    const sessionInfo: SessionInfo = {
+      sessionId: 'session-123',
+      driverId: 123,
+      partnerId: 456,
+      companyId: 789,
+      companyCityId: 101,
+      accessToken,
+      refreshToken: 'refresh-token',
+      expiresAt
+    };
+    await storage.saveToken(accessToken, sessionInfo);
+  };
+
+  const createApi = (config: { retries?: number; retryBaseDelayMs?: number } = {}) =>
+    new BoltDriverAPI(deviceInfo, authConfig, { transport, retries: 0, ...config }, storage, { enabled: false });
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    storage = new MemoryTokenStorage();
+  });
+
+  it('should resolve ready() once stored credentials are loaded', async () => {
+    await storeSession(createJwt(3600), Date.now() + 3600000);
+    const api = createApi();
+
+    await expect(api.ready()).resolves.toBe(true);
+    expect(api.getSessionInfo()).toMatchObject({ driverId: 123 });
+    await expect(createApi().ready()).resolves.toBe(true);
+    await expect(new BoltDriverAPI(deviceInfo, authConfig, { transport }, new MemoryTokenStorage(), { enabled: false }).ready()).resolves.toBe(false);
+  });
+
+  it('should refresh an expired stored token before resolving ready()', async () => {
+    await storeSession(createJwt(-60), Date.now() - 1000);
+    const accessToken = createJwt(3600);
+    transport.on('POST', /driver\/getAccessToken$/, {
+      data: { code: 0, message: 'OK', data: { access_token: accessToken, expires_in_seconds: 3600, expires_timestamp: Math.floor(Date.now() / 1000) + 3600 } }
+    });
+    const api = createApi();
+
+    await expect(api.ready()).resolves.toBe(true);
+    expect(transport.requests.map(request => request.endpoint)).toEqual(['exchangeRefreshTokenForJWT']);
+    await expect(storage.loadToken()).resolves.toMatchObject({ token: accessToken });
+  });
+
+  it('should make requests wait for stored credentials', async () => {
+    await storeSession(createJwt(3600), Date.now() + 3600000);
+    transport.on('GET', /getWorkingTimeInfo$/, { data: { code: 0, message: 'OK', data: { daily_online_duration_seconds: 60 } } });
+
+    await expect(createApi().getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ daily_online_duration_seconds: 60 });
+  });
+
+  it('should abort in-flight requests and pending retries on dispose()', async () => {
+    await storeSession(createJwt(3600), Date.now() + 3600000);
+    transport
+      .on('GET', /getWorkingTimeInfo$/, () => new Promise(() => undefined))
+      .on('GET', /getDriverNavBarBadges$/, { status: 500, data: 'Internal Server Error' });
+    const api = createApi({ retries: 3, retryBaseDelayMs: 60000 });
+    await api.ready();
+    const destroy = jest.spyOn(api.getLogger(), 'destroy');
+    const disposed = jest.fn();
+    api.on('disposed', disposed);
+
+    const hanging = api.getWorkingTimeInfo(gpsInfo);
+    const retrying = api.getDriverNavBarBadges(gpsInfo);
+    await new Promise(resolve => setImmediate(resolve));
+    await api.dispose();
+
+    await expect(hanging).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(retrying).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toThrow('Client disposed');
+    expect(disposed).toHaveBeenCalledTimes(1);
+    expect(destroy).toHaveBeenCalledTimes(1);
+
+    await api.dispose();
+    expect(destroy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel an in-flight token refresh on dispose() and keep the credentials', async () => {
+    const expiredToken = createJwt(-60);
+    await storeSession(expiredToken, Date.now() - 1000);
+    let refreshSignal: AbortSignal | undefined;
+    const refreshSent = new Promise<void>(resolve => {
+      transport.on('POST', /driver\/getAccessToken$/, request => {
+        refreshSignal = request.signal;
+        resolve();
+        return new Promise(() => undefined);
+      });
+    });
+    const api = createApi();
+    const authLost = jest.fn();
+    api.on('authLost', authLost);
+
+    const ready = api.ready();
+    await refreshSent;
+    await api.dispose();
+    await ready;
+
+    expect(refreshSignal?.aborted).toBe(true);
+    expect(authLost).not.toHaveBeenCalled();
+    await expect(storage.loadToken()).resolves.toMatchObject({ token: expiredToken });
+  });
+
+  it('should stop feature flag polling and support Symbol.asyncDispose', async () => {
+    await storeSession(createJwt(3600), Date.now() + 3600000);
+    const api = createApi();
+    const flags = new FeatureFlags(api);
+    const stop = jest.spyOn(flags, 'stop');
+
+    await api[Symbol.asyncDispose]();
+
+    expect(stop).toHaveBeenCalled();
+    await expect(api.getDriverState(gpsInfo)).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+});
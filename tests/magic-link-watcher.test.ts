@@ -0,0 +1,260 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { MagicLinkWatcher } from '../src/MagicLinkWatcher';
+import { ImapMailboxSource, MaildirMailboxSource, MboxMailboxSource } from '../src/MailboxSources';
+import { MagicLinkReauthProvider } from '../src/Reauthentication';
+import { FakeBoltServer } from '../src/testing/FakeBoltServer';
+import { FakeImapServer } from '../src/testing/FakeImapServer';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { AuthConfig, DeviceInfo, GpsInfo, MagicLinkTimeoutError, MailboxSource } from '../src/types';
+
+describe('MagicLinkWatcher', () => {
+  let dir: string;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'email',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const email = 'driver@example.com';
+
+  /** A Bolt email with the link behind an awstrack.me redirect, quoted-printable HTML */
+  const trackedEmail = (url: string, to = email) => {
+    const tracked = `https://x.awstrack.me/L0/${encodeURIComponent(url)}/1/0100-abc=3D/xyz`;
+    const html = `<a href=3D"${tracked}">Log in</a> <a href=3D"https://bolt.eu/help?ref=3D1&amp;x=3D2">Help</a>`;
+    return [
+      'From: Bolt <no-reply@bolt.eu>',
+      `To: ${to}`,
+      'Subject: Your login link',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      html.match(/.{1,70}/g)?.join('=\n'),
+      '--b1--',
+      ''
+    ].join('\n');
+  };
+
+  const deliverToMaildir = async (raw: string, receivedAt: Date) => {
+    const name = `${Math.floor(receivedAt.getTime() / 1000)}.M${Math.random().toString(36).slice(2)}.test`;
+    await fs.mkdir(join(dir, 'tmp'), { recursive: true });
+    await fs.mkdir(join(dir, 'new'), { recursive: true });
+    await fs.writeFile(join(dir, 'tmp', name), raw);
+    await fs.rename(join(dir, 'tmp', name), join(dir, 'new', name));
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'bolt-mailbox-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('with FakeBoltServer', () => {
+    let server: FakeBoltServer;
+
+    const createApi = () =>
+      new BoltDriverAPI(deviceInfo, authConfig, { hosts: server.hosts, retries: 0 }, new MemoryTokenStorage(), { enabled: false });
+
+    /** Deliver the link the fake server "emailed" once `sendMagicLink` has been called */
+    const deliverNextLink = async (deliver: (url: string) => Promise<void>) => {
+      server.magicLinks.clear();
+      while (!server.magicLinks.has(email)) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      await deliver(server.magicLinks.get(email) ?? '');
+    };
+
+    beforeEach(async () => {
+      server = new FakeBoltServer();
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('should log in with the link from a Maildir and skip stale ones', async () => {
+      const api = createApi();
+      const staleUrl = 'https://partners.bolt.eu/driverapp/magic-login?token=stale-token';
+      await deliverToMaildir(trackedEmail(staleUrl), new Date(Date.now() - 60000));
+      const watcher = new MagicLinkWatcher(api, new MaildirMailboxSource(dir), { pollIntervalMs: 10 });
+
+      // Emails stamped with the request's second are ignored, so the link arrives a second later
+      const [response] = await Promise.all([
+        watcher.login(email, deviceInfo, gpsInfo),
+        deliverNextLink(url => deliverToMaildir(trackedEmail(url), new Date(Date.now() + 1000)))
+      ]);
+
+      expect(response.code).toBe(0);
+      expect(api.isAuthenticated()).toBe(true);
+      const login = server.requests.find(request => request.endpoint === 'authenticateWithMagicLink');
+      expect(login?.body).toMatchObject({ token: new URL(server.magicLinks.get(email) ?? '').searchParams.get('token') });
+    });
+
+    it('should supply links to the magic link re-authentication provider', async () => {
+      const api = createApi();
+      const watcher = new MagicLinkWatcher(api, new MaildirMailboxSource(dir), { pollIntervalMs: 10, clockSkewMs: 1000 });
+      api.addReauthProvider(new MagicLinkReauthProvider({ email, gpsInfo, getMagicLink: watcher.linkSupplier() }));
+
+      await Promise.all([
+        api.handleTokenFailure('magic-link'),
+        deliverNextLink(url => deliverToMaildir(trackedEmail(url), new Date()))
+      ]);
+
+      expect(api.isAuthenticated()).toBe(true);
+    });
+  });
+
+  it('should read mbox files and only accept mail addressed to the driver', async () => {
+    const file = join(dir, 'driver');
+    const link = (token: string) => `https://partners.bolt.eu/driverapp/magic-login?token=${token}`;
+    await fs.writeFile(file, [
+      'From no-reply@bolt.eu Mon Jan  6 09:00:00 2025',
+      trackedEmail(link('old-token')),
+      'From no-reply@bolt.eu Mon Jan  6 10:00:00 2025',
+      trackedEmail(link('other-token'), 'someone@example.com'),
+      'From no-reply@bolt.eu Mon Jan  6 10:00:05 2025',
+      'To: driver@example.com',
+      'Content-Type: text/plain',
+      '',
+      '>From the Bolt team: log in with',
+      link('new-token'),
+      ''
+    ].join('\n'));
+    const source = new MboxMailboxSource(file);
+    const watcher = new MagicLinkWatcher(
+      { sendMagicLink: jest.fn(), authenticateWithMagicLink: jest.fn() },
+      source,
+      { pollIntervalMs: 10, timeoutMs: 100 }
+    );
+
+    const messages = await source.fetchMessages(new Date(2025, 0, 6, 9, 30));
+    expect(messages).toHaveLength(2);
+    expect(messages[1]?.raw).toContain('\nFrom the Bolt team');
+
+    const since = new Date(2025, 0, 6, 9, 30);
+    await expect(watcher.waitForLink(since, { email })).resolves.toBe(link('new-token'));
+    // A link is used once; the stale 09:00 email is never picked up
+    await expect(watcher.waitForLink(since, { email })).rejects.toBeInstanceOf(MagicLinkTimeoutError);
+  });
+
+  describe('with FakeImapServer', () => {
+    let imap: FakeImapServer;
+
+    beforeEach(async () => {
+      imap = new FakeImapServer();
+      await imap.start();
+    });
+
+    afterEach(async () => {
+      await imap.stop();
+    });
+
+    it('should search and fetch messages over IMAP', async () => {
+      const url = 'https://partners.bolt.eu/driverapp/magic-login?token=imap-token';
+      const requestedAt = new Date();
+      imap.addMessage(trackedEmail('https://partners.bolt.eu/driverapp/magic-login?token=yesterday'), new Date(Date.now() - 86400000));
+      imap.addMessage(trackedEmail('https://partners.bolt.eu/driverapp/magic-login?token=earlier'), new Date(requestedAt.getTime() - 5000));
+      const watcher = new MagicLinkWatcher(
+        { sendMagicLink: jest.fn(), authenticateWithMagicLink: jest.fn() },
+        new ImapMailboxSource(imap.mailboxOptions),
+        { pollIntervalMs: 10 }
+      );
+
+      const waiting = watcher.waitForLink(requestedAt, { email });
+      setTimeout(() => imap.addMessage(trackedEmail(url), new Date(requestedAt.getTime() + 1000)), 30);
+      // SEARCH SINCE compares days in the server's time zone, so the search starts a day early
+      const dayBefore = new Date(requestedAt.getTime() - 86400000);
+      const month = dayBefore.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
+
+      // The link is returned as found in the email, redirect included
+      expect(BoltDriverAPI.extractTokenFromMagicLink(await waiting)).toBe('imap-token');
+      expect(imap.commands).toEqual(expect.arrayContaining([
+        'SELECT "INBOX"',
+        `UID SEARCH SINCE ${dayBefore.getUTCDate()}-${month}-${dayBefore.getUTCFullYear()}`,
+        expect.stringMatching(/^UID FETCH [\d,]+ \(UID INTERNALDATE BODY\.PEEK\[\]\)$/),
+        'LOGOUT'
+      ]));
+    });
+
+    it('should time out with the last mailbox error', async () => {
+      const source = new ImapMailboxSource({ ...imap.mailboxOptions, password: 'wrong' });
+      const watcher = new MagicLinkWatcher(
+        { sendMagicLink: jest.fn(), authenticateWithMagicLink: jest.fn() },
+        source,
+        { pollIntervalMs: 20, timeoutMs: 60 }
+      );
+
+      const error = await watcher.waitForLink(new Date()).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(MagicLinkTimeoutError);
+      expect((error as MagicLinkTimeoutError).response).toEqual(
+        new Error('IMAP LOGIN failed: NO [AUTHENTICATIONFAILED] Invalid credentials')
+      );
+    });
+  });
+
+  it('should ignore emails received in the same second as the request', async () => {
+    const link = (token: string) => `https://partners.bolt.eu/driverapp/magic-login?token=${token}`;
+    const requestedAt = new Date(2025, 0, 6, 10, 0, 0, 500);
+    const source: MailboxSource = {
+      fetchMessages: async () => [
+        { id: 'same-second', receivedAt: new Date(2025, 0, 6, 10, 0, 0), raw: `To: ${email}\n\n${link('same-second')}` },
+        { id: 'next-second', receivedAt: new Date(2025, 0, 6, 10, 0, 1), raw: `To: ${email}\n\n${link('next-second')}` }
+      ]
+    };
+    const watcher = new MagicLinkWatcher(
+      { sendMagicLink: jest.fn(), authenticateWithMagicLink: jest.fn() },
+      source,
+      { pollIntervalMs: 10, timeoutMs: 50 }
+    );
+
+    await expect(watcher.waitForLink(requestedAt, { email })).resolves.toBe(link('next-second'));
+    await expect(watcher.waitForLink(requestedAt, { email })).rejects.toBeInstanceOf(MagicLinkTimeoutError);
+  });
+
+  it('should stop waiting when aborted', async () => {
+    const source: MailboxSource = { fetchMessages: async () => [] };
+    const watcher = new MagicLinkWatcher({ sendMagicLink: jest.fn(), authenticateWithMagicLink: jest.fn() }, source);
+    const controller = new AbortController();
+
+    const waiting = watcher.waitForLink(new Date(), { signal: controller.signal });
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'RequestAbortedError' });
+  });
+});
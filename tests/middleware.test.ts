@@ -0,0 +1,150 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, BoltApiError, ValidationError } from '../src/types';
+
+describe('Middleware', () => {
+  let transport: MemoryTransport;
+  let api: BoltDriverAPI;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const ok = (data: unknown) => ({ data: { code: 0, message: 'OK', data } });
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    api = new BoltDriverAPI(deviceInfo, authConfig, { transport, retries: 0 }, new MemoryTokenStorage());
+    (api as any).accessToken = 'test-token';
+    (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+  });
+
+  it('should show the endpoint, the built parameters and the parsed response to the hooks', async () => {
+    transport.on('GET', /getWorkingTimeInfo$/, ok({ minutes: 42 }));
+    const seen: any[] = [];
+
+    api.use({
+      onRequest: ({ endpoint, params }) => {
+        seen.push({ endpoint, driverId: params?.driver_id, lat: params?.gps_lat });
+      },
+      onResponse: ({ endpoint, response }) => {
+        seen.push({ endpoint, data: response.data });
+      }
+    });
+    await api.getWorkingTimeInfo(gpsInfo);
+
+    expect(seen).toEqual([
+      { endpoint: 'getWorkingTimeInfo', driverId: 123, lat: gpsInfo.latitude },
+      { endpoint: 'getWorkingTimeInfo', data: { code: 0, message: 'OK', data: { minutes: 42 } } }
+    ]);
+  });
+
+  it('should send headers and parameters added by a hook', async () => {
+    transport.on('GET', /getWorkingTimeInfo$/, ok({}));
+
+    api.use({
+      onRequest: ({ request, params }) => {
+        request.headers['X-Trace-Id'] = 'trace-1';
+        if (params) {
+          params.language = 'pl-PL';
+        }
+      }
+    });
+    await api.getWorkingTimeInfo(gpsInfo);
+
+    expect(transport.requests[0]?.headers).toMatchObject({ 'X-Trace-Id': 'trace-1', Authorization: 'Bearer test-token' });
+    expect(transport.requests[0]?.params).toMatchObject({ language: 'pl-PL' });
+  });
+
+  it('should answer requests from a hook without sending them', async () => {
+    api.use({
+      onRequest: (context) => {
+        if (context.endpoint === 'getWorkingTimeInfo') {
+          context.response = { status: 200, headers: {}, data: { code: 0, message: 'OK', data: { mocked: true } } };
+        }
+      }
+    });
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ mocked: true });
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it('should report failures already mapped to SDK errors', async () => {
+    transport.on('GET', /getWorkingTimeInfo$/, { status: 400, data: { message: 'bad' } });
+    const errors: unknown[] = [];
+
+    api.use({ onError: ({ error }) => void errors.push(error) });
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toThrow(ValidationError);
+    expect(errors).toEqual([expect.any(ValidationError)]);
+  });
+
+  it('should let a hook recover from or replace an error', async () => {
+    transport
+      .on('GET', /getWorkingTimeInfo$/, { status: 503, data: {} })
+      .on('GET', /getDriverNavBarBadges$/, { status: 503, data: {} });
+
+    api.use({
+      onError: (context) => {
+        if (context.endpoint === 'getWorkingTimeInfo') {
+          context.response = { status: 200, headers: {}, data: { code: 0, message: 'OK', data: 'fallback' } };
+        } else {
+          context.error = new BoltApiError('Service unavailable, try later', 503);
+        }
+      }
+    });
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toBe('fallback');
+    await expect(api.getDriverNavBarBadges(gpsInfo)).rejects.toThrow('Service unavailable, try later');
+  });
+
+  it('should run hooks in registration order and share state within a request', async () => {
+    transport.on('GET', /getWorkingTimeInfo$/, ok({}));
+    const order: string[] = [];
+
+    api
+      .use({
+        onRequest: ({ state }) => {
+          state['startedAt'] = 1;
+          order.push('first:request');
+        },
+        onResponse: () => void order.push('first:response')
+      })
+      .use({
+        onRequest: () => void order.push('second:request'),
+        onResponse: ({ state }) => void order.push(`second:response:${state['startedAt']}`)
+      });
+    await api.getWorkingTimeInfo(gpsInfo);
+
+    expect(order).toEqual(['first:request', 'second:request', 'first:response', 'second:response:1']);
+  });
+});
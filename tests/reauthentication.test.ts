@@ -0,0 +1,175 @@
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { MagicLinkReauthProvider, OtpReauthProvider, ReauthProvider } from '../src/Reauthentication';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { AuthConfig, AuthenticationError, DeviceInfo, GpsInfo, SessionInfo } from '../src/types';
+
+function createJwt(expiresInSeconds: number): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = {
+    data: { driver_id: 123, partner_id: 456, company_id: 789, company_city_id: 101 },
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+  };
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('Re-authentication providers', () => {
+  let transport: MemoryTransport;
+  let storage: MemoryTokenStorage;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const ok = (data?: unknown) => ({ data: { code: 0, message: 'OK', ...(data !== undefined && { data }) } });
+
+  const storeSession = async (accessToken: string, expiresAt: number) => {
+    const sessionInfo: SessionInfo = {
+      sessionId: 'session-123',
+      driverId: 123,
+      partnerId: 456,
+      companyId: 789,
+      companyCityId: 101,
+      accessToken,
+      refreshToken: 'dead-refresh-token',
+      expiresAt
+    };
+    await storage.saveToken(accessToken, sessionInfo);
+  };
+
+  const routeOtpLogin = () => {
+    transport
+      .on('POST', /startAuthentication$/, ok({
+        verification_token: 'verification-1',
+        verification_code_channel: 'sms',
+        verification_code_target: '+485*****56',
+        verification_code_length: 6,
+        resend_wait_time_seconds: 30,
+        available_verification_code_channels: ['sms']
+      }))
+      .on('POST', /confirmAuthentication$/, request =>
+        (request.data as { verification_code: string }).verification_code === '111111'
+          ? ok({ type: 'driver', token: { refresh_token: createJwt(3600), token_type: 'driver' } })
+          : { data: { code: 293, message: 'SMS_CODE_NOT_FOUND' } }
+      );
+  };
+
+  const endpoints = () => transport.requests.map(request => request.endpoint);
+
+  const createApi = () =>
+    new BoltDriverAPI(deviceInfo, authConfig, { transport, retries: 0 }, storage, { enabled: false });
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    storage = new MemoryTokenStorage();
+  });
+
+  it('should log in again with an OTP provider when the refresh token is dead', async () => {
+    await storeSession(createJwt(-60), Date.now() - 1000);
+    transport
+      .on('POST', /driver\/getAccessToken$/, { status: 401, data: { code: 503, message: 'NOT_AUTHORIZED' } })
+      .on('GET', /getWorkingTimeInfo$/, ok({ daily_online_duration_seconds: 60 }));
+    routeOtpLogin();
+    const getCode = jest.fn().mockResolvedValueOnce('000000').mockResolvedValueOnce('111111');
+    const api = createApi().addReauthProvider(new OtpReauthProvider({ phone: '+48500123456', getCode }));
+    const authLost = jest.fn();
+    const reauthenticated = jest.fn();
+    api.on('authLost', authLost).on('reauthenticated', reauthenticated);
+
+    const results = await Promise.all([api.getWorkingTimeInfo(gpsInfo), api.getWorkingTimeInfo(gpsInfo)]);
+
+    expect(results).toEqual([{ daily_online_duration_seconds: 60 }, { daily_online_duration_seconds: 60 }]);
+    expect(getCode).toHaveBeenCalledTimes(2);
+    expect(getCode.mock.calls[0][0]).toMatchObject({ status: 'code_sent', codeTarget: '+485*****56' });
+    expect(endpoints().filter(endpoint => endpoint === 'startAuthentication')).toHaveLength(1);
+    expect(authLost).toHaveBeenCalledWith(expect.objectContaining({ reason: 'Refresh token was rejected' }));
+    expect(reauthenticated).toHaveBeenCalledTimes(1);
+    expect(reauthenticated).toHaveBeenCalledWith({ method: 'otp', reason: 'Refresh token was rejected' });
+    expect(api.isAuthenticated()).toBe(true);
+  });
+
+  it('should replay a rejected request after falling back to the next provider', async () => {
+    await storeSession(createJwt(3600), Date.now() + 3600000);
+    let exchanges = 0;
+    let polls = 0;
+    transport
+      .on('POST', /driver\/getAccessToken$/, () =>
+        ++exchanges === 1
+          ? { status: 401, data: { code: 503, message: 'NOT_AUTHORIZED' } }
+          : ok({ access_token: createJwt(3600), expires_in_seconds: 3600 })
+      )
+      .on('GET', /getWorkingTimeInfo$/, () =>
+        ++polls === 1 ? { status: 401, data: { code: 503, message: 'NOT_AUTHORIZED' } } : ok({ daily_online_duration_seconds: 60 })
+      )
+      .on('POST', /sendMagicLink$/, ok())
+      .on('POST', /authenticateWithMagicLink$/, ok({ refresh_token: createJwt(86400) }));
+    const failing: ReauthProvider = { method: 'custom', authenticate: jest.fn().mockRejectedValue(new Error('pager offline')) };
+    const getMagicLink = jest.fn().mockResolvedValue('https://partners.bolt.eu/driverapp/magic-login?token=magic-token');
+    const api = createApi()
+      .addReauthProvider(failing)
+      .addReauthProvider(new MagicLinkReauthProvider({ email: 'driver@example.com', gpsInfo, getMagicLink }));
+    const reauthenticated = jest.fn();
+    api.on('reauthenticated', reauthenticated);
+    await api.ready();
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ daily_online_duration_seconds: 60 });
+
+    expect(failing.authenticate).toHaveBeenCalledWith(expect.objectContaining({ api, reason: 'Refresh token was rejected' }));
+    expect(getMagicLink).toHaveBeenCalledWith('driver@example.com', expect.any(AbortSignal));
+    expect(transport.requests.find(request => request.endpoint === 'authenticateWithMagicLink')?.data).toMatchObject({ token: 'magic-token' });
+    expect(endpoints().slice(-1)).toEqual(['getWorkingTimeInfo']);
+    expect(reauthenticated).toHaveBeenCalledWith({ method: 'magic-link', reason: 'Refresh token was rejected' });
+  });
+
+  it('should fail queued requests when every provider fails', async () => {
+    await storeSession(createJwt(-60), Date.now() - 1000);
+    transport.on('POST', /driver\/getAccessToken$/, { status: 401, data: { code: 503, message: 'NOT_AUTHORIZED' } });
+    const api = createApi().addReauthProvider({ method: 'custom', authenticate: async () => undefined });
+
+    const error = await api.getWorkingTimeInfo(gpsInfo).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toMatchObject({ message: 'Re-authentication failed: Refresh token was rejected' });
+    expect((error as AuthenticationError).response).toEqual(new AuthenticationError('The custom provider did not log in', 401));
+    expect(endpoints()).not.toContain('getWorkingTimeInfo');
+  });
+
+  it('should log in through a matching provider from handleTokenFailure', async () => {
+    routeOtpLogin();
+    const api = createApi();
+
+    await expect(api.handleTokenFailure('otp')).resolves.toBe(false);
+
+    api.addReauthProvider(new OtpReauthProvider({ phone: '+48500123456', getCode: async () => '111111' }));
+    await expect(api.handleTokenFailure('magic-link')).resolves.toBe(false);
+    await expect(api.handleTokenFailure('otp')).resolves.toBe(true);
+    expect(api.isAuthenticated()).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  put: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+describe('Request Fingerprint', () => {
+  let api: BoltDriverAPI;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'android-device-id',
+    deviceType: 'android',
+    deviceName: 'Pixel 8',
+    deviceOsVersion: 'Android14',
+    appVersion: 'DA.120.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'hopp',
+    country: 'ee',
+    language: 'et-EE',
+    theme: 'light'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 59.436962,
+    longitude: 24.753574,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const expected: Record<string, string> = {
+    brand: authConfig.brand,
+    country: authConfig.country,
+    language: authConfig.language,
+    theme: authConfig.theme,
+    deviceId: deviceInfo.deviceId,
+    deviceType: deviceInfo.deviceType,
+    device_name: deviceInfo.deviceName,
+    device_os_version: deviceInfo.deviceOsVersion,
+    version: deviceInfo.appVersion
+  };
+
+  const credentials = { driver_id: 'driver-1', session_id: 'session-1', phone: '+3725000000' };
+
+  const foreignConstants = ['iphone', 'iPhone17,3', 'iOS18.6', 'en-GB', 'DI.116.0', 'dark'];
+
+  /** Collect the query parameters of every request sent so far */
+  const sentParams = (): Array<{ url: string; params: Record<string, unknown> }> => {
+    const requests = [
+      ...mockClient.get.mock.calls.map(([url, config]: any[]) => ({ url, config })),
+      ...mockClient.post.mock.calls.map(([url, , config]: any[]) => ({ url, config })),
+      ...mockClient.put.mock.calls.map(([url, , config]: any[]) => ({ url, config }))
+    ];
+
+    return requests.map(({ url, config }) => ({
+      url,
+      params: {
+        ...Object.fromEntries(new URL(url).searchParams),
+        ...config?.params
+      }
+    }));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockClient as any);
+
+    const ok = { status: 200, data: { code: 0, message: 'OK', data: { access_token: 'jwt-token' } } };
+    mockClient.get.mockResolvedValue(ok);
+    mockClient.post.mockResolvedValue(ok);
+    mockClient.put.mockResolvedValue(ok);
+
+    api = new BoltDriverAPI(deviceInfo, authConfig, { retries: 0 }, new MemoryTokenStorage());
+    seedSession();
+  });
+
+  /** Put the client into a logged-in state with a valid token */
+  const seedSession = () => {
+    (api as any).accessToken = 'test-token';
+    (api as any).refreshToken = 'refresh-token';
+    (api as any).driverInfo = { driverId: 123, partnerId: 456, companyId: 789, companyCityId: 1 };
+    (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+  };
+
+  it('should derive the fingerprint of every endpoint from the configured device and locale', async () => {
+    const calls: Array<[string, () => Promise<unknown>]> = [
+      ['startAuthentication', () => api.startAuthentication(authConfig, deviceInfo, credentials)],
+      ['sendMagicLink', () => api.sendMagicLink('driver@example.com')],
+      ['authenticateWithMagicLink', () => api.authenticateWithMagicLink('magic-token', deviceInfo, gpsInfo)],
+      ['exchangeRefreshTokenForJWT', () => api.exchangeRefreshTokenForJWT(gpsInfo)],
+      ['getAccessToken', () => api.getAccessToken()],
+      ['getLoggedInDriverConfiguration', () => api.getLoggedInDriverConfiguration()],
+      ['getDriverState', () => api.getDriverState(gpsInfo)],
+      ['getDriverHomeScreen', () => api.getDriverHomeScreen(gpsInfo)],
+      ['getWorkingTimeInfo', () => api.getWorkingTimeInfo(gpsInfo)],
+      ['getDispatchPreferences', () => api.getDispatchPreferences(gpsInfo)],
+      ['getMapsConfigs', () => api.getMapsConfigs(gpsInfo)],
+      ['getDriverNavBarBadges', () => api.getDriverNavBarBadges(gpsInfo)],
+      ['getEmergencyAssistProvider', () => api.getEmergencyAssistProvider(gpsInfo)],
+      ['getMapTile', () => api.getMapTile(gpsInfo, 'collection', 1, 2, 3)],
+      ['setDeviceToken', () => api.setDeviceToken('device-token-123')],
+      ['storeDriverInfo', () => api.storeDriverInfo({ key: 'value' })],
+      ['getDriverPhoneDetails', () => api.getDriverPhoneDetails(gpsInfo)],
+      ['getOtherActiveDrivers', () => api.getOtherActiveDrivers(gpsInfo)],
+      ['getModal', () => api.getModal(gpsInfo)],
+      ['getRideDetails', () => api.getRideDetails(gpsInfo, { orderId: 'order-1', cityId: 1, orderSystem: 'default' })],
+      ['getOrderHistoryPaginated', () => api.getOrderHistoryPaginated(gpsInfo)],
+      ['getScheduledRideRequests', () => api.getScheduledRideRequests(gpsInfo)],
+      ['getEarningLandingScreen', () => api.getEarningLandingScreen(gpsInfo)],
+      ['getActivityRides', () => api.getActivityRides(gpsInfo)],
+      ['getHelpDetails', () => api.getHelpDetails(gpsInfo)],
+      ['getEarnMoreDetails', () => api.getEarnMoreDetails(gpsInfo)],
+      ['getScoreOverview', () => api.getScoreOverview(gpsInfo)],
+      ['getDriverSidebar', () => api.getDriverSidebar(gpsInfo)]
+    ];
+
+    for (const [name, call] of calls) {
+      [mockClient.get, mockClient.post, mockClient.put].forEach(mock => mock.mockClear());
+      seedSession();
+      await call();
+      const sent = sentParams();
+
+      expect({ name, requests: sent.length }).toEqual({ name, requests: 1 });
+
+      for (const { url, params } of sent) {
+        for (const [key, value] of Object.entries(expected)) {
+          if (key in params) {
+            expect({ url, key, value: String(params[key]) }).toEqual({ url, key, value });
+          }
+        }
+        expect(params).toHaveProperty('deviceType', deviceInfo.deviceType);
+        expect(params).toHaveProperty('version', deviceInfo.appVersion);
+      }
+    }
+  });
+
+  it('should not leak constants that contradict the configuration', async () => {
+    await api.startAuthentication(authConfig, deviceInfo, credentials);
+    await api.authenticateWithMagicLink('magic-token', deviceInfo, gpsInfo);
+    await api.exchangeRefreshTokenForJWT(gpsInfo);
+    await api.getLoggedInDriverConfiguration();
+    await api.getDriverState(gpsInfo);
+    await api.getOtherActiveDrivers(gpsInfo);
+
+    const serialized = JSON.stringify(sentParams());
+    for (const constant of foreignConstants) {
+      expect(serialized).not.toContain(`"${constant}"`);
+    }
+  });
+
+  it('should send the language and theme of the configuration', async () => {
+    await api.exchangeRefreshTokenForJWT(gpsInfo);
+    await api.getLoggedInDriverConfiguration();
+
+    for (const { params } of sentParams()) {
+      expect(params).toMatchObject({ brand: 'hopp', language: 'et-EE', theme: 'light' });
+    }
+  });
+});
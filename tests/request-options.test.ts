@@ -0,0 +1,214 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { RetryPolicy, abortable } from '../src/RetryPolicy';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, BoltApiError, NotAuthorizedError, RequestAbortedError } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  put: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+describe('Request Options', () => {
+  let api: BoltDriverAPI;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const okResponse = (data: unknown) => ({ status: 200, data: { code: 0, message: 'OK', data } });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockClient as any);
+
+    api = new BoltDriverAPI(deviceInfo, authConfig, { retries: 3, retryBaseDelayMs: 1000 }, new MemoryTokenStorage());
+    (api as any).accessToken = 'test-token';
+    (api as any).refreshToken = 'refresh-token';
+    (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+  });
+
+  describe('Transport Settings', () => {
+    it('should pass the signal, timeout and headers to the request', async () => {
+      const controller = new AbortController();
+      mockClient.get.mockResolvedValueOnce({ status: 200, data: new ArrayBuffer(4) });
+
+      await api.getMapTile(gpsInfo, 'collection', 1, 2, 3, {
+        signal: controller.signal,
+        timeout: 2000,
+        headers: { 'X-Trace-Id': 'trace-1' }
+      });
+
+      expect(mockClient.get).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+        responseType: 'arraybuffer',
+        signal: controller.signal,
+        timeout: 2000,
+        headers: { 'X-Trace-Id': 'trace-1', Authorization: 'Bearer test-token' }
+      }));
+    });
+
+    it('should only add the client signal without options', async () => {
+      mockClient.get.mockResolvedValueOnce(okResponse({}));
+
+      await api.getWorkingTimeInfo(gpsInfo);
+
+      expect(mockClient.get.mock.calls[0]?.[1]).toEqual({
+        params: expect.any(Object),
+        headers: { Authorization: 'Bearer test-token' },
+        signal: expect.any(AbortSignal)
+      });
+    });
+
+    it('should apply the options to the push profile client', async () => {
+      const controller = new AbortController();
+      mockClient.put.mockResolvedValueOnce({ data: {} });
+
+      await api.updatePushProfile('user-1', 'instance-1', 'device-token-123', { signal: controller.signal, timeout: 1500 });
+
+      expect(mockClient.put).toHaveBeenCalledWith(
+        expect.stringContaining('/pushProfile'),
+        expect.any(Object),
+        { signal: controller.signal, timeout: 1500 }
+      );
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should not send a request when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(api.getOrderHistoryPaginated(gpsInfo, 10, 0, { signal: controller.signal }))
+        .rejects.toThrow(RequestAbortedError);
+      expect(mockClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should stop retrying when aborted during the backoff delay', async () => {
+      const controller = new AbortController();
+      mockClient.get.mockRejectedValue(new BoltApiError('Network error: ECONNRESET', 0));
+
+      const call = api.getWorkingTimeInfo(gpsInfo, { signal: controller.signal });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      controller.abort();
+
+      await expect(call).rejects.toThrow(RequestAbortedError);
+      expect(mockClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should surface an aborted login as RequestAbortedError', async () => {
+      const controller = new AbortController();
+      mockClient.post.mockReturnValue(new Promise(() => undefined));
+
+      const call = api.startAuthentication(authConfig, deviceInfo, {
+        driver_id: 'driver-1',
+        session_id: 'session-1',
+        phone: '+48123456789'
+      }, { signal: controller.signal });
+      controller.abort();
+
+      await expect(call).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it.each([
+      ['sendMagicLink', (signal: AbortSignal) => api.sendMagicLink('driver@example.com', { signal })],
+      ['authenticateWithMagicLink', (signal: AbortSignal) => api.authenticateWithMagicLink('magic-token', deviceInfo, gpsInfo, { signal })],
+      ['updatePushProfile', (signal: AbortSignal) => api.updatePushProfile('user-1', 'instance-1', 'device-token-123', { signal })]
+    ])('should surface an aborted %s as RequestAbortedError', async (_name, call) => {
+      const controller = new AbortController();
+      mockClient.post.mockReturnValue(new Promise(() => undefined));
+      mockClient.put.mockReturnValue(new Promise(() => undefined));
+
+      const pending = call(controller.signal);
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it('should not leave rejections unhandled when the signal is already aborted', async () => {
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      try {
+        const controller = new AbortController();
+        controller.abort();
+        const loggedOut = new BoltDriverAPI(deviceInfo, authConfig, { retries: 0 }, new MemoryTokenStorage());
+
+        await expect(loggedOut.getDriverState(gpsInfo, 'background', { signal: controller.signal }))
+          .rejects.toBeInstanceOf(RequestAbortedError);
+        await expect(abortable(Promise.reject(new Error('abandoned')), controller.signal))
+          .rejects.toBeInstanceOf(RequestAbortedError);
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(unhandled).not.toHaveBeenCalled();
+      } finally {
+        process.off('unhandledRejection', unhandled);
+      }
+    });
+
+    it('should never retry aborted requests', () => {
+      expect(new RetryPolicy().isRetryableError(new RequestAbortedError())).toBe(false);
+    });
+  });
+
+  describe('skipAuth', () => {
+    it('should not validate or refresh the token', async () => {
+      (api as any).accessToken = undefined;
+      const ensureValidToken = jest.spyOn(api as any, 'ensureValidToken');
+      mockClient.get.mockRejectedValueOnce(new NotAuthorizedError('NOT_AUTHORIZED', 503));
+
+      await expect(api.getHelpDetails(gpsInfo, { skipAuth: true })).rejects.toThrow(NotAuthorizedError);
+
+      expect(ensureValidToken).not.toHaveBeenCalled();
+      expect(mockClient.post).not.toHaveBeenCalled();
+      expect(mockClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not attach the Authorization header', async () => {
+      mockClient.get.mockResolvedValue(okResponse({}));
+
+      await api.getHelpDetails(gpsInfo, { skipAuth: true });
+      await api.getHelpDetails(gpsInfo);
+
+      expect(mockClient.get.mock.calls[0]?.[1]?.headers).toBeUndefined();
+      expect(mockClient.get.mock.calls[1]?.[1]?.headers).toEqual({ Authorization: 'Bearer test-token' });
+    });
+  });
+});
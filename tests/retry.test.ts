@@ -0,0 +1,219 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { RetryPolicy, parseRetryAfter } from '../src/RetryPolicy';
+import {
+  DeviceInfo,
+  AuthConfig,
+  GpsInfo,
+  BoltApiError,
+  AuthenticationError,
+  NotAuthorizedError,
+  DatabaseError
+} from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+describe('Retry Policy', () => {
+  describe('Error Classification', () => {
+    const policy = new RetryPolicy();
+
+    it('should retry network errors, 5xx, 429 and DATABASE_ERROR', () => {
+      expect(policy.isRetryableError(new BoltApiError('Network error: socket hang up', 0))).toBe(true);
+      expect(policy.isRetryableError(new BoltApiError('API request failed', 502))).toBe(true);
+      expect(policy.isRetryableError(new BoltApiError('API request failed', 429))).toBe(true);
+      expect(policy.isRetryableError(new BoltApiError('API returned error code 1000', 1000))).toBe(true);
+      expect(policy.isRetryableError(new DatabaseError('DATABASE_ERROR'))).toBe(true);
+    });
+
+    it('should never retry authentication errors', () => {
+      expect(policy.isRetryableError(new AuthenticationError('Authentication failed', 401))).toBe(false);
+      expect(policy.isRetryableError(new NotAuthorizedError('NOT_AUTHORIZED'))).toBe(false);
+    });
+
+    it('should not retry client errors or unknown errors', () => {
+      expect(policy.isRetryableError(new BoltApiError('API request failed', 404))).toBe(false);
+      expect(policy.isRetryableError(new BoltApiError('API returned error code 293', 293))).toBe(false);
+      expect(policy.isRetryableError(new Error('boom'))).toBe(false);
+    });
+  });
+
+  describe('Backoff', () => {
+    it('should grow exponentially and respect the maximum delay', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: false });
+
+      expect(policy.getBackoffDelay(1)).toBe(100);
+      expect(policy.getBackoffDelay(2)).toBe(200);
+      expect(policy.getBackoffDelay(3)).toBe(400);
+      expect(policy.getBackoffDelay(10)).toBe(1000);
+    });
+
+    it('should keep jittered delays within the backoff window', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: true });
+
+      for (let i = 0; i < 20; i++) {
+        const delay = policy.getBackoffDelay(3);
+        expect(delay).toBeGreaterThanOrEqual(200);
+        expect(delay).toBeLessThanOrEqual(400);
+      }
+    });
+
+    it('should parse Retry-After seconds and HTTP dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('not a date')).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('Execution', () => {
+    const policy = new RetryPolicy({ retries: 2, baseDelayMs: 1, maxDelayMs: 5, jitter: false });
+
+    it('should retry idempotent operations until they succeed', async () => {
+      const operation = jest.fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new BoltApiError('Network error', 0))
+        .mockResolvedValueOnce('ok');
+
+      await expect(policy.execute({ operation: 'test', method: 'GET' }, operation)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const operation = jest.fn<() => Promise<string>>()
+        .mockRejectedValue(new BoltApiError('API request failed', 500));
+
+      await expect(policy.execute({ operation: 'test', method: 'GET' }, operation)).rejects.toThrow('API request failed');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry POST requests unless marked safe', async () => {
+      const operation = jest.fn<() => Promise<string>>()
+        .mockRejectedValue(new BoltApiError('Network error', 0));
+
+      await expect(policy.execute({ operation: 'test', method: 'POST' }, operation)).rejects.toThrow();
+      expect(operation).toHaveBeenCalledTimes(1);
+
+      operation.mockClear();
+      await expect(policy.execute({ operation: 'test', method: 'POST' }, operation, { idempotent: true })).rejects.toThrow();
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should honor per-call retry overrides', async () => {
+      const operation = jest.fn<() => Promise<string>>()
+        .mockRejectedValue(new BoltApiError('API request failed', 503));
+
+      await expect(policy.execute({ operation: 'test', method: 'GET' }, operation, { retries: 0 })).rejects.toThrow();
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should surface the error when Retry-After exceeds the maximum delay', async () => {
+      const error = new BoltApiError('API request failed', 429);
+      error.retryAfterMs = 60000;
+      const operation = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+
+      await expect(policy.execute({ operation: 'test', method: 'GET' }, operation)).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('BoltDriverAPI Integration', () => {
+    let api: BoltDriverAPI;
+
+    const deviceInfo: DeviceInfo = {
+      deviceId: 'test-device-id',
+      deviceType: 'iphone',
+      deviceName: 'iPhone17,3',
+      deviceOsVersion: 'iOS18.6',
+      appVersion: 'DI.116.0'
+    };
+
+    const authConfig: AuthConfig = {
+      authMethod: 'phone',
+      brand: 'bolt',
+      country: 'pl',
+      language: 'en-GB',
+      theme: 'dark'
+    };
+
+    const gpsInfo: GpsInfo = {
+      latitude: 52.237049,
+      longitude: 21.017532,
+      accuracy: 10,
+      speed: 0,
+      bearing: 0,
+      timestamp: Math.floor(Date.now() / 1000),
+      age: 0,
+      accuracyMeters: 10,
+      adjustedBearing: 0,
+      bearingAccuracyDeg: 0,
+      speedAccuracyMps: 0,
+      gps_speed_accuracy: 1
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockedAxios.create.mockReturnValue(mockClient as any);
+
+      api = new BoltDriverAPI(deviceInfo, authConfig, { retries: 2, retryBaseDelayMs: 1, retryMaxDelayMs: 5 });
+      (api as any).accessToken = 'test-token';
+      (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+    });
+
+    it('should retry DATABASE_ERROR responses and log the attempts', async () => {
+      const warnSpy = jest.spyOn(api.getLogger(), 'warn');
+      mockClient.get
+        .mockResolvedValueOnce({ status: 200, data: { code: 1000, message: 'DATABASE_ERROR', data: null } })
+        .mockResolvedValueOnce({ status: 200, data: { code: 0, message: 'OK', data: { orders: [] } } });
+
+      const result = await api.getOrderHistoryPaginated(gpsInfo);
+
+      expect(result).toEqual({ orders: [] });
+      expect(mockClient.get).toHaveBeenCalledTimes(2);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Retrying getOrderHistoryPaginated'), expect.anything());
+    });
+
+    it('should retry read-only POST endpoints such as getDriverState', async () => {
+      mockClient.post
+        .mockRejectedValueOnce(new BoltApiError('Network error: ECONNRESET', 0))
+        .mockResolvedValueOnce({ status: 200, data: { code: 0, message: 'OK', data: { driver_status: 'online' } } });
+
+      const state = await api.getDriverState(gpsInfo);
+
+      expect(state.driver_status).toBe('online');
+      expect(mockClient.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry startAuthentication', async () => {
+      mockClient.post.mockRejectedValue(new BoltApiError('Network error: ECONNRESET', 0));
+
+      await expect(api.startAuthentication(authConfig, deviceInfo, {
+        driver_id: 'test_driver_id',
+        session_id: 'test_session_id',
+        phone: '+48123456789'
+      })).rejects.toThrow();
+      expect(mockClient.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry authentication failures', async () => {
+      mockClient.get.mockRejectedValue(new AuthenticationError('Authentication failed', 401));
+
+      await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toThrow(AuthenticationError);
+      expect(mockClient.get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
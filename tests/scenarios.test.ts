@@ -0,0 +1,201 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { FakeBoltServer } from '../src/testing/FakeBoltServer';
+import { loadScenario, parseScenario, ScenarioRunner } from '../src/testing/Scenario';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, FaultScenario, ValidationError } from '../src/types';
+
+describe('Fault scenarios', () => {
+  let server: FakeBoltServer;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const loggedInApi = async (config: { retries?: number; timeout?: number } = {}) => {
+    const api = new BoltDriverAPI(
+      deviceInfo,
+      authConfig,
+      { hosts: server.hosts, retries: 0, retryBaseDelayMs: 1, ...config },
+      new MemoryTokenStorage(),
+      { enabled: false }
+    );
+    await api.sendMagicLink('driver@example.com');
+    await api.authenticateWithMagicLink(
+      BoltDriverAPI.extractTokenFromMagicLink(server.magicLinks.get('driver@example.com')!),
+      deviceInfo,
+      gpsInfo
+    );
+    return api;
+  };
+
+  const endpoints = () => server.requests.map(request => request.endpoint);
+
+  beforeEach(async () => {
+    server = new FakeBoltServer();
+    await server.start();
+    server.addDriver({ phone: '+48123456789', email: 'driver@example.com', status: 'waiting_orders' });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should retry rate-limited and reset requests', async () => {
+    const api = await loggedInApi({ retries: 2 });
+    server.useScenario({
+      rules: [
+        { endpoint: 'getWorkingTimeInfo', calls: [1, 1], fault: { type: 'status', status: 429, retryAfter: 0 } },
+        { endpoint: 'getDriverNavBarBadges', calls: [1, 1], fault: { type: 'reset' } }
+      ]
+    });
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toMatchObject({ daily_online_duration_seconds: 0 });
+    await expect(api.getDriverNavBarBadges(gpsInfo)).resolves.toEqual({ is_help_badge_present: false });
+    expect(endpoints().slice(-4)).toEqual([
+      'getWorkingTimeInfo',
+      'getWorkingTimeInfo',
+      'getDriverNavBarBadges',
+      'getDriverNavBarBadges'
+    ]);
+  });
+
+  it('should recover from intermittent NOT_AUTHORIZED and tokens expiring mid-session', async () => {
+    const api = await loggedInApi();
+    server.useScenario({
+      rules: [
+        { endpoint: 'getDriverState', calls: [2, 2], fault: { type: 'error', code: 503 } },
+        { endpoint: 'getDriverState', calls: [4, 4], fault: { type: 'expireToken' } }
+      ]
+    });
+
+    const requestCount = server.requests.length;
+
+    // The third request is the replay of the second one, after the token refresh
+    for (let i = 0; i < 3; i++) {
+      await expect(api.getDriverState(gpsInfo)).resolves.toMatchObject({ driver_status: 'waiting_orders' });
+    }
+    expect(endpoints().slice(requestCount)).toEqual([
+      'getDriverState',
+      'getDriverState',
+      'exchangeRefreshTokenForJWT',
+      'getDriverState',
+      'getDriverState',
+      'exchangeRefreshTokenForJWT',
+      'getDriverState'
+    ]);
+  });
+
+  it('should patch fields of the response', async () => {
+    const api = await loggedInApi();
+    server.useScenario({
+      rules: [{ endpoint: 'getDriverHomeScreen', fault: { type: 'patch', set: { 'data.items': 'not-a-list', 'data.pollIntervalSec': null } } }]
+    });
+
+    const homeScreen = await api.getDriverHomeScreen(gpsInfo);
+
+    expect(homeScreen.items).toEqual([]);
+    expect(homeScreen.layout).toEqual({ maxRow: 2, maxColumn: 2 });
+  });
+
+  it('should truncate the response body', async () => {
+    server.useScenario({ rules: [{ times: 1, fault: { type: 'truncate', bytes: 20 } }] });
+
+    const truncated = await fetch(`${server.url}/unknown`);
+    const complete = await fetch(`${server.url}/unknown`);
+
+    expect(await truncated.text()).toBe('{"code":404,"message');
+    await expect(complete.json()).resolves.toMatchObject({ code: 404, message: 'NOT_FOUND' });
+  });
+
+  it('should delay responses past the client timeout', async () => {
+    const api = await loggedInApi({ timeout: 50 });
+    server.useScenario({ rules: [{ endpoint: 'getWorkingTimeInfo', times: 1, fault: { type: 'latency', ms: 200 } }] });
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toThrow();
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toMatchObject({ weekly_online_duration_seconds: 0 });
+  });
+
+  it('should fire rules by call range, time window, count and seeded probability', () => {
+    let now = 0;
+    const scenario: FaultScenario = {
+      seed: 42,
+      rules: [
+        { endpoint: 'getDriverState', calls: [2, 3], fault: { type: 'reset' } },
+        { windowMs: [1000, 2000], fault: { type: 'latency', ms: 10 } },
+        { endpoint: ['getWorkingTimeInfo'], times: 1, fault: { type: 'error', code: 1000 } },
+        { endpoint: 'getDriverNavBarBadges', probability: 0.5, fault: { type: 'status', status: 500 } }
+      ]
+    };
+    const runner = new ScenarioRunner(scenario, () => now);
+    const fired = (endpoint: string) => runner.next(endpoint).map(fault => fault.type);
+
+    expect([1, 2, 3, 4].map(() => fired('getDriverState'))).toEqual([[], ['reset'], ['reset'], []]);
+    now = 1500;
+    expect(fired('getWorkingTimeInfo')).toEqual(['latency', 'error']);
+    now = 2500;
+    expect(fired('getWorkingTimeInfo')).toEqual([]);
+
+    const draws = (run: ScenarioRunner) => Array.from({ length: 20 }, () => run.next('getDriverNavBarBadges').length);
+    const first = draws(new ScenarioRunner(scenario));
+    expect(draws(new ScenarioRunner(scenario))).toEqual(first);
+    expect(first).toContain(0);
+    expect(first).toContain(1);
+  });
+
+  it('should load YAML and JSON scenarios and report invalid rules', async () => {
+    const yaml = [
+      'name: flaky badges',
+      'rules:',
+      '  - endpoint: getDriverNavBarBadges',
+      '    calls: [1, 2]',
+      '    fault: { type: status, status: 429, retryAfter: 1 }'
+    ].join('\n');
+    const path = join(tmpdir(), `bolt-scenario-${process.pid}.yaml`);
+    try {
+      await fs.writeFile(path, yaml);
+      expect(loadScenario(path)).toEqual({
+        name: 'flaky badges',
+        rules: [{ endpoint: 'getDriverNavBarBadges', calls: [1, 2], fault: { type: 'status', status: 429, retryAfter: 1 } }]
+      });
+    } finally {
+      await fs.rm(path, { force: true });
+    }
+
+    expect(parseScenario('{"rules": [{"fault": {"type": "reset"}}]}')).toEqual({ rules: [{ fault: { type: 'reset' } }] });
+
+    const invalid = () =>
+      parseScenario(JSON.stringify({ rules: [{ endpoint: 'getNothing', calls: [3, 1], fault: { type: 'latency' } }] }));
+    expect(invalid).toThrow(ValidationError);
+    expect(invalid).toThrow(/unknown endpoint getNothing.*calls must be.*latency requires ms/);
+  });
+});
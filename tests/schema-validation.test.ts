@@ -0,0 +1,186 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { SCHEMAS } from '../src/ResponseSchemas';
+import { validateSchema } from '../src/SchemaValidator';
+import { FakeBoltServer } from '../src/testing/FakeBoltServer';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, SchemaMismatchError, SchemaValidationMode } from '../src/types';
+
+describe('Response schema validation', () => {
+  let transport: MemoryTransport;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const workingTime = {
+    daily_online_duration_seconds: 60,
+    daily_driving_duration_seconds: 30,
+    weekly_online_duration_seconds: 600,
+    weekly_driving_duration_seconds: 300
+  };
+
+  const ok = (data: unknown) => ({ data: { code: 0, message: 'OK', data } });
+
+  const createApi = (schemaValidation?: SchemaValidationMode) => {
+    const config = schemaValidation ? { transport, retries: 0, schemaValidation } : { transport, retries: 0 };
+    const api = new BoltDriverAPI(deviceInfo, authConfig, config, new MemoryTokenStorage(), { enabled: false });
+    (api as any).accessToken = 'test-token';
+    (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+    return api;
+  };
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+  });
+
+  it('should report missing, unknown and mistyped fields once per path', () => {
+    const issues = validateSchema(SCHEMAS.OrderHistoryData, {
+      orders: [
+        { address: 'A', state: 'finished', created: 'now', payment_type: 'cash', order_handle: { orderId: '1', cityId: '1', orderSystem: 'taxify' } },
+        { address: 'B', state: 'finished', created: 'now', payment_type: 'card', order_handle: { orderId: '2', cityId: '1', orderSystem: 'taxify' }, tip: 2 }
+      ],
+      limit: 10,
+      offset: 0
+    });
+
+    expect(issues).toEqual([
+      { path: 'orders[].order_handle.cityId', problem: 'type', expected: 'number', received: 'string' },
+      { path: 'orders[].tip', problem: 'unknown', received: 'number' },
+      { path: 'total', problem: 'missing', expected: 'number' }
+    ]);
+  });
+
+  it('should not check responses by default', async () => {
+    transport.on('GET', /getWorkingTimeInfo$/, ok({ minutes: 42 }));
+    const api = createApi();
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ minutes: 42 });
+    expect(api.getSchemaDriftReport()).toEqual({});
+  });
+
+  it('should log new drift once and accumulate it per endpoint in report mode', async () => {
+    transport
+      .on('GET', /getWorkingTimeInfo$/, ok({ ...workingTime, monthly_online_duration_seconds: 6000 }))
+      .on('POST', /polling\/driver$/, ok({ driver_status: 'inactive' }));
+    const api = createApi('report');
+    const warn = jest.spyOn((api as any).logger, 'warn');
+
+    await api.getWorkingTimeInfo(gpsInfo);
+    await api.getWorkingTimeInfo(gpsInfo);
+    await api.getDriverState(gpsInfo);
+
+    expect(api.getSchemaDriftReport()).toEqual({
+      getWorkingTimeInfo: {
+        checked: 2,
+        mismatched: 2,
+        missing: [],
+        unknown: ['monthly_online_duration_seconds'],
+        invalid: [],
+        lastMismatchAt: expect.any(String)
+      },
+      getDriverState: { checked: 1, mismatched: 0, missing: [], unknown: [], invalid: [] }
+    });
+    expect(warn.mock.calls.filter(([message]) => String(message).startsWith('Schema drift'))).toEqual([
+      ['Schema drift in getWorkingTimeInfo response: monthly_online_duration_seconds is unknown', expect.any(Object)]
+    ]);
+  });
+
+  it('should throw SchemaMismatchError for missing or mistyped fields in strict mode', async () => {
+    transport
+      .on('GET', /getDriverHomeScreen$/, ok({ layout: { maxRow: 1, maxColumn: '1' }, items: null, pollIntervalSec: 30, driverSidebarHash: 'x' }))
+      .on('GET', /getWorkingTimeInfo$/, ok({ ...workingTime, extra: true }));
+    const api = createApi('strict');
+
+    const error = await api.getDriverHomeScreen(gpsInfo).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect(error).toMatchObject({
+      endpoint: 'getDriverHomeScreen',
+      message: 'Response of getDriverHomeScreen does not match its schema: layout.maxColumn is string, expected number, items is null, expected array',
+      issues: [
+        { path: 'layout.maxColumn', problem: 'type', expected: 'number', received: 'string' },
+        { path: 'items', problem: 'type', expected: 'array', received: 'null' }
+      ]
+    });
+    // Additions do not break the typed result
+    await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toMatchObject({ extra: true });
+  });
+
+  it('should not check error envelopes', async () => {
+    transport.on('GET', /getWorkingTimeInfo$/, { data: { code: 1000, message: 'DATABASE_ERROR', data: null } });
+    const api = createApi('strict');
+
+    await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toThrow('API returned error code 1000: DATABASE_ERROR');
+    expect(api.getSchemaDriftReport()).toEqual({});
+  });
+
+  it('should accept every payload of the local stand-in server', async () => {
+    const server = new FakeBoltServer();
+    await server.start();
+    try {
+      server.addDriver({ phone: '+48123456789', email: 'driver@example.com' });
+      const api = new BoltDriverAPI(
+        deviceInfo,
+        authConfig,
+        { hosts: server.hosts, retries: 0, schemaValidation: 'strict' },
+        new MemoryTokenStorage(),
+        { enabled: false }
+      );
+      const started = await api.startAuthentication(authConfig, deviceInfo, {
+        driver_id: 'driver-1',
+        session_id: 'session-1',
+        phone: '+48123456789'
+      });
+      await api.confirmAuthentication(
+        authConfig,
+        deviceInfo,
+        { driver_id: 'driver-1', session_id: 'session-1', phone: '+48123456789', verification_token: started.data.verification_token },
+        '123456'
+      );
+
+      await api.getDriverState(gpsInfo);
+      await api.getDriverHomeScreen(gpsInfo);
+      await api.getWorkingTimeInfo(gpsInfo);
+      await api.getDispatchPreferences(gpsInfo);
+      await api.getDriverNavBarBadges(gpsInfo);
+      await api.getOtherActiveDrivers(gpsInfo);
+      const history = (await api.getOrderHistoryPaginated(gpsInfo, 1)) as unknown as { orders: { order_handle: any }[] };
+      await api.getRideDetails(gpsInfo, history.orders[0]!.order_handle);
+
+      const report = api.getSchemaDriftReport();
+      expect(Object.keys(report)).toHaveLength(10);
+      expect(Object.values(report).every(entry => entry.mismatched === 0)).toBe(true);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { SCHEMAS } from '../src/ResponseSchemas';
+import { normalizeScreen, normalizeSidebar } from '../src/ScreenBlocks';
+import { validateSchema } from '../src/SchemaValidator';
+import { MemoryTransport } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo, ScreenBlock } from '../src/types';
+
+describe('Server-driven screen models', () => {
+  let transport: MemoryTransport;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const earnings = {
+    title: 'Earnings',
+    blocks: [
+      { type: 'header', title: 'This week' },
+      { type: 'amount', title: 'Net earnings', amount_str: '412.50 zł' },
+      { type: 'chart', bars: [{ label: 'Mon', value: 80.5 }, { label: 'Tue', value: 0 }] },
+      { type: 'goal_progress', title: 'Weekly goal', progress: 0.4 }
+    ]
+  };
+
+  const ok = (data: unknown) => ({ data: { code: 0, message: 'OK', data } });
+
+  const createApi = (schemaValidation?: 'report' | 'strict') => {
+    const config = schemaValidation ? { transport, retries: 0, schemaValidation } : { transport, retries: 0 };
+    const api = new BoltDriverAPI(deviceInfo, authConfig, config, new MemoryTokenStorage(), { enabled: false });
+    (api as any).accessToken = 'test-token';
+    (api as any).sessionInfo = { sessionId: 'session-123', driverId: 123, partnerId: 456, expiresAt: Date.now() + 3600000 };
+    return api;
+  };
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+  });
+
+  it('should return unknown block types as unsupported blocks', async () => {
+    transport.on('GET', /getEarningLandingScreen$/, ok(earnings));
+    const api = createApi();
+
+    const screen = await api.getEarningLandingScreen(gpsInfo);
+
+    expect(screen.blocks.map(block => block.type)).toEqual(['header', 'amount', 'chart', 'unsupported']);
+    expect(screen.blocks[3]).toEqual({
+      type: 'unsupported',
+      originalType: 'goal_progress',
+      raw: { type: 'goal_progress', title: 'Weekly goal', progress: 0.4 }
+    });
+
+    const amounts = screen.blocks.flatMap((block: ScreenBlock) => (block.type === 'amount' ? [block.amount_str] : []));
+    expect(amounts).toEqual(['412.50 zł']);
+  });
+
+  it('should normalize sidebar menu items', async () => {
+    transport.on('GET', /getDriverSidebar$/, ok({
+      profile: { name: 'Jan' },
+      menuItems: [
+        { type: 'url', id: 'help', title: 'Help', url: 'https://bolt.eu/help' },
+        { type: 'separator' },
+        { type: 'referral_card', id: 'invite' }
+      ]
+    }));
+    const api = createApi();
+
+    const sidebar = await api.getDriverSidebar(gpsInfo);
+
+    expect(sidebar.menuItems.map(item => item.type)).toEqual(['url', 'separator', 'unsupported']);
+    expect(sidebar.menuItems[2]).toMatchObject({ originalType: 'referral_card', raw: { id: 'invite' } });
+  });
+
+  it('should leave payloads without a block list unchanged', () => {
+    const legacy = { helpTopics: [] } as any;
+
+    expect(normalizeScreen(legacy)).toBe(legacy);
+    expect(normalizeSidebar(legacy)).toBe(legacy);
+    expect(normalizeScreen({ blocks: [null, 'text'] } as any).blocks).toEqual([
+      { type: 'unsupported', originalType: '', raw: { value: null } },
+      { type: 'unsupported', originalType: '', raw: { value: 'text' } }
+    ]);
+  });
+
+  it('should validate known variants and report new ones as unknown', () => {
+    const issues = validateSchema(SCHEMAS.EarningLandingScreen, {
+      blocks: [...earnings.blocks, { type: 'amount', title: 'Tips' }, { type: 'header', title: 'Today', icon: 'sun' }]
+    });
+
+    expect(issues).toEqual([
+      { path: 'blocks[]<goal_progress>', problem: 'unknown', received: 'object' },
+      { path: 'blocks[]<amount>.amount_str', problem: 'missing', expected: 'string' },
+      { path: 'blocks[]<header>.icon', problem: 'unknown', received: 'string' }
+    ]);
+  });
+
+  it('should not reject new block types in strict mode', async () => {
+    transport
+      .on('GET', /getEarningLandingScreen$/, ok(earnings))
+      .on('POST', /driverPhoneDetails$/, ok({ phone: '+48123456789', is_verified: true }));
+    const api = createApi('strict');
+
+    await expect(api.getEarningLandingScreen(gpsInfo)).resolves.toMatchObject({ title: 'Earnings' });
+    await expect(api.getDriverPhoneDetails(gpsInfo)).resolves.toMatchObject({ data: { phone: '+48123456789' } });
+    expect(api.getSchemaDriftReport()['getEarningLandingScreen']).toMatchObject({
+      mismatched: 1,
+      unknown: ['blocks[]<goal_progress>']
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { SessionManager } from '../src/SessionManager';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  put: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+function createJwt(expiresInSeconds: number): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = {
+    data: { driver_id: 123, partner_id: 456, company_id: 789, company_city_id: 101 },
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+  };
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('Session Lifecycle', () => {
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'TEST-DEVICE-ID',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const okResponse = (data: unknown) => ({ status: 200, data: { code: 0, message: 'OK', data } });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('SessionManager', () => {
+    it('should mint session ids the way the app does and keep them stable', () => {
+      const sessions = new SessionManager('TEST-DEVICE-ID');
+
+      const sessionId = sessions.getSessionId();
+
+      expect(sessionId).toMatch(/^TEST-DEVICE-IDd\d{10}\.\d{7}$/);
+      expect(sessions.getSessionId()).toBe(sessionId);
+      expect(sessions.rotate()).not.toBe(sessionId);
+    });
+
+    it('should resume a stored session', () => {
+      const sessions = new SessionManager('TEST-DEVICE-ID');
+
+      sessions.restore('');
+      expect(sessions.hasSession()).toBe(false);
+
+      sessions.restore('stored-session');
+      expect(sessions.getSessionId()).toBe('stored-session');
+    });
+
+    it('should rotate when the app returns to the foreground after the background timeout', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const sessions = new SessionManager('TEST-DEVICE-ID', { backgroundTimeoutMs: 60_000 });
+      const sessionId = sessions.getSessionId();
+
+      sessions.updateAppState('background');
+      now.mockReturnValue(1_030_000);
+      expect(sessions.updateAppState('foreground')).toBe(false);
+      expect(sessions.getSessionId()).toBe(sessionId);
+
+      sessions.updateAppState('background');
+      sessions.updateAppState('background');
+      now.mockReturnValue(1_100_000);
+      expect(sessions.updateAppState('foreground')).toBe(true);
+      expect(sessions.getSessionId()).not.toBe(sessionId);
+    });
+  });
+
+  describe('BoltDriverAPI Integration', () => {
+    let api: BoltDriverAPI;
+    let storage: MemoryTokenStorage;
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      mockedAxios.create.mockReturnValue(mockClient as any);
+
+      storage = new MemoryTokenStorage();
+      const token = createJwt(3600);
+      await storage.saveToken(token, {
+        sessionId: 'stored-session',
+        driverId: 123,
+        partnerId: 456,
+        accessToken: token,
+        refreshToken: 'refresh-token',
+        expiresAt: Date.now() + 3600000
+      });
+
+      api = new BoltDriverAPI(deviceInfo, authConfig, { retries: 0 }, storage);
+      // Wait for the stored token to be restored
+      await new Promise(resolve => setTimeout(resolve, 10));
+    });
+
+    const sentSessionIds = () => [
+      ...mockClient.get.mock.calls.map(([, config]: any[]) => config?.params?.session_id),
+      ...mockClient.post.mock.calls.map(([, , config]: any[]) => config?.params?.session_id)
+    ];
+
+    it('should send the stored session id with every request, including the token exchange', async () => {
+      mockClient.post.mockResolvedValue(okResponse({ access_token: createJwt(3600) }));
+      mockClient.get.mockResolvedValue(okResponse({}));
+
+      await api.getDriverState(gpsInfo);
+      await api.exchangeRefreshTokenForJWT(gpsInfo);
+      await api.getLoggedInDriverConfiguration();
+      await api.getHelpDetails(gpsInfo);
+
+      expect(sentSessionIds()).toEqual(['stored-session', 'stored-session', 'stored-session', 'stored-session']);
+      expect(api.getSessionInfo()?.sessionId).toBe('stored-session');
+    });
+
+    it('should start and persist a new session when the app returns to the foreground', async () => {
+      mockClient.post.mockResolvedValue(okResponse({}));
+
+      await api.getDriverState(gpsInfo, 'background');
+      await api.getDriverState(gpsInfo, 'foreground');
+
+      const [first, second] = sentSessionIds();
+      expect(first).toBe('stored-session');
+      expect(second).toMatch(/^TEST-DEVICE-IDd/);
+      expect(api.getSessionInfo()?.sessionId).toBe(second);
+      expect((await storage.loadToken())?.sessionInfo.sessionId).toBe(second);
+    });
+
+    it('should start a new session on re-login', async () => {
+      mockClient.post.mockResolvedValueOnce({
+        status: 200,
+        data: { code: 0, message: 'OK', data: { token: { refresh_token: createJwt(3600), token_type: 'driver' } } }
+      });
+
+      await api.confirmAuthentication(
+        authConfig,
+        deviceInfo,
+        { driver_id: 'driver-1', session_id: 'session-1', phone: '+48123456789' },
+        '123456'
+      );
+
+      const sessionId = api.getSessionInfo()?.sessionId;
+      expect(sessionId).toMatch(/^TEST-DEVICE-IDd\d{10}\.\d{7}$/);
+      expect((await storage.loadToken())?.sessionInfo.sessionId).toBe(sessionId);
+    });
+
+    it('should end the session when authentication is cleared', async () => {
+      const rotated = await api.rotateSession();
+      expect((await storage.loadToken())?.sessionInfo.sessionId).toBe(rotated);
+
+      api.clearAuthentication();
+      expect((api as any).buildRequestParams().session_id).not.toBe(rotated);
+    });
+  });
+});
@@ -205,4 +205,120 @@ describe('Token Storage and Session Management', () => {
       expect(await storage.hasValidToken()).toBe(true);
     });
   });
+
+  describe('Cross-Process Token Lock', () => {
+    let tempDir: string;
+    let tokenPath: string;
+
+    beforeEach(async () => {
+      tempDir = join(__dirname, 'temp-token-lock');
+      await fs.mkdir(tempDir, { recursive: true });
+      tokenPath = join(tempDir, 'shared-token.json');
+    });
+
+    afterEach(async () => {
+      try {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('should serialize operations between storages sharing a token file', async () => {
+      const first = new FileTokenStorage(tokenPath, { lock: true, lockRetryIntervalMs: 5 });
+      const second = new FileTokenStorage(tokenPath, { lock: true, lockRetryIntervalMs: 5 });
+      const events: string[] = [];
+
+      const run = (storage: FileTokenStorage, name: string) => storage.withLock(async () => {
+        events.push(`${name}:start`);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        events.push(`${name}:end`);
+      });
+
+      await Promise.all([run(first, 'a'), run(second, 'b')]);
+
+      expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+      await expect(fs.access(first.lockPath)).rejects.toThrow();
+    });
+
+    it('should release the lock when the operation fails', async () => {
+      const storage = new FileTokenStorage(tokenPath, { lock: true });
+
+      await expect(storage.withLock(async () => {
+        throw new Error('refresh failed');
+      })).rejects.toThrow('refresh failed');
+      await expect(fs.access(storage.lockPath)).rejects.toThrow();
+    });
+
+    it('should time out while another process holds the lock', async () => {
+      const storage = new FileTokenStorage(tokenPath, { lock: true, lockTimeoutMs: 50, lockRetryIntervalMs: 5 });
+      await fs.writeFile(storage.lockPath, JSON.stringify({ pid: 1 }), 'utf8');
+
+      await expect(storage.withLock(async () => 'never')).rejects.toThrow('Timed out waiting for token lock');
+    });
+
+    it('should take over a stale lock left by a crashed process', async () => {
+      const storage = new FileTokenStorage(tokenPath, { lock: true, staleLockMs: 1000 });
+      await fs.writeFile(storage.lockPath, JSON.stringify({ pid: 1 }), 'utf8');
+      const past = new Date(Date.now() - 5000);
+      await fs.utimes(storage.lockPath, past, past);
+
+      await expect(storage.withLock(async () => 'done')).resolves.toBe('done');
+    });
+
+    it('should keep the lock fresh while a slow operation holds it', async () => {
+      const first = new FileTokenStorage(tokenPath, { lock: true, staleLockMs: 150, lockRetryIntervalMs: 5 });
+      const second = new FileTokenStorage(tokenPath, { lock: true, staleLockMs: 150, lockRetryIntervalMs: 5 });
+      const events: string[] = [];
+
+      const run = (storage: FileTokenStorage, name: string, ms: number) => storage.withLock(async () => {
+        events.push(`${name}:start`);
+        await new Promise(resolve => setTimeout(resolve, ms));
+        events.push(`${name}:end`);
+      });
+
+      await Promise.all([run(first, 'a', 400), new Promise(resolve => setTimeout(resolve, 20)).then(() => run(second, 'b', 0))]);
+
+      expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    });
+
+    it('should not remove a lock taken over by another process', async () => {
+      const storage = new FileTokenStorage(tokenPath, { lock: true });
+      const otherLock = JSON.stringify({ pid: 1, owner: 'other-owner' });
+
+      await storage.withLock(async () => {
+        await fs.writeFile(storage.lockPath, otherLock, 'utf8');
+      });
+
+      await expect(fs.readFile(storage.lockPath, 'utf8')).resolves.toBe(otherLock);
+    });
+
+    it('should not keep a lock fresh once another process took it over', async () => {
+      const storage = new FileTokenStorage(tokenPath, { lock: true, staleLockMs: 60 });
+      const past = new Date(Date.now() - 5000);
+
+      await storage.withLock(async () => {
+        await fs.writeFile(storage.lockPath, JSON.stringify({ pid: 1, owner: 'other-owner' }), 'utf8');
+        await fs.utimes(storage.lockPath, past, past);
+        await new Promise(resolve => setTimeout(resolve, 100));
+      });
+
+      expect(Date.now() - (await fs.stat(storage.lockPath)).mtimeMs).toBeGreaterThan(4000);
+    });
+
+    it('should time out instead of spinning on an unreadable lock', async () => {
+      const storage = new FileTokenStorage(tokenPath, { lock: true, lockTimeoutMs: 50, lockRetryIntervalMs: 5 });
+      await fs.mkdir(storage.lockPath);
+
+      await expect(storage.withLock(async () => 'never')).rejects.toThrow('Timed out waiting for token lock');
+    });
+
+    it('should not create a lock file when locking is disabled', async () => {
+      const storage = new FileTokenStorage(tokenPath);
+
+      await storage.withLock(async () => {
+        await expect(fs.access(storage.lockPath)).rejects.toThrow();
+      });
+    });
+  });
 });
@@ -0,0 +1,156 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, GpsInfo } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockClient = {
+  get: jest.fn() as jest.MockedFunction<any>,
+  post: jest.fn() as jest.MockedFunction<any>,
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() }
+  }
+};
+
+mockedAxios.create.mockReturnValue(mockClient as any);
+
+function createJwt(expiresInSeconds: number, driverId = 123): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = {
+    data: { driver_id: driverId, partner_id: 456, company_id: 789, company_city_id: 101 },
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+  };
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('Token Refresh Coalescing', () => {
+  let api: BoltDriverAPI;
+  let storage: MemoryTokenStorage;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const okResponse = (data: unknown) => ({ status: 200, data: { code: 0, message: 'OK', data } });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockClient as any);
+
+    storage = new MemoryTokenStorage();
+    api = new BoltDriverAPI(deviceInfo, authConfig, undefined, storage);
+
+    const expiredToken = createJwt(-60);
+    (api as any).accessToken = expiredToken;
+    (api as any).refreshToken = 'refresh-token';
+    (api as any).sessionInfo = {
+      sessionId: 'session-123',
+      driverId: 123,
+      partnerId: 456,
+      accessToken: expiredToken,
+      refreshToken: 'refresh-token',
+      expiresAt: Date.now() - 60000
+    };
+  });
+
+  it('should share a single refresh between concurrent requests', async () => {
+    const freshToken = createJwt(3600);
+    let resolveRefresh: (value: unknown) => void = () => undefined;
+    mockClient.post.mockImplementation((url: any) => {
+      if (String(url).includes('getAccessToken')) {
+        return new Promise(resolve => { resolveRefresh = resolve; });
+      }
+      return Promise.resolve(okResponse({}));
+    });
+    mockClient.get.mockImplementation(() => Promise.resolve(okResponse({ items: [] })));
+
+    const calls = Promise.all([
+      api.getOrderHistoryPaginated(gpsInfo),
+      api.getActivityRides(gpsInfo),
+      api.getHelpDetails(gpsInfo)
+    ]);
+
+    // Let every caller reach the refresh before it completes
+    await new Promise(resolve => setTimeout(resolve, 10));
+    resolveRefresh(okResponse({ access_token: freshToken, expires_timestamp: 0, expires_in_seconds: 3600 }));
+    await calls;
+
+    const refreshCalls = mockClient.post.mock.calls.filter(([url]: any[]) => String(url).includes('getAccessToken'));
+    expect(refreshCalls).toHaveLength(1);
+    expect(mockClient.get).toHaveBeenCalledTimes(3);
+    expect(api.isAuthenticated()).toBe(true);
+  });
+
+  it('should persist the refreshed token together with the refresh token', async () => {
+    const freshToken = createJwt(3600);
+    mockClient.post.mockResolvedValueOnce(okResponse({ access_token: freshToken, expires_timestamp: 0, expires_in_seconds: 3600 }));
+    mockClient.get.mockResolvedValueOnce(okResponse({ helpTopics: [] }));
+
+    await api.getHelpDetails(gpsInfo);
+
+    const stored = await storage.loadToken();
+    expect(stored?.token).toBe(freshToken);
+    expect(stored?.sessionInfo.refreshToken).toBe('refresh-token');
+  });
+
+  it('should adopt a token already refreshed by another client sharing the storage', async () => {
+    const freshToken = createJwt(3600);
+    await storage.saveToken(freshToken, {
+      sessionId: 'session-123',
+      driverId: 123,
+      partnerId: 456,
+      accessToken: freshToken,
+      refreshToken: 'refresh-token',
+      expiresAt: Date.now() + 3600000
+    });
+    mockClient.get.mockResolvedValueOnce(okResponse({ helpTopics: [] }));
+
+    await api.getHelpDetails(gpsInfo);
+
+    expect(mockClient.post).not.toHaveBeenCalled();
+    expect((api as any).accessToken).toBe(freshToken);
+  });
+
+  it('should run the refresh inside the storage lock when one is provided', async () => {
+    const withLock = jest.fn(<T>(operation: () => Promise<T>) => operation());
+    (storage as any).withLock = withLock;
+    mockClient.post.mockResolvedValueOnce(okResponse({ access_token: createJwt(3600), expires_timestamp: 0, expires_in_seconds: 3600 }));
+    mockClient.get.mockResolvedValueOnce(okResponse({ helpTopics: [] }));
+
+    await api.getHelpDetails(gpsInfo);
+
+    expect(withLock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,246 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { AxiosTransport, FetchTransport, MemoryTransport, applyMiddleware } from '../src/Transport';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import {
+  DeviceInfo,
+  AuthConfig,
+  GpsInfo,
+  BoltApiError,
+  DatabaseError,
+  InvalidSmsCodeError,
+  RequestAbortedError,
+  SmsLimitError,
+  Transport,
+  TransportRequest,
+  ValidationError
+} from '../src/types';
+
+describe('Transports', () => {
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const gpsInfo: GpsInfo = {
+    latitude: 52.237049,
+    longitude: 21.017532,
+    accuracy: 10,
+    speed: 0,
+    bearing: 0,
+    timestamp: Math.floor(Date.now() / 1000),
+    age: 0,
+    accuracyMeters: 10,
+    adjustedBearing: 0,
+    bearingAccuracyDeg: 0,
+    speedAccuracyMps: 0,
+    gps_speed_accuracy: 1
+  };
+
+  const ok = (data: unknown) => ({ data: { code: 0, message: 'OK', data } });
+
+  describe('BoltDriverAPI with a MemoryTransport', () => {
+    let transport: MemoryTransport;
+    let api: BoltDriverAPI;
+
+    beforeEach(() => {
+      transport = new MemoryTransport();
+      api = new BoltDriverAPI(deviceInfo, authConfig, { transport, retries: 0 }, new MemoryTokenStorage());
+      (api as any).accessToken = 'test-token';
+      (api as any).sessionInfo = {
+        sessionId: 'session-123',
+        driverId: 123,
+        partnerId: 456,
+        expiresAt: Date.now() + 3600000
+      };
+    });
+
+    it('should send requests with the default headers, the access token and the query parameters', async () => {
+      transport.on('GET', /getWorkingTimeInfo$/, ok({ minutes: 42 }));
+
+      await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toEqual({ minutes: 42 });
+
+      const [request] = transport.requests;
+      expect(request).toMatchObject({
+        method: 'GET',
+        url: 'https://driver.live.boltsvc.net/driver/v2/getWorkingTimeInfo',
+        params: expect.objectContaining({ deviceId: 'test-device-id', gps_lat: gpsInfo.latitude }),
+        headers: expect.objectContaining({
+          'User-Agent': 'Bolt Driver/179857746 CFNetwork/3826.600.31 Darwin/24.6.0',
+          'Accept-Language': 'en-GB',
+          Authorization: 'Bearer test-token'
+        })
+      });
+    });
+
+    it('should not send the access token to Sinch or with the magic link request', async () => {
+      transport.on('PUT', /pushProfile$/, { data: {} }).on('POST', /sendMagicLink$/, ok({}));
+
+      await api.updatePushProfile('user-1', 'instance-1', 'device-token');
+      await api.sendMagicLink('driver@example.com');
+
+      expect(transport.requests.map(request => request.headers['Authorization'])).toEqual([undefined, undefined]);
+    });
+
+    it('should map HTTP error statuses to SDK errors', async () => {
+      transport
+        .on('GET', /getWorkingTimeInfo$/, { status: 400, data: { message: 'bad' } })
+        .on('GET', /getDriverNavBarBadges$/, { status: 503, headers: { 'retry-after': '2' }, data: { message: 'busy' } });
+
+      await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toThrow(ValidationError);
+      await expect(api.getDriverNavBarBadges(gpsInfo)).rejects.toMatchObject({
+        message: 'API request failed: busy',
+        statusCode: 503,
+        retryAfterMs: 2000
+      });
+    });
+
+    it('should map Bolt error codes of HTTP error responses to typed errors', async () => {
+      const credentials = { driver_id: 'driver-1', session_id: 'session-1', phone: '+48123456789' };
+      transport
+        .on('POST', /startAuthentication$/, { status: 429, data: { code: 299, message: 'SMS_LIMIT_REACHED' } })
+        .on('POST', /confirmAuthentication$/, { status: 400, data: { code: 293, message: 'SMS_CODE_NOT_FOUND' } })
+        .on('GET', /getWorkingTimeInfo$/, { status: 500, data: { code: 1000, message: 'DATABASE_ERROR' } });
+
+      await expect(api.startAuthentication(authConfig, deviceInfo, credentials)).rejects.toBeInstanceOf(SmsLimitError);
+      await expect(api.confirmAuthentication(authConfig, deviceInfo, { ...credentials, verification_token: 'token' }, '000000'))
+        .rejects.toBeInstanceOf(InvalidSmsCodeError);
+      await expect(api.getWorkingTimeInfo(gpsInfo)).rejects.toBeInstanceOf(DatabaseError);
+    });
+
+    it('should answer unmatched requests with 404 and let later routes win', async () => {
+      transport.on('GET', /getWorkingTimeInfo$/, ok('first')).on('GET', /getWorkingTimeInfo$/, ok('second'));
+
+      await expect(api.getWorkingTimeInfo(gpsInfo)).resolves.toBe('second');
+      await expect(api.getDriverNavBarBadges(gpsInfo)).rejects.toMatchObject({ statusCode: 404 });
+
+      transport.reset();
+      expect(transport.requests).toEqual([]);
+    });
+  });
+
+  describe('applyMiddleware', () => {
+    it('should run middleware outermost first', async () => {
+      const order: string[] = [];
+      const transport = new MemoryTransport().on('GET', '/ping', { data: 'pong' });
+      const wrapped = applyMiddleware(transport, [
+        async (request, next) => {
+          order.push('outer');
+          return next({ ...request, headers: { ...request.headers, 'X-Outer': '1' } });
+        },
+        async (request, next) => {
+          order.push('inner');
+          const response = await next(request);
+          return { ...response, data: `${response.data}!` };
+        }
+      ]);
+
+      const response = await wrapped.request({ method: 'GET', url: 'http://localhost/ping', headers: {} });
+
+      expect(order).toEqual(['outer', 'inner']);
+      expect(response.data).toBe('pong!');
+      expect(transport.requests[0]?.headers).toEqual({ 'X-Outer': '1' });
+    });
+  });
+
+  describe.each([
+    ['AxiosTransport', (baseURL: string) => new AxiosTransport({ baseURL, headers: { 'User-Agent': 'test-agent' } })],
+    ['FetchTransport', (baseURL: string) => new FetchTransport({ baseURL, headers: { 'User-Agent': 'test-agent' } })]
+  ])('%s over HTTP', (_name, createTransport: (baseURL: string) => Transport) => {
+    let server: Server;
+    let baseURL: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          if (req.url?.startsWith('/busy')) {
+            res.writeHead(503, { 'Content-Type': 'application/json', 'Retry-After': '2' });
+            res.end(JSON.stringify({ message: 'busy' }));
+          } else if (req.url?.startsWith('/slow')) {
+            setTimeout(() => res.end('{}'), 500);
+          } else if (req.url?.startsWith('/bytes')) {
+            res.end(Buffer.from([1, 2, 3]));
+          } else {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ method: req.method, url: req.url, headers: req.headers, body }));
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const send = (request: Partial<TransportRequest>) =>
+      createTransport(baseURL).request<any>({ method: 'GET', url: '/echo', headers: {}, ...request });
+
+    it('should serialize query parameters, headers and JSON bodies', async () => {
+      const response = await send({
+        method: 'POST',
+        params: { version: 'DI.116.0', gps_lat: 52.5, skipped: undefined },
+        headers: { 'X-Trace-Id': 'trace-1' },
+        data: { phone: '+48123456789' }
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.data.method).toBe('POST');
+      expect(response.data.url).toBe('/echo?version=DI.116.0&gps_lat=52.5');
+      expect(response.data.headers).toMatchObject({
+        'user-agent': 'test-agent',
+        'x-trace-id': 'trace-1',
+        'content-type': expect.stringContaining('application/json')
+      });
+      expect(JSON.parse(response.data.body)).toEqual({ phone: '+48123456789' });
+    });
+
+    it('should resolve HTTP error statuses as responses', async () => {
+      const response = await send({ url: '/busy' });
+
+      expect(response).toMatchObject({ status: 503, data: { message: 'busy' } });
+      expect(response.headers['retry-after']).toBe('2');
+    });
+
+    it('should read binary bodies as an ArrayBuffer', async () => {
+      const response = await send({ url: '/bytes', responseType: 'arraybuffer' });
+
+      expect(Array.from(new Uint8Array(response.data))).toEqual([1, 2, 3]);
+    });
+
+    it('should reject aborted requests with RequestAbortedError', async () => {
+      const controller = new AbortController();
+      const request = send({ url: '/slow', signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(request).rejects.toThrow(RequestAbortedError);
+    });
+
+    it('should report timeouts and connection failures as network errors', async () => {
+      await expect(send({ url: '/slow', timeout: 20 })).rejects.toMatchObject({
+        statusCode: 0,
+        message: expect.stringContaining('Network error')
+      });
+
+      const unreachable = createTransport('http://127.0.0.1:1').request({ method: 'GET', url: '/echo', headers: {} });
+      await expect(unreachable).rejects.toThrow(BoltApiError);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { BoltDriverAPI } from '../src/BoltDriverAPI';
+import { FakeBoltServer } from '../src/testing/FakeBoltServer';
+import { MemoryTokenStorage } from '../src/TokenStorage';
+import { DeviceInfo, AuthConfig, Credentials, ValidationError, VerificationCooldownError } from '../src/types';
+
+describe('Verification code resend', () => {
+  let server: FakeBoltServer;
+
+  const deviceInfo: DeviceInfo = {
+    deviceId: 'test-device-id',
+    deviceType: 'iphone',
+    deviceName: 'iPhone17,3',
+    deviceOsVersion: 'iOS18.6',
+    appVersion: 'DI.116.0'
+  };
+
+  const authConfig: AuthConfig = {
+    authMethod: 'phone',
+    brand: 'bolt',
+    country: 'pl',
+    language: 'en-GB',
+    theme: 'dark'
+  };
+
+  const credentials: Credentials = {
+    driver_id: 'driver-1',
+    session_id: 'session-1',
+    phone: '+48123456789'
+  };
+
+  const createApi = () =>
+    new BoltDriverAPI(deviceInfo, authConfig, { hosts: server.hosts, retries: 0 }, new MemoryTokenStorage(), { enabled: false });
+
+  const advanceClock = (ms: number) => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + ms);
+  };
+
+  beforeEach(async () => {
+    server = new FakeBoltServer({ verificationCode: '111111', verificationChannels: ['sms', 'call'] });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.stop();
+  });
+
+  it('should enforce the resend wait locally', async () => {
+    const api = createApi();
+    await expect(api.resendVerificationCode()).rejects.toThrow(ValidationError);
+
+    await api.startAuthentication(authConfig, deviceInfo, credentials);
+    const error = await api.resendVerificationCode().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(VerificationCooldownError);
+    expect((error as VerificationCooldownError).retryAfterMs).toBeGreaterThan(29000);
+    expect(server.requests.filter(request => request.endpoint === 'startAuthentication')).toHaveLength(1);
+  });
+
+  it('should send a new code through another channel and confirm it with the new token', async () => {
+    const api = createApi();
+    const started = await api.startAuthentication(authConfig, deviceInfo, credentials);
+    expect(api.getPendingVerification()).toMatchObject({
+      phone: credentials.phone,
+      verificationToken: started.data.verification_token,
+      channel: 'sms',
+      availableChannels: ['sms', 'call']
+    });
+
+    advanceClock(30000);
+    await expect(api.resendVerificationCode('whatsapp')).rejects.toThrow("Verification code channel 'whatsapp' is not available");
+    const resent = await api.resendVerificationCode('call');
+
+    expect(resent.data.verification_code_channel).toBe('call');
+    expect(resent.data.verification_token).not.toBe(started.data.verification_token);
+    expect(api.getPendingVerification()?.verificationToken).toBe(resent.data.verification_token);
+
+    await expect(api.confirmAuthentication(authConfig, deviceInfo, credentials, '111111')).resolves.toMatchObject({ code: 0 });
+    expect(api.isAuthenticated()).toBe(true);
+    expect(api.getPendingVerification()).toBeUndefined();
+  });
+});